@@ -1,5 +1,22 @@
 const API_BASE = "/api";
+const POLL_INTERVAL_MS = 5000;
+// While the event stream is open, polling only refreshes uptime and the session list
+const STREAM_REFRESH_INTERVAL_MS = 30000;
 let refreshInterval;
+let eventSource = null;
+let isStreamOpen = false;
+let eventRetryTimer;
+let logRefreshTimer;
+const ackStatuses = new Map();
+let currentSession = "default";
+let templates = [];
+const LOG_PAGE_SIZE = 20;
+const AUDIT_PAGE_SIZE = 50;
+let logOffset = 0;
+// Roles in increasing order of access, as enforced by the server
+const ROLES = ["viewer", "operator", "admin"];
+let currentUser = { username: "", role: "viewer" };
+let twoFactorChallenge = null;
 
 showDashboard();
 
@@ -28,7 +45,13 @@ document.getElementById("loginForm").addEventListener("submit", async (e) => {
 
     const data = await res.json();
 
-    if (data.success) {
+    if (data.success && data.twoFactorRequired) {
+      twoFactorChallenge = data.challengeToken;
+      errorEl.style.display = "none";
+      document.getElementById("loginForm").classList.add("hidden");
+      document.getElementById("twoFactorLoginForm").classList.remove("hidden");
+      document.getElementById("twoFactorLoginCode").focus();
+    } else if (data.success) {
       showDashboard();
     } else {
       errorEl.textContent = data.error || "Login failed";
@@ -40,20 +63,190 @@ document.getElementById("loginForm").addEventListener("submit", async (e) => {
   }
 });
 
-function showDashboard() {
+document.getElementById("twoFactorLoginForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const errorEl = document.getElementById("loginError");
+  const codeEl = document.getElementById("twoFactorLoginCode");
+
+  try {
+    const res = await authFetch("/auth/login/2fa", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ challengeToken: twoFactorChallenge, code: codeEl.value }),
+    });
+    const data = await res.json();
+
+    if (data.success) {
+      resetLoginForm();
+      showDashboard();
+      return;
+    }
+
+    errorEl.textContent = data.error || "Verification failed";
+    errorEl.style.display = "block";
+    codeEl.value = "";
+    // An expired challenge needs the password again
+    if (/challenge/i.test(data.error || "")) resetLoginForm();
+  } catch (err) {
+    errorEl.textContent = "Connection error";
+    errorEl.style.display = "block";
+  }
+});
+
+function resetLoginForm() {
+  twoFactorChallenge = null;
+  document.getElementById("twoFactorLoginCode").value = "";
+  document.getElementById("twoFactorLoginForm").classList.add("hidden");
+  document.getElementById("loginForm").classList.remove("hidden");
+}
+
+function sessionQuery() {
+  return `?session=${encodeURIComponent(currentSession)}`;
+}
+
+function hasRole(role) {
+  return ROLES.indexOf(currentUser.role) >= ROLES.indexOf(role);
+}
+
+async function fetchCurrentUser() {
+  const res = await authFetch("/dashboard/me");
+  if (res.status === 401) return null;
+
+  const data = await res.json();
+  return data.success ? data.data : null;
+}
+
+/**
+ * Hide the parts of the dashboard the user's role cannot use
+ */
+function applyRole() {
+  document.getElementById("currentUser").textContent = `${currentUser.username} (${currentUser.role})`;
+  for (const el of document.querySelectorAll("[data-min-role]")) {
+    el.classList.toggle("hidden", !hasRole(el.dataset.minRole));
+  }
+
+  // Until required two-factor authentication is set up, only its card is usable
+  for (const card of document.querySelectorAll(".grid > .card")) {
+    if (currentUser.twoFactorSetupRequired) {
+      card.classList.toggle("hidden", card.id !== "twoFactorCard");
+    } else if (!card.dataset.minRole) {
+      card.classList.remove("hidden");
+    }
+  }
+}
+
+async function showDashboard() {
+  let user;
+  try {
+    user = await fetchCurrentUser();
+  } catch (err) {
+    console.error("User fetch error:", err);
+  }
+
+  if (!user) {
+    showLogin();
+    return;
+  }
+
+  currentUser = user;
+  applyRole();
   document.getElementById("loginPage").style.display = "none";
   document.getElementById("dashboard").style.display = "block";
+  fetchTwoFactorStatus();
+  if (user.twoFactorSetupRequired) return;
+
+  fetchSessions();
   fetchStatus();
-  fetchLogs();
+  fetchLoginSessions();
+  if (hasRole("operator")) {
+    fetchTemplates();
+    fetchLogs();
+  }
+  if (hasRole("admin")) {
+    fetchApiKeys();
+    fetchUsers();
+    fetchAuditLog();
+  }
+  startPolling(POLL_INTERVAL_MS);
+  connectEvents();
+}
+
+function startPolling(intervalMs) {
   clearInterval(refreshInterval);
   refreshInterval = setInterval(() => {
+    fetchSessions();
     fetchStatus();
-    fetchLogs();
-  }, 5000);
+    if (!isStreamOpen && hasRole("operator")) fetchLogs();
+  }, intervalMs);
+}
+
+/**
+ * Live updates over Server-Sent Events; polling takes over while the stream is down
+ */
+function connectEvents() {
+  disconnectEvents();
+  if (!window.EventSource) return;
+
+  const source = new EventSource(`${API_BASE}/dashboard/events${sessionQuery()}`);
+  eventSource = source;
+
+  source.addEventListener("open", () => {
+    isStreamOpen = true;
+    startPolling(STREAM_REFRESH_INTERVAL_MS);
+  });
+
+  source.addEventListener("state", (e) => {
+    renderStatus(JSON.parse(e.data));
+    fetchSessions();
+  });
+
+  source.addEventListener("qr", (e) => {
+    showQR(JSON.parse(e.data).qrCode);
+  });
+
+  source.addEventListener("log", () => {
+    // Entries arrive one per target during broadcasts, so refresh at most once a second
+    clearTimeout(logRefreshTimer);
+    logRefreshTimer = setTimeout(fetchLogs, 1000);
+  });
+
+  source.addEventListener("ack", (e) => {
+    const ack = JSON.parse(e.data);
+    ackStatuses.set(ack.messageId, ack.status);
+    if (ackStatuses.size > 500) {
+      ackStatuses.delete(ackStatuses.keys().next().value);
+    }
+    const el = document.querySelector(`[data-message-id="${CSS.escape(ack.messageId)}"]`);
+    if (el) el.textContent = ack.status;
+  });
+
+  source.addEventListener("error", () => {
+    isStreamOpen = false;
+    startPolling(POLL_INTERVAL_MS);
+
+    // A closed stream (e.g. expired login) is not retried by the browser
+    if (source.readyState === EventSource.CLOSED) {
+      eventSource = null;
+      fetchStatus();
+      clearTimeout(eventRetryTimer);
+      eventRetryTimer = setTimeout(connectEvents, STREAM_REFRESH_INTERVAL_MS);
+    }
+  });
+}
+
+function disconnectEvents() {
+  clearTimeout(eventRetryTimer);
+  isStreamOpen = false;
+  if (eventSource) {
+    eventSource.close();
+    eventSource = null;
+  }
 }
 
 function showLogin() {
   clearInterval(refreshInterval);
+  resetLoginForm();
+  disconnectEvents();
   document.getElementById("dashboard").style.display = "none";
   document.getElementById("loginPage").style.display = "flex";
 }
@@ -66,9 +259,124 @@ document.getElementById("btnDashboardLogout").addEventListener("click", async ()
   }
 });
 
+async function fetchSessions() {
+  try {
+    const res = await authFetch("/dashboard/sessions");
+    if (res.status === 401) {
+      showLogin();
+      return;
+    }
+
+    const data = await res.json();
+    if (data.success) {
+      renderSessions(data.data);
+    }
+  } catch (err) {
+    console.error("Sessions fetch error:", err);
+  }
+}
+
+function renderSessions(sessions) {
+  const select = document.getElementById("sessionSelect");
+
+  if (!sessions.some((session) => session.id === currentSession)) {
+    currentSession = "default";
+  }
+
+  select.replaceChildren();
+  for (const session of sessions) {
+    const option = document.createElement("option");
+    option.value = session.id;
+    option.textContent = `${session.label || session.id} (${session.state})`;
+    option.selected = session.id === currentSession;
+    select.appendChild(option);
+  }
+}
+
+document.getElementById("sessionSelect").addEventListener("change", (e) => {
+  currentSession = e.target.value;
+  logOffset = 0;
+  fetchStatus();
+  fetchLogs();
+  connectEvents();
+});
+
+async function fetchTemplates() {
+  try {
+    const res = await authFetch("/dashboard/templates");
+    if (res.status === 401) {
+      showLogin();
+      return;
+    }
+
+    const data = await res.json();
+    if (data.success) {
+      templates = data.data;
+      renderTemplateOptions();
+    }
+  } catch (err) {
+    console.error("Templates fetch error:", err);
+  }
+}
+
+function renderTemplateOptions() {
+  const select = document.getElementById("templateSelect");
+  const selected = select.value;
+
+  select.replaceChildren(new Option("No template", ""));
+  for (const template of templates) {
+    select.appendChild(new Option(template.name, template.id, false, template.id === selected));
+  }
+
+  renderTemplateVariables();
+}
+
+function getSelectedTemplate() {
+  const id = document.getElementById("templateSelect").value;
+  return templates.find((template) => template.id === id);
+}
+
+function renderTemplateVariables() {
+  const container = document.getElementById("templateVariables");
+  const messageGroup = document.getElementById("messageGroup");
+  const messageEl = document.getElementById("message");
+  const template = getSelectedTemplate();
+
+  container.replaceChildren();
+  messageGroup.classList.toggle("hidden", !!template);
+  messageEl.required = !template;
+
+  if (!template) return;
+
+  const preview = document.createElement("p");
+  preview.className = "template-preview";
+  preview.textContent = template.body;
+  container.appendChild(preview);
+
+  for (const name of template.variables) {
+    const group = document.createElement("div");
+    group.className = "form-group";
+
+    const label = document.createElement("label");
+    label.textContent = name;
+    label.htmlFor = `templateVar-${name}`;
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.id = `templateVar-${name}`;
+    input.dataset.variable = name;
+    input.required = true;
+
+    group.append(label, input);
+    container.appendChild(group);
+  }
+}
+
+document.getElementById("templateSelect").addEventListener("change", renderTemplateVariables);
+
 async function fetchStatus() {
   try {
-    const res = await authFetch("/dashboard/status");
+    const res = await authFetch(`/dashboard/status${sessionQuery()}`);
 
     if (res.status === 401) {
       showLogin();
@@ -77,55 +385,88 @@ async function fetchStatus() {
 
     const data = await res.json();
     if (data.success) {
-      const d = data.data;
-      const connEl = document.getElementById("statusConnection");
-      connEl.textContent = d.isConnected ? "Connected" : "Disconnected";
-      connEl.className =
-        "value " +
-        (d.isConnected
-          ? "status-connected"
-          : d.state === "WAITING_FOR_QR_SCAN"
-          ? "status-waiting"
-          : "status-disconnected");
-
-      document.getElementById("statusState").textContent = d.state || "-";
-      document.getElementById("statusPhone").textContent = d.phoneNumber
-        ? `+${d.phoneNumber}`
-        : "-";
-      document.getElementById("statusUptime").textContent = formatUptime(d.uptime);
-
-      if (d.hasQR && !d.isConnected) {
-        fetchQR();
-      } else {
-        document.getElementById("qrImage").classList.add("hidden");
-        document.getElementById("qrPlaceholder").classList.remove("hidden");
-        document.getElementById("qrPlaceholder").textContent = d.isConnected
-          ? "Connected"
-          : "Waiting for QR code...";
-      }
+      renderStatus(data.data);
     }
   } catch (err) {
     console.error("Status fetch error:", err);
   }
 }
 
+function renderStatus(d) {
+  if (d.session !== currentSession) return;
+
+  const connEl = document.getElementById("statusConnection");
+  connEl.textContent = d.isConnected ? "Connected" : "Disconnected";
+  connEl.className =
+    "value " +
+    (d.isConnected
+      ? "status-connected"
+      : d.state === "WAITING_FOR_QR_SCAN"
+      ? "status-waiting"
+      : "status-disconnected");
+
+  document.getElementById("statusState").textContent = d.state || "-";
+  document.getElementById("statusPhone").textContent = d.phoneNumber
+    ? `+${d.phoneNumber}`
+    : "-";
+  document.getElementById("statusUptime").textContent = formatUptime(d.uptime);
+
+  renderPairingCode(d.isConnected ? null : d.pairingCode);
+
+  if (d.hasQR && !d.isConnected) {
+    // The stream pushes new QR codes itself
+    if (!isStreamOpen && hasRole("operator")) fetchQR();
+  } else {
+    document.getElementById("qrImage").classList.add("hidden");
+    document.getElementById("qrPlaceholder").classList.remove("hidden");
+    document.getElementById("qrPlaceholder").textContent = d.isConnected
+      ? "Connected"
+      : "Waiting for QR code...";
+  }
+}
+
+function renderPairingCode(pairing) {
+  const el = document.getElementById("pairingCode");
+  el.textContent = pairing ? pairing.code : "";
+  el.classList.toggle("hidden", !pairing);
+  document.getElementById("pairForm").classList.toggle("hidden", !!pairing);
+}
+
+function showQR(qrCode) {
+  document.getElementById("qrImage").src = qrCode;
+  document.getElementById("qrImage").classList.remove("hidden");
+  document.getElementById("qrPlaceholder").classList.add("hidden");
+}
+
 async function fetchQR() {
   try {
-    const res = await authFetch("/dashboard/qr");
+    const res = await authFetch(`/dashboard/qr${sessionQuery()}`);
     const data = await res.json();
     if (data.success && data.data.qrCode) {
-      document.getElementById("qrImage").src = data.data.qrCode;
-      document.getElementById("qrImage").classList.remove("hidden");
-      document.getElementById("qrPlaceholder").classList.add("hidden");
+      showQR(data.data.qrCode);
     }
   } catch (err) {
     console.error("QR fetch error:", err);
   }
 }
 
+function logFilterParams() {
+  const params = new URLSearchParams({ session: currentSession });
+  const status = document.getElementById("logStatus").value;
+  const target = document.getElementById("logTarget").value.trim();
+
+  if (status) params.set("status", status);
+  if (/^\d{1,4}$/.test(target)) params.set("target", target);
+  return params;
+}
+
 async function fetchLogs() {
   try {
-    const res = await authFetch("/dashboard/logs");
+    const params = logFilterParams();
+    params.set("limit", LOG_PAGE_SIZE);
+    params.set("offset", logOffset);
+
+    const res = await authFetch(`/dashboard/logs?${params}`);
     if (res.status === 401) {
       showLogin();
       return;
@@ -133,12 +474,52 @@ async function fetchLogs() {
     const data = await res.json();
     if (data.success) {
       renderLogs(data.data);
+      renderLogPager(data.pagination);
     }
   } catch (err) {
     console.error("Logs fetch error:", err);
   }
 }
 
+function renderLogPager(pagination) {
+  const { total, limit, offset } = pagination;
+  const info = document.getElementById("logPageInfo");
+
+  info.textContent = total === 0
+    ? ""
+    : `${offset + 1}–${Math.min(offset + limit, total)} of ${total}`;
+  document.getElementById("logPrev").disabled = offset === 0;
+  document.getElementById("logNext").disabled = offset + limit >= total;
+}
+
+document.getElementById("logPrev").addEventListener("click", () => {
+  logOffset = Math.max(logOffset - LOG_PAGE_SIZE, 0);
+  fetchLogs();
+});
+
+document.getElementById("logNext").addEventListener("click", () => {
+  logOffset += LOG_PAGE_SIZE;
+  fetchLogs();
+});
+
+document.getElementById("logStatus").addEventListener("change", () => {
+  logOffset = 0;
+  fetchLogs();
+});
+
+document.getElementById("logTarget").addEventListener("input", () => {
+  logOffset = 0;
+  fetchLogs();
+});
+
+for (const button of document.querySelectorAll("[data-export]")) {
+  button.addEventListener("click", () => {
+    const params = logFilterParams();
+    params.set("format", button.dataset.export);
+    window.location.href = `${API_BASE}/dashboard/logs/export?${params}`;
+  });
+}
+
 function renderLogs(logs) {
   const container = document.getElementById("logList");
   container.replaceChildren();
@@ -184,6 +565,14 @@ function renderLogs(logs) {
     time.className = "log-time";
     time.textContent = formatTime(log.timestamp);
 
+    if (log.messageId) {
+      const ack = document.createElement("div");
+      ack.className = "log-ack";
+      ack.dataset.messageId = log.messageId;
+      ack.textContent = ackStatuses.get(log.messageId) || "";
+      time.appendChild(ack);
+    }
+
     item.append(status, content, time);
     container.appendChild(item);
   }
@@ -194,6 +583,18 @@ document.getElementById("sendForm").addEventListener("submit", async (e) => {
   const target = document.getElementById("target").value;
   const message = document.getElementById("message").value;
   const resultEl = document.getElementById("sendResult");
+  const template = getSelectedTemplate();
+  const payload = { target, session: currentSession };
+
+  if (template) {
+    payload.template = template.id;
+    payload.variables = {};
+    for (const input of document.querySelectorAll("#templateVariables input")) {
+      payload.variables[input.dataset.variable] = input.value;
+    }
+  } else {
+    payload.message = message;
+  }
 
   resultEl.style.display = "none";
 
@@ -201,7 +602,7 @@ document.getElementById("sendForm").addEventListener("submit", async (e) => {
     const res = await authFetch("/dashboard/send", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ target, message }),
+      body: JSON.stringify(payload),
     });
 
     const data = await res.json();
@@ -220,13 +621,633 @@ document.getElementById("sendForm").addEventListener("submit", async (e) => {
   }
 });
 
+document.getElementById("pairForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const resultEl = document.getElementById("pairResult");
+  const phoneNumber = document.getElementById("pairPhone").value;
+
+  resultEl.style.display = "none";
+
+  try {
+    const res = await authFetch("/dashboard/pair", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ phoneNumber, session: currentSession }),
+    });
+
+    const data = await res.json();
+    if (data.success) {
+      renderPairingCode(data.data);
+      resultEl.textContent = "On the phone: WhatsApp > Linked devices > Link with phone number";
+      resultEl.className = "send-result success";
+    } else {
+      resultEl.textContent = data.error;
+      resultEl.className = "send-result error";
+    }
+  } catch (err) {
+    resultEl.textContent = "Failed to request pairing code";
+    resultEl.className = "send-result error";
+  }
+
+  resultEl.style.display = "block";
+});
+
+async function fetchApiKeys() {
+  try {
+    const res = await authFetch("/dashboard/api-keys");
+    if (res.status === 401) {
+      showLogin();
+      return;
+    }
+
+    const data = await res.json();
+    if (data.success) {
+      renderApiKeys(data.data);
+    }
+  } catch (err) {
+    console.error("API keys fetch error:", err);
+  }
+}
+
+function renderApiKeys(keys) {
+  const container = document.getElementById("apiKeyList");
+  container.replaceChildren();
+
+  if (!keys || keys.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "log-empty";
+    empty.textContent = "No API keys yet (the API_KEY from the environment always works)";
+    container.appendChild(empty);
+    return;
+  }
+
+  for (const key of keys) {
+    const item = document.createElement("div");
+    item.className = "log-item";
+
+    const content = document.createElement("div");
+    content.className = "log-content";
+
+    const label = document.createElement("div");
+    label.className = "log-target";
+    label.textContent = `${key.label} (${key.prefix}…)`;
+
+    const details = document.createElement("div");
+    details.className = "log-message";
+    const limits = [
+      key.scopes.join(", "),
+      key.rateLimitPerMinute ? `${key.rateLimitPerMinute}/min` : null,
+      key.dailyQuota ? `${key.usedToday}/${key.dailyQuota} today` : null,
+      key.expiresAt ? `expires ${formatTime(key.expiresAt)}` : null,
+      key.lastUsedAt ? `used ${formatTime(key.lastUsedAt)}` : "never used",
+    ];
+    details.textContent = limits.filter(Boolean).join(" · ");
+    content.append(label, details);
+
+    const revoke = document.createElement("button");
+    revoke.type = "button";
+    revoke.className = "btn-revoke";
+    revoke.textContent = "Revoke";
+    revoke.addEventListener("click", () => revokeApiKey(key));
+
+    item.append(content, revoke);
+    container.appendChild(item);
+  }
+}
+
+async function revokeApiKey(key) {
+  if (!confirm(`Revoke API key "${key.label}"? Services using it stop working immediately.`)) {
+    return;
+  }
+
+  try {
+    await authFetch(`/dashboard/api-keys/${encodeURIComponent(key.id)}`, { method: "DELETE" });
+  } finally {
+    fetchApiKeys();
+  }
+}
+
+document.getElementById("apiKeyForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const resultEl = document.getElementById("apiKeyResult");
+  const rateLimit = document.getElementById("apiKeyRateLimit").value;
+  const dailyQuota = document.getElementById("apiKeyDailyQuota").value;
+  const expiresAt = document.getElementById("apiKeyExpiresAt").value;
+  const payload = {
+    label: document.getElementById("apiKeyLabel").value,
+    scopes: [...document.querySelectorAll("#apiKeyScopes input:checked")].map((input) => input.value),
+  };
+
+  if (rateLimit) payload.rateLimitPerMinute = Number(rateLimit);
+  if (dailyQuota) payload.dailyQuota = Number(dailyQuota);
+  if (expiresAt) payload.expiresAt = new Date(`${expiresAt}T23:59:59`).toISOString();
+
+  try {
+    const res = await authFetch("/dashboard/api-keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const data = await res.json();
+
+    resultEl.replaceChildren();
+    resultEl.className = "send-result " + (data.success ? "success" : "error");
+    if (data.success) {
+      const note = document.createElement("div");
+      note.textContent = "Copy this key now, it will not be shown again:";
+      const key = document.createElement("div");
+      key.className = "new-api-key";
+      key.textContent = data.key;
+      resultEl.append(note, key);
+      document.getElementById("apiKeyForm").reset();
+      fetchApiKeys();
+    } else {
+      resultEl.textContent = data.error || "Failed to create API key";
+    }
+    resultEl.style.display = "block";
+  } catch (err) {
+    resultEl.textContent = "Failed to create API key";
+    resultEl.className = "send-result error";
+    resultEl.style.display = "block";
+  }
+});
+
+async function fetchTwoFactorStatus() {
+  try {
+    const res = await authFetch("/dashboard/2fa");
+    const data = await res.json();
+    if (data.success) {
+      renderTwoFactorStatus(data.data);
+    }
+  } catch (err) {
+    console.error("Two-factor status fetch error:", err);
+  }
+}
+
+function renderTwoFactorStatus(status) {
+  let text = status.enabled
+    ? `Enabled · ${status.recoveryCodesRemaining} recovery code(s) left`
+    : "Not enabled";
+  if (status.required && !status.enabled) {
+    text += " · required before you can use the dashboard";
+  }
+
+  document.getElementById("twoFactorStatus").textContent = text;
+  document.getElementById("btnTwoFactorSetup").classList.toggle("hidden", status.enabled);
+  document.getElementById("twoFactorManageForm").classList.toggle("hidden", !status.enabled);
+  document.querySelector('#twoFactorManageForm [data-action="disable"]').classList.toggle("hidden", status.required);
+  if (status.enabled) {
+    document.getElementById("twoFactorSetup").classList.add("hidden");
+  }
+}
+
+function showTwoFactorResult(message, isSuccess, recoveryCodes) {
+  const resultEl = document.getElementById("twoFactorResult");
+  resultEl.replaceChildren();
+  resultEl.className = "send-result " + (isSuccess ? "success" : "error");
+
+  const note = document.createElement("div");
+  note.textContent = message;
+  resultEl.appendChild(note);
+
+  if (recoveryCodes) {
+    const codes = document.createElement("div");
+    codes.className = "new-api-key";
+    codes.textContent = recoveryCodes.join("  ");
+    resultEl.appendChild(codes);
+  }
+
+  resultEl.style.display = "block";
+}
+
+document.getElementById("btnTwoFactorSetup").addEventListener("click", async () => {
+  try {
+    const res = await authFetch("/dashboard/2fa/setup", { method: "POST" });
+    const data = await res.json();
+    if (!data.success) {
+      showTwoFactorResult(data.error || "Failed to start setup", false);
+      return;
+    }
+
+    document.getElementById("twoFactorQr").src = data.data.qrCode;
+    document.getElementById("twoFactorSecret").textContent = data.data.secret;
+    document.getElementById("twoFactorSetup").classList.remove("hidden");
+    document.getElementById("btnTwoFactorSetup").classList.add("hidden");
+  } catch (err) {
+    showTwoFactorResult("Failed to start setup", false);
+  }
+});
+
+document.getElementById("twoFactorEnableForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const codeEl = document.getElementById("twoFactorEnableCode");
+
+  try {
+    const res = await authFetch("/dashboard/2fa/enable", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: codeEl.value }),
+    });
+    const data = await res.json();
+    codeEl.value = "";
+
+    if (!data.success) {
+      showTwoFactorResult(data.error || "Failed to enable two-factor authentication", false);
+      return;
+    }
+
+    showTwoFactorResult(
+      "Two-factor authentication is on. Save these recovery codes, they will not be shown again:",
+      true,
+      data.data.recoveryCodes
+    );
+    if (currentUser.twoFactorSetupRequired) {
+      showDashboard();
+    } else {
+      fetchTwoFactorStatus();
+    }
+  } catch (err) {
+    showTwoFactorResult("Failed to enable two-factor authentication", false);
+  }
+});
+
+document.getElementById("twoFactorManageForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const action = e.submitter?.dataset.action || "recovery-codes";
+  const codeEl = document.getElementById("twoFactorManageCode");
+
+  if (action === "disable" && !confirm("Disable two-factor authentication?")) {
+    return;
+  }
+
+  try {
+    const res = await authFetch(`/dashboard/2fa/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: codeEl.value }),
+    });
+    const data = await res.json();
+    codeEl.value = "";
+
+    if (!data.success) {
+      showTwoFactorResult(data.error || "Request failed", false);
+    } else if (action === "disable") {
+      showTwoFactorResult("Two-factor authentication is off", true);
+    } else {
+      showTwoFactorResult(
+        "New recovery codes (the old ones no longer work):",
+        true,
+        data.data.recoveryCodes
+      );
+    }
+    fetchTwoFactorStatus();
+  } catch (err) {
+    showTwoFactorResult("Request failed", false);
+  }
+});
+
+async function fetchLoginSessions() {
+  try {
+    const res = await authFetch("/dashboard/login-sessions");
+    const data = await res.json();
+    if (data.success) {
+      renderLoginSessions(data.data);
+    }
+  } catch (err) {
+    console.error("Login sessions fetch error:", err);
+  }
+}
+
+function renderLoginSessions(sessions) {
+  const container = document.getElementById("loginSessionList");
+  container.replaceChildren();
+
+  for (const session of sessions) {
+    const item = document.createElement("div");
+    item.className = "log-item";
+
+    const content = document.createElement("div");
+    content.className = "log-content";
+
+    const origin = document.createElement("div");
+    origin.className = "log-target";
+    origin.textContent = session.current ? `${session.ip} (this browser)` : session.ip;
+
+    const details = document.createElement("div");
+    details.className = "log-message";
+    details.textContent = [
+      session.userAgent || "unknown client",
+      `since ${formatTime(session.createdAt)}`,
+      `last seen ${formatTime(session.lastSeenAt)}`,
+    ].join(" · ");
+    content.append(origin, details);
+    item.appendChild(content);
+
+    if (!session.current) {
+      const revoke = document.createElement("button");
+      revoke.type = "button";
+      revoke.className = "btn-revoke";
+      revoke.textContent = "Log out";
+      revoke.addEventListener("click", () => revokeLoginSession(session));
+      item.appendChild(revoke);
+    }
+
+    container.appendChild(item);
+  }
+}
+
+async function revokeLoginSession(session) {
+  try {
+    await authFetch(`/dashboard/login-sessions/${encodeURIComponent(session.id)}`, { method: "DELETE" });
+  } finally {
+    fetchLoginSessions();
+  }
+}
+
+document.getElementById("btnLogoutAll").addEventListener("click", async () => {
+  if (!confirm("Log out of the dashboard on every device, including this one?")) {
+    return;
+  }
+
+  try {
+    await authFetch("/auth/logout-all", { method: "POST" });
+  } finally {
+    showLogin();
+  }
+});
+
+async function fetchUsers() {
+  try {
+    const res = await authFetch("/dashboard/users");
+    if (res.status === 401) {
+      showLogin();
+      return;
+    }
+
+    const data = await res.json();
+    if (data.success) {
+      renderUsers(data.data);
+    }
+  } catch (err) {
+    console.error("Users fetch error:", err);
+  }
+}
+
+function renderUsers(users) {
+  const container = document.getElementById("userList");
+  container.replaceChildren();
+
+  if (!users || users.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "log-empty";
+    empty.textContent = "No users yet (DASHBOARD_USERNAME from the environment is always an admin)";
+    container.appendChild(empty);
+    return;
+  }
+
+  for (const user of users) {
+    const item = document.createElement("div");
+    item.className = "log-item";
+
+    const content = document.createElement("div");
+    content.className = "log-content";
+
+    const name = document.createElement("div");
+    name.className = "log-target";
+    name.textContent = user.disabled ? `${user.username} (disabled)` : user.username;
+
+    const details = document.createElement("div");
+    details.className = "log-message";
+    details.textContent = [
+      user.twoFactorEnabled ? "2FA on" : "2FA off",
+      user.lastLoginAt ? `last login ${formatTime(user.lastLoginAt)}` : "never logged in",
+    ].join(" · ");
+    content.append(name, details);
+
+    const actions = document.createElement("div");
+    actions.className = "user-actions";
+
+    const role = document.createElement("select");
+    for (const value of ROLES) {
+      role.appendChild(new Option(value, value, false, value === user.role));
+    }
+    role.addEventListener("change", () => updateUser(user, { role: role.value }));
+
+    const reset = document.createElement("button");
+    reset.type = "button";
+    reset.className = "btn-pager";
+    reset.textContent = "Reset password";
+    reset.addEventListener("click", () => resetUserPassword(user));
+
+    const toggle = document.createElement("button");
+    toggle.type = "button";
+    toggle.className = "btn-revoke";
+    toggle.textContent = user.disabled ? "Enable" : "Disable";
+    toggle.addEventListener("click", () => updateUser(user, { disabled: !user.disabled }));
+
+    actions.append(role, reset);
+    if (user.twoFactorEnabled) {
+      const resetTwoFactor = document.createElement("button");
+      resetTwoFactor.type = "button";
+      resetTwoFactor.className = "btn-pager";
+      resetTwoFactor.textContent = "Reset 2FA";
+      resetTwoFactor.addEventListener("click", () => resetUserTwoFactor(user));
+      actions.appendChild(resetTwoFactor);
+    }
+    actions.appendChild(toggle);
+    item.append(content, actions);
+    container.appendChild(item);
+  }
+}
+
+async function updateUser(user, changes) {
+  try {
+    const res = await authFetch(`/dashboard/users/${encodeURIComponent(user.id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    const data = await res.json();
+    if (!data.success) alert(data.error || "Failed to update user");
+  } catch (err) {
+    alert("Failed to update user");
+  } finally {
+    fetchUsers();
+  }
+}
+
+async function resetUserTwoFactor(user) {
+  if (!confirm(`Remove two-factor authentication of "${user.username}"?`)) {
+    return;
+  }
+
+  try {
+    await authFetch(`/dashboard/users/${encodeURIComponent(user.id)}/2fa`, { method: "DELETE" });
+  } finally {
+    fetchUsers();
+  }
+}
+
+async function resetUserPassword(user) {
+  const password = prompt(`New password for "${user.username}" (min. 12 characters):`);
+  if (!password) return;
+
+  try {
+    const res = await authFetch(`/dashboard/users/${encodeURIComponent(user.id)}/password`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    });
+    const data = await res.json();
+    alert(data.success ? "Password changed" : data.error || "Failed to reset password");
+  } catch (err) {
+    alert("Failed to reset password");
+  }
+}
+
+document.getElementById("userForm").addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const resultEl = document.getElementById("userResult");
+
+  try {
+    const res = await authFetch("/dashboard/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        username: document.getElementById("newUsername").value,
+        password: document.getElementById("newUserPassword").value,
+        role: document.getElementById("newUserRole").value,
+      }),
+    });
+    const data = await res.json();
+
+    resultEl.className = "send-result " + (data.success ? "success" : "error");
+    resultEl.textContent = data.success ? `User ${data.data.username} created` : data.error || "Failed to create user";
+    if (data.success) {
+      document.getElementById("userForm").reset();
+      fetchUsers();
+    }
+  } catch (err) {
+    resultEl.textContent = "Failed to create user";
+    resultEl.className = "send-result error";
+  }
+
+  resultEl.style.display = "block";
+});
+
+function auditFilterParams() {
+  const params = new URLSearchParams();
+  const action = document.getElementById("auditAction").value;
+
+  if (action) params.set("action", action);
+  return params;
+}
+
+async function fetchAuditLog() {
+  try {
+    const params = auditFilterParams();
+    params.set("limit", AUDIT_PAGE_SIZE);
+
+    const res = await authFetch(`/dashboard/audit?${params}`);
+    if (res.status === 401) {
+      showLogin();
+      return;
+    }
+
+    const data = await res.json();
+    if (data.success) {
+      renderAuditLog(data.data);
+    }
+  } catch (err) {
+    console.error("Audit log fetch error:", err);
+  }
+}
+
+function renderAuditLog(entries) {
+  const container = document.getElementById("auditList");
+  container.replaceChildren();
+
+  if (!entries || entries.length === 0) {
+    const empty = document.createElement("div");
+    empty.className = "log-empty";
+    empty.textContent = "No audit entries yet";
+    container.appendChild(empty);
+    return;
+  }
+
+  for (const entry of entries) {
+    const item = document.createElement("div");
+    item.className = "log-item";
+
+    const status = document.createElement("div");
+    status.className = `log-status ${entry.result === "success" ? "success" : "error"}`;
+
+    const content = document.createElement("div");
+    content.className = "log-content";
+
+    const action = document.createElement("div");
+    action.className = "log-target";
+    action.textContent = entry.target ? `${entry.action} → ${entry.target}` : entry.action;
+
+    const details = document.createElement("div");
+    details.className = "log-message";
+    details.textContent = [
+      `${entry.actor} (${entry.actorType})`,
+      entry.ip,
+      entry.details ? JSON.stringify(entry.details) : "",
+    ].filter(Boolean).join(" · ");
+    content.append(action, details);
+
+    const time = document.createElement("div");
+    time.className = "log-time";
+    time.textContent = formatTime(entry.timestamp);
+
+    item.append(status, content, time);
+    container.appendChild(item);
+  }
+}
+
+document.getElementById("auditAction").addEventListener("change", fetchAuditLog);
+
+for (const button of document.querySelectorAll("[data-audit-export]")) {
+  button.addEventListener("click", () => {
+    const params = auditFilterParams();
+    params.set("format", button.dataset.auditExport);
+    window.location.href = `${API_BASE}/dashboard/audit/export?${params}`;
+  });
+}
+
+document.getElementById("btnAuditVerify").addEventListener("click", async () => {
+  const resultEl = document.getElementById("auditChainStatus");
+
+  try {
+    const res = await authFetch("/dashboard/audit/verify");
+    const data = await res.json();
+    const chain = data.data;
+
+    resultEl.className = "send-result " + (data.success && chain.valid ? "success" : "error");
+    if (!data.success) {
+      resultEl.textContent = data.error || "Failed to verify audit log";
+    } else if (chain.valid) {
+      resultEl.textContent = `Chain intact: ${chain.entries} entries, head ${chain.headHash.slice(0, 16)}…`;
+    } else {
+      resultEl.textContent = `Chain broken at entry #${chain.brokenAtSeq}`;
+    }
+  } catch (err) {
+    resultEl.textContent = "Failed to verify audit log";
+    resultEl.className = "send-result error";
+  }
+
+  resultEl.style.display = "block";
+});
+
 document.getElementById("btnWALogout").addEventListener("click", async () => {
   if (!confirm("Are you sure you want to logout WhatsApp? You will need to scan QR code again.")) {
     return;
   }
 
   try {
-    const res = await authFetch("/dashboard/logout", { method: "POST" });
+    const res = await authFetch(`/dashboard/logout${sessionQuery()}`, { method: "POST" });
     const data = await res.json();
     alert(data.message || (data.success ? "Logged out" : "Failed"));
     fetchStatus();
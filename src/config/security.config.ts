@@ -1,3 +1,5 @@
+import { readBooleanEnv } from '../utils/env.util';
+
 const INSECURE_SECRET_VALUES = new Set([
   'admin',
   'changeme',
@@ -51,6 +53,10 @@ function readRequiredUsername(name: string): string {
   return value;
 }
 
+function readOptionalSecret(name: string): string | undefined {
+  return process.env[name]?.trim() ? readRequiredSecret(name) : undefined;
+}
+
 function readBcryptRounds(): number {
   const rawValue = process.env.DASHBOARD_BCRYPT_ROUNDS?.trim() || '12';
   const rounds = Number.parseInt(rawValue, 10);
@@ -68,6 +74,9 @@ export interface SecurityConfig {
   dashboardPassword: string;
   jwtSecret: string;
   bcryptRounds: number;
+  metricsToken?: string;
+  /** Dashboard users must set up TOTP before using the dashboard; defaults to on in production-like environments */
+  requireTwoFactor: boolean;
 }
 
 export function loadSecurityConfig(): SecurityConfig {
@@ -77,5 +86,7 @@ export function loadSecurityConfig(): SecurityConfig {
     dashboardPassword: readRequiredSecret('DASHBOARD_PASSWORD'),
     jwtSecret: readRequiredSecret('JWT_SECRET'),
     bcryptRounds: readBcryptRounds(),
+    metricsToken: readOptionalSecret('METRICS_TOKEN'),
+    requireTwoFactor: readBooleanEnv('DASHBOARD_REQUIRE_2FA', isProductionLike()),
   };
 }
@@ -5,19 +5,35 @@ import rateLimit from 'express-rate-limit';
 import { Server } from 'http';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import messageRoutes from './routes/message.route';
+import messageRoutes, { MEDIA_BODY_PATHS } from './routes/message.route';
 import dashboardRoutes from './routes/dashboard.route';
-import { whatsappService } from './services/whatsapp.service';
+import sessionRoutes from './routes/session.route';
+import templateRoutes from './routes/template.route';
+import scheduleRoutes from './routes/schedule.route';
+import groupRoutes from './routes/group.route';
+import contactRoutes from './routes/contact.route';
+import chatRoutes from './routes/chat.route';
+import suppressionRoutes from './routes/suppression.route';
+import metricsRoutes from './routes/metrics.route';
+import { DEFAULT_SESSION_ID, sessionManager } from './services/session-manager.service';
+import { messageQueueService } from './services/message-queue.service';
+import { scheduleService } from './services/schedule.service';
+import { dashboardEventsService } from './services/dashboard-events.service';
+import { webhookService } from './services/webhook.service';
+import { authService } from './services/auth.service';
 import { apiKeyAuth } from './middlewares/auth.middleware';
+import { createBodyParser } from './middlewares/body-parser.middleware';
+import { isMetricsProtected } from './middlewares/metrics.auth';
 import {
   createOperationContext,
   logOperationFinish,
   logOperationStart,
 } from './utils/logger.util';
-import { readIntegerEnv } from './utils/env.util';
+import { readBooleanEnv, readIntegerEnv } from './utils/env.util';
 
 const app: Application = express();
 const PORT = readIntegerEnv('PORT', 3001, { min: 1, max: 65535 });
+const METRICS_ENABLED = readBooleanEnv('METRICS_ENABLED', false);
 const HOST = process.env.HOST || '0.0.0.0';
 let server: Server | null = null;
 let isShuttingDown = false;
@@ -56,8 +72,8 @@ app.use(helmet({
 }));
 
 // Middleware
-app.use(express.json({ limit: '64kb' }));
-app.use(express.urlencoded({ extended: true, limit: '64kb' }));
+// Media routes parse larger JSON bodies themselves once the API key is verified
+app.use(createBodyParser(MEDIA_BODY_PATHS));
 
 const apiSendLimiter = rateLimit({
   windowMs: 60 * 1000,
@@ -71,6 +87,22 @@ const apiSendLimiter = rateLimit({
   },
 });
 
+// Per IP, only requests that fail API key authentication count, so key guessing is
+// slowed down before it reaches apiKeyAuth and its audit entries
+const apiKeyFailureLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: readIntegerEnv('API_KEY_FAILURE_LIMIT', 20, { min: 1, max: 10000 }),
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req: Request, res: Response) => res.statusCode < 400 || res.locals.apiKey !== undefined,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    status: 'rate_limited',
+    message: 'Too many requests with an invalid API key. Try again later.',
+  },
+});
+
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
   const headerCorrelationId = req.headers['x-correlation-id'];
@@ -82,9 +114,16 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   res.locals.correlationId = correlationId;
   res.setHeader('X-Correlation-Id', correlationId);
 
+  // Validated and enforced by the idempotency middleware on send routes
+  const headerIdempotencyKey = req.headers['idempotency-key'];
+  if (typeof headerIdempotencyKey === 'string') {
+    res.locals.idempotencyKey = headerIdempotencyKey.trim();
+  }
+
   logOperationStart(context, {
     method: req.method,
     path: req.path,
+    idempotencyKey: res.locals.idempotencyKey,
   });
 
   res.on('finish', () => {
@@ -106,7 +145,20 @@ app.use(express.static(path.join(__dirname, '../public')));
 app.use('/api', dashboardRoutes);
 
 // WA API routes (uses API Key auth)
-app.use('/api', apiKeyAuth, apiSendLimiter, messageRoutes);
+app.use(
+  '/api',
+  apiKeyFailureLimiter,
+  apiKeyAuth,
+  apiSendLimiter,
+  messageRoutes,
+  sessionRoutes,
+  templateRoutes,
+  scheduleRoutes,
+  groupRoutes,
+  contactRoutes,
+  chatRoutes,
+  suppressionRoutes
+);
 
 // Serve dashboard at root
 app.get('/', (req: Request, res: Response) => {
@@ -114,21 +166,32 @@ app.get('/', (req: Request, res: Response) => {
 });
 
 // Health check - always return 200 so Docker healthcheck passes
-// WhatsApp connection status is in the response body
+// WhatsApp connection status is in the response body; top-level fields describe the default session
 app.get('/health', async (req: Request, res: Response) => {
-  const stateSnapshot = await whatsappService.refreshConnectionState('health');
+  const defaultSession = sessionManager.getSession(DEFAULT_SESSION_ID);
+  const stateSnapshot = await defaultSession.refreshConnectionState('health');
   const isConnected = stateSnapshot.isConnected;
-  const state = whatsappService.getWAState();
+  const state = defaultSession.getWAState();
   res.status(200).json({
     status: 'ok',
     whatsapp: isConnected ? 'connected' : 'disconnected',
     ready: stateSnapshot.isReady,
     state,
     lastError: stateSnapshot.lastError,
+    sessions: sessionManager.listSessions().map((session) => ({
+      id: session.id,
+      state: session.state,
+      ready: session.isReady,
+    })),
     timestamp: new Date().toISOString(),
   });
 });
 
+// Prometheus metrics (METRICS_TOKEN protects it with a bearer token)
+if (METRICS_ENABLED) {
+  app.use(metricsRoutes);
+}
+
 // 404 handler
 app.use((req: Request, res: Response) => {
   res.status(404).json({
@@ -167,14 +230,30 @@ async function startServer() {
       console.log(`  📊 Dashboard: http://${HOST}:${PORT}/`);
       console.log(`  POST http://${HOST}:${PORT}/api/send`);
       console.log(`  POST http://${HOST}:${PORT}/api/broadcast`);
+      console.log(`  POST http://${HOST}:${PORT}/api/send-media`);
+      console.log(`  GET  http://${HOST}:${PORT}/api/messages/:id`);
+      console.log(`  GET  http://${HOST}:${PORT}/api/sessions`);
+      console.log(`  GET  http://${HOST}:${PORT}/api/templates`);
+      console.log(`  GET  http://${HOST}:${PORT}/api/schedules`);
+      console.log(`  GET  http://${HOST}:${PORT}/api/groups`);
+      console.log(`  POST http://${HOST}:${PORT}/api/contacts/check`);
       console.log(`  GET  http://${HOST}:${PORT}/health`);
+      if (METRICS_ENABLED) {
+        console.log(`  GET  http://${HOST}:${PORT}/metrics`);
+      }
       console.log('');
-    });
 
-    console.log('📱 Initializing WhatsApp connection...');
-    whatsappService.initialize().catch((error) => {
-      console.error('Failed to initialize WhatsApp connection:', error);
+      if (METRICS_ENABLED && !isMetricsProtected()) {
+        console.warn('⚠️ /metrics is enabled without METRICS_TOKEN; restrict access at the network level');
+      }
     });
+
+    authService.revokeRotatedLogins();
+    messageQueueService.start();
+    scheduleService.start();
+
+    console.log('📱 Initializing WhatsApp sessions...');
+    sessionManager.initializeAll();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -189,6 +268,9 @@ async function shutdown(signal: string): Promise<void> {
   console.log(`\n👋 Shutting down gracefully (${signal})...`);
 
   try {
+    // Open event streams would otherwise keep server.close() waiting
+    dashboardEventsService.stop();
+
     if (server) {
       await new Promise<void>((resolve, reject) => {
         server?.close((error?: Error) => {
@@ -198,7 +280,10 @@ async function shutdown(signal: string): Promise<void> {
       });
     }
 
-    await whatsappService.destroy();
+    scheduleService.stop();
+    messageQueueService.stop();
+    webhookService.stop();
+    await sessionManager.destroyAll();
     process.exit(0);
   } catch (error) {
     console.error('❌ Error during graceful shutdown:', error);
@@ -215,7 +300,7 @@ process.on('SIGTERM', () => {
 });
 
 process.on('unhandledRejection', (reason: unknown) => {
-  if (whatsappService.handleRuntimeError(reason, 'unhandledRejection')) {
+  if (sessionManager.handleRuntimeError(reason, 'unhandledRejection')) {
     return;
   }
 
@@ -224,7 +309,7 @@ process.on('unhandledRejection', (reason: unknown) => {
 });
 
 process.on('uncaughtException', (error: Error) => {
-  if (whatsappService.handleRuntimeError(error, 'uncaughtException')) {
+  if (sessionManager.handleRuntimeError(error, 'uncaughtException')) {
     return;
   }
 
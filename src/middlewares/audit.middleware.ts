@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { auditLogService, AuditEvent } from '../services/audit-log.service';
+import { ApiKeyIdentity } from '../types';
+
+/**
+ * Who made a request, for audit entries: the dashboard user or API key behind it
+ */
+export function getAuditActor(req: Request, res: Response): Pick<AuditEvent, 'actor' | 'actorType' | 'ip' | 'correlationId'> {
+  const apiKey = res.locals.apiKey as ApiKeyIdentity | undefined;
+  const isDashboard = typeof res.locals.dashboardRole === 'string';
+
+  return {
+    actor: apiKey?.label ?? (isDashboard ? String(res.locals.userId) : 'anonymous'),
+    actorType: apiKey ? 'api_key' : 'dashboard',
+    ip: req.ip || req.socket.remoteAddress,
+    correlationId: typeof res.locals.correlationId === 'string' ? res.locals.correlationId : undefined,
+  };
+}
+
+function getAuditTarget(req: Request): string | undefined {
+  const param = req.params.id ?? req.params.number;
+  if (typeof param === 'string') {
+    return param;
+  }
+
+  return typeof req.query.session === 'string' ? req.query.session : undefined;
+}
+
+/**
+ * Audit Middleware
+ *
+ * Records `action` in the audit log once the response is sent, failed when the status
+ * is 400 or above. The target is the `:id` (or `:number`) route parameter or else
+ * the `?session=` query, if any. Place it after authentication and before scope or role checks so
+ * denied attempts are recorded too.
+ */
+export function auditAction(action: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.on('finish', () => {
+      auditLogService.record({
+        ...getAuditActor(req, res),
+        action,
+        target: getAuditTarget(req),
+        result: res.statusCode < 400 ? 'success' : 'failure',
+        details: { status: res.statusCode },
+      });
+    });
+
+    next();
+  };
+}
@@ -1,8 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { timingSafeEqual } from 'crypto';
 import { loadSecurityConfig } from '../config/security.config';
+import { apiKeyService, getApiKeyId } from '../services/api-key.service';
+import { auditLogService } from '../services/audit-log.service';
+import { ApiKeyIdentity, ApiKeyScope } from '../types';
+import { AuditEventWindow } from '../utils/audit.util';
+import { API_KEY_SCOPES } from '../utils/request-validation.util';
 
 const { apiKey } = loadSecurityConfig();
+// The API_KEY from the environment stays valid with every scope and no per-key limits
+const ENV_API_KEY_LABEL = 'API_KEY';
+// Repeated rejections from one IP are audited once per window
+const rejectionAuditWindow = new AuditEventWindow(15 * 60 * 1000);
 
 export function isApiKeyMatch(providedKey: unknown, expectedKey: string): boolean {
   if (typeof providedKey !== 'string') {
@@ -19,10 +28,19 @@ export function isApiKeyMatch(providedKey: unknown, expectedKey: string): boolea
   return timingSafeEqual(providedBuffer, expectedBuffer);
 }
 
+function getEnvApiKeyIdentity(): ApiKeyIdentity {
+  return {
+    id: getApiKeyId(apiKey),
+    label: ENV_API_KEY_LABEL,
+    scopes: [...API_KEY_SCOPES],
+  };
+}
+
 /**
  * API Key Authentication Middleware
  * 
- * Validates requests using X-API-Key header
+ * Validates requests using X-API-Key header against API_KEY and the managed keys,
+ * applies the key's per-minute limit and exposes it as res.locals.apiKey
  */
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
   // Allow health check without auth
@@ -41,13 +59,112 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
     });
   }
 
-  if (!isApiKeyMatch(providedKey, apiKey)) {
-    return res.status(403).json({
+  let identity: ApiKeyIdentity;
+
+  if (isApiKeyMatch(providedKey, apiKey)) {
+    identity = getEnvApiKeyIdentity();
+  } else {
+    const result = typeof providedKey === 'string'
+      ? apiKeyService.authenticate(providedKey)
+      : { status: 'invalid' as const };
+
+    const ip = req.ip || req.socket.remoteAddress;
+
+    if (result.status !== 'valid') {
+      if (rejectionAuditWindow.shouldRecord(ip || 'unknown')) {
+        auditLogService.record({
+          actor: typeof providedKey === 'string' ? getApiKeyId(providedKey) : 'unknown',
+          actorType: 'api_key',
+          ip,
+          action: 'api_key.rejected',
+          target: req.originalUrl.split('?')[0],
+          result: 'failure',
+          correlationId: typeof res.locals.correlationId === 'string' ? res.locals.correlationId : undefined,
+          details: { reason: result.status },
+        });
+      }
+
+      return res.status(403).json({
+        success: false,
+        status: 'error',
+        message: result.status === 'expired' ? 'API key expired' : 'Invalid API key',
+      });
+    }
+
+    identity = result.identity;
+  }
+
+  const retryAfterSeconds = apiKeyService.checkRateLimit(identity);
+  if (retryAfterSeconds > 0) {
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    return res.status(429).json({
       success: false,
-      status: 'error',
-      message: 'Invalid API key',
+      status: 'rate_limited',
+      message: 'Rate limit of this API key exceeded. Try again later.',
     });
   }
 
+  res.locals.apiKey = identity;
+  res.locals.apiKeyId = identity.id;
+  res.locals.userId = identity.label;
   next();
 }
+
+export class ApiKeyScopeError extends Error {
+  constructor(scope: ApiKeyScope) {
+    super(`API key is missing the required scope: ${scope}`);
+    this.name = 'ApiKeyScopeError';
+  }
+}
+
+/**
+ * Throw ApiKeyScopeError unless the request's API key was granted the scope, for
+ * checks that depend on the validated body
+ */
+export function assertScope(res: Response, scope: ApiKeyScope): void {
+  const identity = res.locals.apiKey as ApiKeyIdentity | undefined;
+
+  if (!identity || !identity.scopes.includes(scope)) {
+    throw new ApiKeyScopeError(scope);
+  }
+}
+
+/**
+ * Sending to more than one target is a broadcast and needs the `broadcast` scope,
+ * whichever route it came through
+ */
+export function assertTargetScope(res: Response, targets: readonly string[]): void {
+  if (targets.length > 1) {
+    assertScope(res, 'broadcast');
+  }
+}
+
+/**
+ * API key whose own jobs, schedules and messages a request may see and change, or
+ * undefined for admin keys, which reach those of every key
+ */
+export function getOwnerApiKeyId(res: Response): string | undefined {
+  const identity = res.locals.apiKey as ApiKeyIdentity;
+  return identity.scopes.includes('admin') ? undefined : identity.id;
+}
+
+/**
+ * Scope Middleware
+ *
+ * Rejects requests whose API key was not granted the scope. Must run after apiKeyAuth.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      assertScope(res, scope);
+    } catch (error) {
+      return res.status(403).json({
+        success: false,
+        status: 'error',
+        message: (error as ApiKeyScopeError).message,
+      });
+    }
+
+    next();
+  };
+}
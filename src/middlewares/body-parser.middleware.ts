@@ -0,0 +1,25 @@
+import express, { Request, Response, NextFunction } from 'express';
+
+const jsonParser = express.json({ limit: '64kb' });
+const urlencodedParser = express.urlencoded({ extended: true, limit: '64kb' });
+
+/**
+ * Body Parser Middleware
+ *
+ * Parses JSON and form-encoded bodies up to 64kb. JSON bodies of `largeJsonPaths` are
+ * left to the route, which parses them with a larger limit once the API key is
+ * verified; form-encoded bodies are parsed for every path.
+ */
+export function createBodyParser(largeJsonPaths: readonly string[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (largeJsonPaths.includes(req.path)) {
+      urlencodedParser(req, res, next);
+      return;
+    }
+
+    jsonParser(req, res, (error?: unknown) => {
+      if (error) return next(error);
+      urlencodedParser(req, res, next);
+    });
+  };
+}
@@ -1,26 +1,61 @@
 import { Request, Response, NextFunction } from 'express';
 import {
   authService,
+  buildDashboardCookie,
   DASHBOARD_TOKEN_COOKIE,
   DashboardTokenPayload,
   getCookieValue,
 } from '../services/auth.service';
+import { hasDashboardRole } from '../services/dashboard-user.service';
+import { twoFactorService } from '../services/two-factor.service';
+import { DashboardRole } from '../types';
 
 interface AuthenticatedDashboardRequest extends Request {
   user?: DashboardTokenPayload;
 }
 
 /**
- * Dashboard JWT Authentication Middleware
+ * The dashboard token of a request, from the Authorization header or the cookie
  */
-export function dashboardAuth(req: Request, res: Response, next: NextFunction): void {
+export function getDashboardToken(req: Request): { token?: string; fromCookie: boolean } {
   const authHeader = req.headers.authorization;
   const bearerToken = authHeader?.startsWith('Bearer ')
     ? authHeader.substring(7)
     : undefined;
-  const cookieToken = getCookieValue(req.headers.cookie, DASHBOARD_TOKEN_COOKIE);
-  const token = bearerToken || cookieToken;
-  
+
+  if (bearerToken) {
+    return { token: bearerToken, fromCookie: false };
+  }
+
+  return { token: getCookieValue(req.headers.cookie, DASHBOARD_TOKEN_COOKIE), fromCookie: true };
+}
+
+/**
+ * Dashboard JWT Authentication Middleware
+ *
+ * When DASHBOARD_REQUIRE_2FA is on, users without two-factor authentication are
+ * rejected until they set it up (see dashboardTwoFactorSetupAuth).
+ */
+export function dashboardAuth(req: Request, res: Response, next: NextFunction): void {
+  authenticateDashboardRequest(req, res, next, false);
+}
+
+/**
+ * Like dashboardAuth, but also admits users who still have to set up two-factor
+ * authentication, for the routes they need to do so
+ */
+export function dashboardTwoFactorSetupAuth(req: Request, res: Response, next: NextFunction): void {
+  authenticateDashboardRequest(req, res, next, true);
+}
+
+function authenticateDashboardRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  allowTwoFactorSetup: boolean
+): void {
+  const { token, fromCookie } = getDashboardToken(req);
+
   if (!token) {
     res.status(401).json({
       success: false,
@@ -39,8 +74,53 @@ export function dashboardAuth(req: Request, res: Response, next: NextFunction):
     return;
   }
 
+  if (!allowTwoFactorSetup && twoFactorService.isSetupRequired(payload.username)) {
+    res.status(403).json({
+      success: false,
+      error: 'Set up two-factor authentication to use the dashboard',
+      twoFactorSetupRequired: true
+    });
+    return;
+  }
+
+  // Sliding refresh: cookie logins get a new cookie, bearer clients read X-Dashboard-Token
+  const refreshed = authService.refreshToken(payload);
+  if (refreshed) {
+    if (fromCookie) {
+      const maxAgeSeconds = Math.floor((refreshed.expiresAt - Date.now()) / 1000);
+      res.append('Set-Cookie', buildDashboardCookie(refreshed.token, maxAgeSeconds));
+    } else {
+      res.setHeader('X-Dashboard-Token', refreshed.token);
+    }
+  }
+
   // Attach user info to request
   (req as AuthenticatedDashboardRequest).user = payload;
   res.locals.userId = payload.username;
+  res.locals.dashboardRole = payload.role;
+  res.locals.loginSessionId = payload.jti;
+  // Long-lived responses such as the event stream end when the token does
+  res.locals.dashboardTokenExpiresAt = refreshed?.expiresAt ?? (payload.exp ? payload.exp * 1000 : undefined);
   next();
 }
+
+/**
+ * Dashboard Role Middleware
+ *
+ * Rejects users whose role does not include `role`. Must run after dashboardAuth.
+ */
+export function requireDashboardRole(role: DashboardRole) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const current = res.locals.dashboardRole as DashboardRole | undefined;
+
+    if (!current || !hasDashboardRole(current, role)) {
+      res.status(403).json({
+        success: false,
+        error: `This action requires the ${role} role`
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService } from '../services/idempotency.service';
+import { getRequestFingerprint, IDEMPOTENT_REPLAYED_HEADER } from '../utils/idempotency.util';
+import { RequestValidationError, validateIdempotencyKey } from '../utils/request-validation.util';
+
+/**
+ * Idempotency Middleware
+ *
+ * When the request carried an Idempotency-Key header (read by the request logging
+ * middleware), the first response for the key is stored per API key and replayed
+ * for retries. Reusing a key with a different body returns 409.
+ * Must run after the body is parsed and after apiKeyAuth.
+ */
+export function idempotency(req: Request, res: Response, next: NextFunction) {
+  if (res.locals.idempotencyKey === undefined) {
+    return next();
+  }
+
+  let key: string;
+  try {
+    key = validateIdempotencyKey(res.locals.idempotencyKey);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    throw error;
+  }
+
+  const scope = typeof res.locals.apiKeyId === 'string' ? res.locals.apiKeyId : 'default';
+  const fingerprint = getRequestFingerprint(req.method, req.baseUrl + req.path, req.body);
+  const result = idempotencyService.begin(scope, key, fingerprint);
+
+  if (result.type === 'replay') {
+    res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    return res.status(result.statusCode).json(result.body);
+  }
+
+  if (result.type === 'mismatch') {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: 'Idempotency-Key was already used with a different request',
+    });
+  }
+
+  if (result.type === 'in_progress') {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: 'A request with this Idempotency-Key is still being processed',
+    });
+  }
+
+  const sendJson = res.json.bind(res);
+
+  // The claim is not released when the client disconnects: the handler still runs and
+  // may queue the message, so a retry must wait for and replay its response.
+  res.json = (body: unknown) => {
+    // Server errors and rate limits are transient and end before anything is queued,
+    // so the client may retry with the same key
+    if (res.statusCode < 500 && res.statusCode !== 429) {
+      idempotencyService.complete(scope, key, res.statusCode, body);
+    } else {
+      idempotencyService.release(scope, key);
+    }
+
+    return sendJson(body);
+  };
+
+  next();
+}
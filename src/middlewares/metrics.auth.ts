@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { loadSecurityConfig } from '../config/security.config';
+import { isApiKeyMatch } from './auth.middleware';
+
+const { metricsToken } = loadSecurityConfig();
+
+export function isMetricsProtected(): boolean {
+  return metricsToken !== undefined;
+}
+
+/**
+ * Metrics Authentication Middleware
+ *
+ * Requires `Authorization: Bearer <METRICS_TOKEN>` when a metrics token is configured,
+ * so scrapers do not need an API key
+ */
+export function metricsAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!metricsToken) {
+    next();
+    return;
+  }
+
+  const authHeader = req.headers.authorization;
+  const bearerToken = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : undefined;
+
+  if (!isApiKeyMatch(bearerToken, metricsToken)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({
+      success: false,
+      status: 'error',
+      message: 'Invalid or missing metrics token',
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,122 @@
+import { Router, Request, Response } from 'express';
+import { ChatNotFoundError, chatService } from '../services/chat.service';
+import { DEFAULT_SESSION_ID, SessionNotFoundError } from '../services/session-manager.service';
+import { MessageNotFoundError, WhatsAppNotReadyError } from '../services/whatsapp.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import {
+  RequestValidationError,
+  validateChatId,
+  validateChatListQuery,
+  validateChatMessagesQuery,
+  validateSessionId,
+} from '../utils/request-validation.util';
+
+const router = Router();
+
+function sendChatError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError || error instanceof ChatNotFoundError || error instanceof MessageNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof WhatsAppNotReadyError) {
+    return res.status(503).json({
+      success: false,
+      status: 'disconnected',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/chats
+ * Page through the session's chats, most recent activity first, with unread counts
+ * and the last message
+ *
+ * Query: session (default "default"), limit (default 50, max 200), offset
+ */
+router.get('/chats', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { session, limit, offset } = validateChatListQuery(req.query);
+    const page = await chatService.listChats(session || DEFAULT_SESSION_ID, limit, offset);
+
+    return res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset,
+      },
+    });
+  } catch (error) {
+    return sendChatError(res, error, 'GET /chats');
+  }
+});
+
+/**
+ * GET /api/chats/:id/messages
+ * Messages of a chat, oldest first. `:id` is a chat id or phone number.
+ *
+ * Query: session, limit (default 50, max 200), before (id of the oldest message
+ * of the previous page)
+ */
+router.get('/chats/:id/messages', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const chatId = validateChatId(req.params.id);
+    const { session, limit, before } = validateChatMessagesQuery(req.query);
+    const messages = await chatService.getMessages(session || DEFAULT_SESSION_ID, chatId, limit, before);
+
+    return res.json({
+      success: true,
+      data: messages,
+      pagination: {
+        limit,
+        before: messages.length === limit ? messages[0].id : undefined,
+      },
+    });
+  } catch (error) {
+    return sendChatError(res, error, 'GET /chats/:id/messages');
+  }
+});
+
+/**
+ * POST /api/chats/:id/seen
+ * Mark a chat as read
+ *
+ * Request body: { "session": "default" } (optional)
+ */
+router.post('/chats/:id/seen', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const chatId = validateChatId(req.params.id);
+    const session = req.body?.session === undefined ? DEFAULT_SESSION_ID : validateSessionId(req.body.session);
+    await chatService.markSeen(session, chatId);
+
+    return res.json({
+      success: true,
+      data: { chatId },
+    });
+  } catch (error) {
+    return sendChatError(res, error, 'POST /chats/:id/seen');
+  }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+import { Router, Request, Response } from 'express';
+import { ContactNotFoundError, chatService } from '../services/chat.service';
+import { DEFAULT_SESSION_ID, SessionNotFoundError, sessionManager } from '../services/session-manager.service';
+import { WhatsAppNotReadyError } from '../services/whatsapp.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import {
+  RequestValidationError,
+  validateChatId,
+  validateContactListQuery,
+  validateNumberCheckRequest,
+  validateSessionId,
+} from '../utils/request-validation.util';
+
+const router = Router();
+
+function sendContactError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError || error instanceof ContactNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof WhatsAppNotReadyError) {
+    return res.status(503).json({
+      success: false,
+      status: 'disconnected',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/contacts
+ * Page through the WhatsApp users known to the session, sorted by name
+ *
+ * Query: session (default "default"), search (name or number), limit (default 50, max 200), offset
+ */
+router.get('/contacts', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const { session, search, limit, offset } = validateContactListQuery(req.query);
+    const page = await chatService.listContacts(session || DEFAULT_SESSION_ID, limit, offset, search);
+
+    return res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset,
+      },
+    });
+  } catch (error) {
+    return sendContactError(res, error, 'GET /contacts');
+  }
+});
+
+/**
+ * POST /api/contacts/check
+ * Check which phone numbers are registered on WhatsApp
+ *
+ * Request body:
+ * {
+ *   "numbers": ["081234567890", "6289876543210"],
+ *   "session": "default"
+ * }
+ */
+router.post('/contacts/check', requireScope('send'), async (req: Request, res: Response) => {
+  try {
+    const { numbers, session } = validateNumberCheckRequest(req.body);
+    const results = await sessionManager.getSession(session || DEFAULT_SESSION_ID).checkNumbers(numbers);
+
+    return res.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    return sendContactError(res, error, 'POST /contacts/check');
+  }
+});
+
+/**
+ * GET /api/contacts/:id
+ * Name, profile picture URL and about text of a contact. `:id` is a phone number or
+ * contact id.
+ *
+ * Query: session (default "default")
+ */
+router.get('/contacts/:id', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const contactId = validateChatId(req.params.id, 'id', false);
+    const session = req.query.session === undefined ? DEFAULT_SESSION_ID : validateSessionId(req.query.session);
+
+    return res.json({
+      success: true,
+      data: await chatService.getContact(session, contactId),
+    });
+  } catch (error) {
+    return sendContactError(res, error, 'GET /contacts/:id');
+  }
+});
+
+export default router;
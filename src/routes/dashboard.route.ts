@@ -1,12 +1,44 @@
 import { Router, Request, Response } from 'express';
-import { authService, DASHBOARD_TOKEN_COOKIE } from '../services/auth.service';
-import { whatsappService } from '../services/whatsapp.service';
-import { dashboardAuth } from '../middlewares/dashboard.auth';
-import { SendMessageOptions } from '../types';
+import * as QRCode from 'qrcode';
+import { authService, buildDashboardCookie } from '../services/auth.service';
+import { ApiKeyNotFoundError, apiKeyService } from '../services/api-key.service';
+import { DEFAULT_SESSION_ID, SessionNotFoundError, sessionManager } from '../services/session-manager.service';
+import { messageHistoryService } from '../services/message-history.service';
+import { dashboardEventsService, TooManyEventStreamsError } from '../services/dashboard-events.service';
+import { lookupTemplateBody, templateService } from '../services/template.service';
+import { PairingCodeError, WhatsAppService } from '../services/whatsapp.service';
+import {
+  DashboardUserConflictError,
+  DashboardUserNotFoundError,
+  dashboardUserService,
+  hasDashboardRole,
+} from '../services/dashboard-user.service';
+import { InvalidTwoFactorCodeError, TwoFactorStateError, twoFactorService } from '../services/two-factor.service';
+import { LoginClient, LoginSessionNotFoundError, loginSessionService } from '../services/login-session.service';
+import {
+  dashboardAuth,
+  dashboardTwoFactorSetupAuth,
+  getDashboardToken,
+  requireDashboardRole,
+} from '../middlewares/dashboard.auth';
+import { auditAction } from '../middlewares/audit.middleware';
+import { auditLogService } from '../services/audit-log.service';
+import { DashboardEvent, DashboardRole, DashboardStateEventData, SendMessageOptions } from '../types';
 import {
   RequestValidationError,
+  validateApiKeyRequest,
+  validateAuditQuery,
+  validateDashboardUserRequest,
+  validateDashboardUserUpdate,
+  validateHistoryExportFormat,
+  validateHistoryQuery,
   validateLoginRequest,
+  validatePairingRequest,
+  validatePasswordResetRequest,
   validateSendRequest,
+  validateSessionId,
+  validateTwoFactorCodeRequest,
+  validateTwoFactorLoginRequest,
 } from '../utils/request-validation.util';
 import { getMessageResponseHttpStatus } from '../utils/http-status.util';
 import rateLimit from 'express-rate-limit';
@@ -14,24 +46,12 @@ import rateLimit from 'express-rate-limit';
 const router = Router();
 const COOKIE_MAX_AGE_SECONDS = 60 * 60;
 
-function shouldUseSecureCookie(): boolean {
-  return process.env.NODE_ENV === 'production' || process.env.APP_ENV === 'production' || process.env.APP_ENV === 'staging';
-}
-
-function buildDashboardCookie(token: string, maxAgeSeconds: number): string {
-  const parts = [
-    `${DASHBOARD_TOKEN_COOKIE}=${encodeURIComponent(token)}`,
-    'HttpOnly',
-    'SameSite=Strict',
-    'Path=/',
-    `Max-Age=${maxAgeSeconds}`,
-  ];
-
-  if (shouldUseSecureCookie()) {
-    parts.push('Secure');
-  }
-
-  return parts.join('; ');
+function getLoginClient(req: Request, res: Response): LoginClient {
+  return {
+    ip: req.ip || req.socket.remoteAddress || 'unknown',
+    userAgent: req.get('user-agent'),
+    correlationId: typeof res.locals.correlationId === 'string' ? res.locals.correlationId : undefined,
+  };
 }
 
 function getSendOptions(res: Response): SendMessageOptions {
@@ -41,6 +61,82 @@ function getSendOptions(res: Response): SendMessageOptions {
   };
 }
 
+/**
+ * Resolve the session selected in the dashboard (`?session=`), responding with an
+ * error and returning null when it is invalid or unknown
+ */
+function getDashboardSession(req: Request, res: Response, requested: unknown = req.query.session): WhatsAppService | null {
+  try {
+    const sessionId = requested === undefined ? DEFAULT_SESSION_ID : validateSessionId(requested);
+    return sessionManager.getSession(sessionId);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return null;
+    }
+
+    if (error instanceof SessionNotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+function sendApiKeyError(res: Response, error: unknown): void {
+  if (error instanceof RequestValidationError) {
+    res.status(400).json({ success: false, error: error.message });
+    return;
+  }
+
+  if (error instanceof ApiKeyNotFoundError) {
+    res.status(404).json({ success: false, error: error.message });
+    return;
+  }
+
+  console.error('Error managing API keys:', error);
+  res.status(500).json({ success: false, error: 'Internal server error' });
+}
+
+function sendDashboardUserError(res: Response, error: unknown): void {
+  if (error instanceof RequestValidationError) {
+    res.status(400).json({ success: false, error: error.message });
+    return;
+  }
+
+  if (error instanceof DashboardUserNotFoundError) {
+    res.status(404).json({ success: false, error: error.message });
+    return;
+  }
+
+  if (error instanceof DashboardUserConflictError) {
+    res.status(409).json({ success: false, error: error.message });
+    return;
+  }
+
+  console.error('Error managing dashboard users:', error);
+  res.status(500).json({ success: false, error: 'Internal server error' });
+}
+
+function sendTwoFactorError(res: Response, error: unknown): void {
+  if (error instanceof RequestValidationError || error instanceof InvalidTwoFactorCodeError) {
+    res.status(400).json({ success: false, error: error.message });
+    return;
+  }
+
+  if (error instanceof TwoFactorStateError) {
+    res.status(409).json({ success: false, error: error.message });
+    return;
+  }
+
+  console.error('Error managing two-factor authentication:', error);
+  res.status(500).json({ success: false, error: 'Internal server error' });
+}
+
+// Events for users below the operator role: message logs and acks are not theirs to see
+const VIEWER_EVENTS: DashboardEvent[] = ['state'];
+
 // Rate limiter for login
 const loginLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -50,6 +146,15 @@ const loginLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Every pairing request makes WhatsApp notify the phone, so keep them rare
+const pairLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // 5 pairing requests per window
+  message: { success: false, error: 'Too many pairing requests, try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * POST /api/auth/login
  * Login to dashboard
@@ -75,9 +180,7 @@ router.post('/auth/login', loginLimiter, (req: Request, res: Response): void =>
     return;
   }
 
-  const ip = req.ip || req.socket.remoteAddress || 'unknown';
-
-  const result = authService.login(credentials.username, credentials.password, ip);
+  const result = authService.login(credentials.username, credentials.password, getLoginClient(req, res));
 
   if (!result.success) {
     res.status(401).json({
@@ -88,6 +191,54 @@ router.post('/auth/login', loginLimiter, (req: Request, res: Response): void =>
   }
 
   res.locals.userId = credentials.username;
+
+  // Second step: POST /api/auth/login/2fa with the challenge token and a code
+  if (result.challengeToken) {
+    res.json({
+      success: true,
+      twoFactorRequired: true,
+      challengeToken: result.challengeToken
+    });
+    return;
+  }
+
+  res.setHeader('Set-Cookie', buildDashboardCookie(result.token || '', COOKIE_MAX_AGE_SECONDS));
+  res.json({
+    success: true
+  });
+});
+
+/**
+ * POST /api/auth/login/2fa
+ * Second login step for users with two-factor authentication
+ *
+ * Request body:
+ * {
+ *   "challengeToken": "<from /api/auth/login>",
+ *   "code": "123456"
+ * }
+ *
+ * `code` may also be an unused recovery code.
+ */
+router.post('/auth/login/2fa', loginLimiter, (req: Request, res: Response): void => {
+  let request;
+  try {
+    request = validateTwoFactorLoginRequest(req.body);
+  } catch (error) {
+    sendTwoFactorError(res, error);
+    return;
+  }
+
+  const result = authService.verifyTwoFactorLogin(request.challengeToken, request.code, getLoginClient(req, res));
+
+  if (!result.success) {
+    res.status(401).json({
+      success: false,
+      error: result.error
+    });
+    return;
+  }
+
   res.setHeader('Set-Cookie', buildDashboardCookie(result.token || '', COOKIE_MAX_AGE_SECONDS));
   res.json({
     success: true
@@ -95,43 +246,257 @@ router.post('/auth/login', loginLimiter, (req: Request, res: Response): void =>
 });
 
 router.post('/auth/logout', (req: Request, res: Response): void => {
+  const { token } = getDashboardToken(req);
+  if (token) {
+    authService.revokeToken(token, getLoginClient(req, res));
+  }
+
   res.setHeader('Set-Cookie', buildDashboardCookie('', 0));
   res.json({ success: true });
 });
 
+/**
+ * GET /api/dashboard/login-sessions
+ * Active dashboard logins of the current user, with IP and user agent
+ */
+router.get('/dashboard/login-sessions', dashboardTwoFactorSetupAuth, (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: loginSessionService.list(res.locals.userId).map((session) => ({
+      ...session,
+      current: session.id === res.locals.loginSessionId
+    }))
+  });
+});
+
+/**
+ * DELETE /api/dashboard/login-sessions/:id
+ * Revoke one of the current user's logins
+ */
+router.delete('/dashboard/login-sessions/:id', dashboardTwoFactorSetupAuth, auditAction('auth.login_session_revoke'), (req: Request, res: Response): void => {
+  try {
+    loginSessionService.revoke(String(req.params.id), res.locals.userId);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof LoginSessionNotFoundError) {
+      res.status(404).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error revoking login session:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/auth/logout-all
+ * Log out every login of the current user, including this one
+ */
+router.post('/auth/logout-all', dashboardTwoFactorSetupAuth, auditAction('auth.logout_all'), (req: Request, res: Response): void => {
+  const revoked = loginSessionService.revokeAll(res.locals.userId);
+
+  res.setHeader('Set-Cookie', buildDashboardCookie('', 0));
+  res.json({ success: true, revoked });
+});
+
+/**
+ * GET /api/dashboard/me
+ * The logged-in user and role, so the dashboard can hide what the role cannot use
+ */
+router.get('/dashboard/me', dashboardTwoFactorSetupAuth, (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: {
+      username: res.locals.userId,
+      role: res.locals.dashboardRole,
+      twoFactorSetupRequired: twoFactorService.isSetupRequired(res.locals.userId)
+    }
+  });
+});
+
+/**
+ * GET /api/dashboard/2fa
+ * Two-factor status of the logged-in user
+ */
+router.get('/dashboard/2fa', dashboardTwoFactorSetupAuth, (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: twoFactorService.getStatus(res.locals.userId)
+  });
+});
+
+/**
+ * POST /api/dashboard/2fa/setup
+ * Start two-factor enrollment. Returns the secret, its otpauth:// URI and a QR code
+ * of the URI to scan with an authenticator app.
+ */
+router.post('/dashboard/2fa/setup', dashboardTwoFactorSetupAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const setup = twoFactorService.startSetup(res.locals.userId);
+    const qrCode = await QRCode.toDataURL(setup.otpauthUri, { width: 240, margin: 2 });
+
+    res.json({
+      success: true,
+      data: { ...setup, qrCode }
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+/**
+ * POST /api/dashboard/2fa/enable
+ * Confirm enrollment with a code from the authenticator app. The recovery codes are
+ * only returned in this response.
+ *
+ * Request body:
+ * {
+ *   "code": "123456"
+ * }
+ */
+router.post('/dashboard/2fa/enable', dashboardTwoFactorSetupAuth, auditAction('auth.2fa_enable'), (req: Request, res: Response): void => {
+  try {
+    const { code } = validateTwoFactorCodeRequest(req.body);
+    const recoveryCodes = twoFactorService.confirmSetup(res.locals.userId, code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+/**
+ * POST /api/dashboard/2fa/recovery-codes
+ * Replace the recovery codes; needs a current code
+ */
+router.post('/dashboard/2fa/recovery-codes', dashboardAuth, auditAction('auth.2fa_recovery_codes'), (req: Request, res: Response): void => {
+  try {
+    const { code } = validateTwoFactorCodeRequest(req.body);
+    const recoveryCodes = twoFactorService.regenerateRecoveryCodes(res.locals.userId, code);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+/**
+ * POST /api/dashboard/2fa/disable
+ * Turn off two-factor authentication; needs a current code and is refused while
+ * DASHBOARD_REQUIRE_2FA is on
+ */
+router.post('/dashboard/2fa/disable', dashboardAuth, auditAction('auth.2fa_disable'), (req: Request, res: Response): void => {
+  try {
+    const { code } = validateTwoFactorCodeRequest(req.body);
+    twoFactorService.disable(res.locals.userId, code);
+    res.json({ success: true });
+  } catch (error) {
+    sendTwoFactorError(res, error);
+  }
+});
+
+/**
+ * GET /api/dashboard/sessions
+ * List sessions for the dashboard session selector
+ */
+router.get('/dashboard/sessions', dashboardAuth, (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: sessionManager.listSessions()
+  });
+});
+
+/**
+ * GET /api/dashboard/templates
+ * List message templates for the test-send form
+ */
+router.get('/dashboard/templates', dashboardAuth, requireDashboardRole('operator'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: templateService.listTemplates()
+  });
+});
+
 /**
  * GET /api/dashboard/status
  * Get WhatsApp connection status
  */
 router.get('/dashboard/status', dashboardAuth, async (req: Request, res: Response): Promise<void> => {
-  const state = await whatsappService.refreshConnectionState('dashboard/status');
-  const waState = whatsappService.getWAState();
-  const uptime = whatsappService.getUptime();
-  const info = whatsappService.getInfo();
-  const qrCode = whatsappService.getQRCode();
+  const session = getDashboardSession(req, res);
+  if (!session) return;
+
+  await session.refreshConnectionState('dashboard/status');
 
   res.json({
     success: true,
-    data: {
-      isConnected: state.isConnected,
-      isReady: state.isReady,
-      state: waState,
-      phoneNumber: state.phoneNumber || info?.phoneNumber,
-      name: info?.name,
-      uptime,
-      qrDisplayed: state.qrDisplayed,
-      hasQR: !!qrCode,
-      lastError: state.lastError,
+    data: session.getDashboardStatus()
+  });
+});
+
+/**
+ * GET /api/dashboard/events
+ * Server-Sent Events stream of live updates for one session (query: session):
+ * `state` (connection state transitions), `qr`, `log` (new message history entries)
+ * and `ack` (delivery acknowledgements). The current state, and QR code if one is
+ * shown, are sent right after connecting. Viewers only receive `state`.
+ */
+router.get('/dashboard/events', dashboardAuth, (req: Request, res: Response): void => {
+  const session = getDashboardSession(req, res);
+  if (!session) return;
+
+  const expiresAt = res.locals.dashboardTokenExpiresAt as number | undefined;
+  const isOperator = hasDashboardRole(res.locals.dashboardRole as DashboardRole, 'operator');
+
+  try {
+    dashboardEventsService.subscribe(res, session.sessionId, {
+      closeAt: expiresAt,
+      events: isOperator ? undefined : VIEWER_EVENTS,
+      loginSessionId: res.locals.loginSessionId as string | undefined,
+    });
+  } catch (error) {
+    if (error instanceof TooManyEventStreamsError) {
+      res.status(503).json({ success: false, error: error.message });
+      return;
     }
+
+    throw error;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop reverse proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
   });
+  res.flushHeaders();
+  // Reconnect quickly after a dropped connection or a token-expiry close
+  res.write('retry: 3000\n\n');
+
+  const status: DashboardStateEventData = { ...session.getDashboardStatus(), transition: 'snapshot' };
+  dashboardEventsService.send(res, 'state', status);
+
+  const qrCode = session.getQRCode();
+  if (qrCode && isOperator) {
+    dashboardEventsService.send(res, 'qr', { session: session.sessionId, qrCode });
+  }
 });
 
 /**
  * GET /api/dashboard/qr
  * Get QR code as base64 image
  */
-router.get('/dashboard/qr', dashboardAuth, async (req: Request, res: Response): Promise<void> => {
-  const qrCode = whatsappService.getQRCode();
+router.get('/dashboard/qr', dashboardAuth, requireDashboardRole('operator'), async (req: Request, res: Response): Promise<void> => {
+  const session = getDashboardSession(req, res);
+  if (!session) return;
+
+  const qrCode = session.getQRCode();
 
   if (!qrCode) {
     res.status(404).json({
@@ -151,12 +516,12 @@ router.get('/dashboard/qr', dashboardAuth, async (req: Request, res: Response):
 
 /**
  * POST /api/dashboard/send
- * Send a test message
+ * Send a test message. Takes the same body as POST /api/send, for one target and without a schedule.
  */
-router.post('/dashboard/send', dashboardAuth, async (req: Request, res: Response): Promise<void> => {
+router.post('/dashboard/send', dashboardAuth, auditAction('dashboard.send'), requireDashboardRole('operator'), async (req: Request, res: Response): Promise<void> => {
   let request;
   try {
-    request = validateSendRequest(req.body);
+    request = validateSendRequest(req.body, lookupTemplateBody);
   } catch (error) {
     if (error instanceof RequestValidationError) {
       res.status(400).json({
@@ -174,6 +539,14 @@ router.post('/dashboard/send', dashboardAuth, async (req: Request, res: Response
     return;
   }
 
+  if (request.schedule) {
+    res.status(400).json({
+      success: false,
+      error: 'Dashboard test send cannot be scheduled',
+    });
+    return;
+  }
+
   if (request.targets.length > 1) {
     res.status(400).json({
       success: false,
@@ -183,7 +556,15 @@ router.post('/dashboard/send', dashboardAuth, async (req: Request, res: Response
     return;
   }
 
-  const result = await whatsappService.sendMessage(request.targets[0], request.message, getSendOptions(res));
+  const session = getDashboardSession(req, res, request.session);
+  if (!session) return;
+
+  const { message, rich, linkPreview, quotedMessageId, mentions } = request;
+  const result = await session.sendMessage(
+    request.targets[0],
+    { text: message, rich, linkPreview, quotedMessageId, mentions },
+    getSendOptions(res)
+  );
   res.status(getMessageResponseHttpStatus(result)).json(result);
 });
 
@@ -191,9 +572,12 @@ router.post('/dashboard/send', dashboardAuth, async (req: Request, res: Response
  * POST /api/dashboard/logout
  * Logout WhatsApp session
  */
-router.post('/dashboard/logout', dashboardAuth, async (req: Request, res: Response): Promise<void> => {
+router.post('/dashboard/logout', dashboardAuth, auditAction('whatsapp.logout'), requireDashboardRole('admin'), async (req: Request, res: Response): Promise<void> => {
+  const session = getDashboardSession(req, res);
+  if (!session) return;
+
   try {
-    const result = await whatsappService.logout();
+    const result = await session.logout();
     res.json({
       success: result.success,
       state: result.state,
@@ -208,16 +592,332 @@ router.post('/dashboard/logout', dashboardAuth, async (req: Request, res: Respon
   }
 });
 
+/**
+ * POST /api/dashboard/pair
+ * Link a session by phone number instead of QR code; returns the pairing code
+ * to enter in WhatsApp under Linked devices > Link with phone number
+ *
+ * Request body:
+ * {
+ *   "phoneNumber": "081234567890",
+ *   "countryCode": "ID",
+ *   "session": "default"
+ * }
+ */
+router.post('/dashboard/pair', pairLimiter, dashboardAuth, auditAction('whatsapp.pair'), requireDashboardRole('operator'), async (req: Request, res: Response): Promise<void> => {
+  let request;
+  try {
+    request = validatePairingRequest(req.body);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    throw error;
+  }
+
+  const session = getDashboardSession(req, res, request.session);
+  if (!session) return;
+
+  try {
+    res.json({
+      success: true,
+      data: await session.requestPairingCode(request.phoneNumber)
+    });
+  } catch (error) {
+    if (error instanceof PairingCodeError) {
+      res.status(409).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error requesting pairing code:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request a pairing code. Check gateway logs for details.'
+    });
+  }
+});
+
 /**
  * GET /api/dashboard/logs
- * Get message history
+ * Page through the message history; accepts the same filters as GET /api/history
+ */
+router.get('/dashboard/logs', dashboardAuth, requireDashboardRole('operator'), (req: Request, res: Response): void => {
+  try {
+    const page = messageHistoryService.query(validateHistoryQuery(req.query));
+    res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset
+      }
+    });
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error loading message history:', error);
+    res.status(500).json({ success: false, error: 'Failed to load message history' });
+  }
+});
+
+/**
+ * GET /api/dashboard/logs/export
+ * Download the filtered message history as CSV or JSON
+ */
+router.get('/dashboard/logs/export', dashboardAuth, requireDashboardRole('operator'), (req: Request, res: Response): void => {
+  try {
+    const format = validateHistoryExportFormat(req.query);
+    const body = messageHistoryService.exportEntries(validateHistoryQuery(req.query), format);
+
+    res.type(format === 'csv' ? 'text/csv' : 'application/json');
+    res.attachment(`message-history-${new Date().toISOString().slice(0, 10)}.${format}`);
+    res.send(body);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error exporting message history:', error);
+    res.status(500).json({ success: false, error: 'Failed to export message history' });
+  }
+});
+
+/**
+ * GET /api/dashboard/api-keys
+ * List managed API keys (without the keys themselves)
  */
-router.get('/dashboard/logs', dashboardAuth, (req: Request, res: Response): void => {
-  const logs = whatsappService.getMessageLogs();
+router.get('/dashboard/api-keys', dashboardAuth, requireDashboardRole('admin'), (req: Request, res: Response): void => {
   res.json({
     success: true,
-    data: logs
+    data: apiKeyService.listKeys()
   });
 });
 
+/**
+ * POST /api/dashboard/api-keys
+ * Create an API key. The key is only returned in this response.
+ *
+ * Request body:
+ * {
+ *   "label": "billing-service",
+ *   "scopes": ["send", "status"],
+ *   "rateLimitPerMinute": 60,
+ *   "dailyQuota": 500,
+ *   "expiresAt": "2027-01-01T00:00:00Z"
+ * }
+ */
+router.post('/dashboard/api-keys', dashboardAuth, auditAction('api_key.create'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const { key, data } = apiKeyService.createKey(validateApiKeyRequest(req.body));
+    res.status(201).json({
+      success: true,
+      key,
+      data
+    });
+  } catch (error) {
+    sendApiKeyError(res, error);
+  }
+});
+
+/**
+ * PATCH /api/dashboard/api-keys/:id
+ * Change label, scopes, limits or expiry; null clears a limit or the expiry
+ */
+router.patch('/dashboard/api-keys/:id', dashboardAuth, auditAction('api_key.update'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const data = apiKeyService.updateKey(String(req.params.id), validateApiKeyRequest(req.body, true));
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    sendApiKeyError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/dashboard/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/dashboard/api-keys/:id', dashboardAuth, auditAction('api_key.revoke'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    apiKeyService.revokeKey(String(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    sendApiKeyError(res, error);
+  }
+});
+
+/**
+ * GET /api/dashboard/users
+ * List dashboard users (without password hashes)
+ */
+router.get('/dashboard/users', dashboardAuth, requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: dashboardUserService.listUsers().map((user) => ({
+      ...user,
+      twoFactorEnabled: twoFactorService.isEnabled(user.username)
+    }))
+  });
+});
+
+/**
+ * POST /api/dashboard/users
+ * Create a dashboard user
+ *
+ * Request body:
+ * {
+ *   "username": "support",
+ *   "password": "at-least-12-characters",
+ *   "role": "operator"
+ * }
+ */
+router.post('/dashboard/users', dashboardAuth, auditAction('dashboard_user.create'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const data = dashboardUserService.createUser(validateDashboardUserRequest(req.body));
+    res.status(201).json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    sendDashboardUserError(res, error);
+  }
+});
+
+/**
+ * PATCH /api/dashboard/users/:id
+ * Change a user's role or disable/enable the user
+ */
+router.patch('/dashboard/users/:id', dashboardAuth, auditAction('dashboard_user.update'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const data = dashboardUserService.updateUser(
+      String(req.params.id),
+      validateDashboardUserUpdate(req.body),
+      res.locals.userId
+    );
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    sendDashboardUserError(res, error);
+  }
+});
+
+/**
+ * POST /api/dashboard/users/:id/password
+ * Reset a user's password
+ */
+router.post(
+  '/dashboard/users/:id/password',
+  dashboardAuth,
+  auditAction('dashboard_user.password_reset'),
+  requireDashboardRole('admin'),
+  (req: Request, res: Response): void => {
+    try {
+      const data = dashboardUserService.resetPassword(
+        String(req.params.id),
+        validatePasswordResetRequest(req.body).password
+      );
+      res.json({
+        success: true,
+        data
+      });
+    } catch (error) {
+      sendDashboardUserError(res, error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/dashboard/users/:id/2fa
+ * Remove a user's two-factor enrollment, e.g. after losing both the phone and the
+ * recovery codes. With DASHBOARD_REQUIRE_2FA the user sets it up again at the next login.
+ */
+router.delete('/dashboard/users/:id/2fa', dashboardAuth, auditAction('dashboard_user.2fa_reset'), requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const user = dashboardUserService.getUser(String(req.params.id));
+    twoFactorService.reset(user.username);
+    res.json({ success: true });
+  } catch (error) {
+    sendDashboardUserError(res, error);
+  }
+});
+
+/**
+ * GET /api/dashboard/audit
+ * Page through the audit log, newest first
+ *
+ * Query: action (prefix, e.g. "auth."), actor, result, since, until, limit, offset
+ */
+router.get('/dashboard/audit', dashboardAuth, requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const page = auditLogService.query(validateAuditQuery(req.query));
+    res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset
+      }
+    });
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error loading audit log:', error);
+    res.status(500).json({ success: false, error: 'Failed to load audit log' });
+  }
+});
+
+/**
+ * GET /api/dashboard/audit/export
+ * Download the filtered audit log as CSV or JSON, oldest first
+ */
+router.get('/dashboard/audit/export', dashboardAuth, requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    const format = validateHistoryExportFormat(req.query);
+    const body = auditLogService.exportEntries(validateAuditQuery(req.query), format);
+
+    res.type(format === 'csv' ? 'text/csv' : 'application/json');
+    res.attachment(`audit-log-${new Date().toISOString().slice(0, 10)}.${format}`);
+    res.send(body);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+
+    console.error('Error exporting audit log:', error);
+    res.status(500).json({ success: false, error: 'Failed to export audit log' });
+  }
+});
+
+/**
+ * GET /api/dashboard/audit/verify
+ * Check the audit log's hash chain
+ */
+router.get('/dashboard/audit/verify', dashboardAuth, requireDashboardRole('admin'), (req: Request, res: Response): void => {
+  try {
+    res.json({
+      success: true,
+      data: auditLogService.verify()
+    });
+  } catch (error) {
+    console.error('Error verifying audit log:', error);
+    res.status(500).json({ success: false, error: 'Failed to verify audit log' });
+  }
+});
+
 export default router;
@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { GroupActionError, GroupNotFoundError, groupService } from '../services/group.service';
+import { DEFAULT_SESSION_ID, SessionNotFoundError } from '../services/session-manager.service';
+import { WhatsAppNotReadyError } from '../services/whatsapp.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import { auditAction } from '../middlewares/audit.middleware';
+import {
+  RequestValidationError,
+  validateCreateGroupRequest,
+  validateGroupId,
+  validateGroupParticipantsRequest,
+  validateSessionId,
+} from '../utils/request-validation.util';
+
+const router = Router();
+
+function sendGroupError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError || error instanceof GroupNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof GroupActionError) {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof WhatsAppNotReadyError) {
+    return res.status(503).json({
+      success: false,
+      status: 'disconnected',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/groups
+ * List the groups the session's account belongs to
+ *
+ * Query: session (default "default")
+ */
+router.get('/groups', requireScope('send'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.query.session === undefined ? DEFAULT_SESSION_ID : validateSessionId(req.query.session);
+
+    return res.json({
+      success: true,
+      data: await groupService.listGroups(sessionId),
+    });
+  } catch (error) {
+    return sendGroupError(res, error, 'GET /groups');
+  }
+});
+
+/**
+ * POST /api/groups
+ * Create a group
+ *
+ * Request body:
+ * {
+ *   "name": "Project Alpha",
+ *   "participants": ["081234567890", "6289876543210"],
+ *   "session": "default"
+ * }
+ */
+router.post('/groups', auditAction('group.create'), requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { name, participants, session } = validateCreateGroupRequest(req.body);
+    const result = await groupService.createGroup(session || DEFAULT_SESSION_ID, name, participants);
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    return sendGroupError(res, error, 'POST /groups');
+  }
+});
+
+const PARTICIPANT_ROUTES = [
+  { path: '/groups/:id/participants', change: 'add' },
+  { path: '/groups/:id/participants/remove', change: 'remove' },
+  { path: '/groups/:id/admins', change: 'promote' },
+  { path: '/groups/:id/admins/remove', change: 'demote' },
+] as const;
+
+/**
+ * POST /api/groups/:id/participants          - add participants
+ * POST /api/groups/:id/participants/remove   - remove participants
+ * POST /api/groups/:id/admins                - promote participants to admin
+ * POST /api/groups/:id/admins/remove         - demote admins
+ *
+ * Request body:
+ * {
+ *   "participants": ["081234567890"],
+ *   "session": "default"
+ * }
+ */
+for (const { path, change } of PARTICIPANT_ROUTES) {
+  router.post(path, auditAction(`group.${change}`), requireScope('admin'), async (req: Request, res: Response) => {
+    try {
+      const groupId = validateGroupId(req.params.id);
+      const { participants, session } = validateGroupParticipantsRequest(req.body);
+      const result = await groupService.changeParticipants(session || DEFAULT_SESSION_ID, groupId, change, participants);
+
+      return res.json({
+        success: result.participants.some((participant) => participant.success),
+        data: result,
+      });
+    } catch (error) {
+      return sendGroupError(res, error, `POST ${path}`);
+    }
+  });
+}
+
+export default router;
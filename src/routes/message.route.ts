@@ -1,53 +1,197 @@
-import { Router, Request, Response } from 'express';
-import { whatsappService } from '../services/whatsapp.service';
-import { HealthResponse, SendMessageOptions } from '../types';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import {
+  DEFAULT_SESSION_ID,
+  SessionNotFoundError,
+  sessionManager,
+} from '../services/session-manager.service';
+import { messageQueueService } from '../services/message-queue.service';
+import { webhookService } from '../services/webhook.service';
+import { inboxService } from '../services/inbox.service';
+import { messageHistoryService } from '../services/message-history.service';
+import { lookupTemplateBody } from '../services/template.service';
+import { scheduleService } from '../services/schedule.service';
+import { ApiKeyQuotaError, apiKeyService } from '../services/api-key.service';
+import { MessageActionError, MessageNotFoundError, WhatsAppNotReadyError } from '../services/whatsapp.service';
+import {
+  ApiKeyScopeError,
+  assertScope,
+  assertTargetScope,
+  getOwnerApiKeyId,
+  requireScope,
+} from '../middlewares/auth.middleware';
+import { auditAction } from '../middlewares/audit.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
+import { ApiKeyIdentity, HealthResponse, QueuedMessageContent, SendMessageOptions } from '../types';
 import {
   RequestValidationError,
+  ValidatedSchedule,
   validateBroadcastRequest,
+  validateDeleteMessageQuery,
+  validateEditMessageRequest,
+  validateHistoryExportFormat,
+  validateHistoryQuery,
+  validateInboxQuery,
+  validateMessageId,
+  validateReactionRequest,
+  validateSendMediaRequest,
   validateSendRequest,
+  validateSessionId,
+  validateWebhookRequest,
 } from '../utils/request-validation.util';
-import { getMessageResponseHttpStatus, getMessageResponsesHttpStatus } from '../utils/http-status.util';
+import { getMaxMediaBytes, MediaValidationError, resolveMediaAttachment } from '../utils/media.util';
 
 const router = Router();
 
+// Routes that accept media parse their own bodies here, after API key auth, instead of
+// using the small global limit. Base64 inflates payloads by a third.
+export const MEDIA_BODY_PATHS = ['/api/send-media', '/api/broadcast'];
+const MEDIA_JSON_BODY_LIMIT = Math.ceil((getMaxMediaBytes() * 4) / 3) + 64 * 1024;
+const mediaJsonParser = express.json({ limit: MEDIA_JSON_BODY_LIMIT });
+const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: getMaxMediaBytes(), files: 1 },
+});
+
+/**
+ * Resolve the session a request targets, defaulting to the default session
+ */
+function resolveSessionId(sessionId: string | undefined): string {
+  const resolved = sessionId || DEFAULT_SESSION_ID;
+
+  if (!sessionManager.hasSession(resolved)) {
+    throw new SessionNotFoundError(resolved);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve the optional `?session=` query parameter
+ */
+function resolveQuerySessionId(req: Request): string {
+  const session = req.query.session === undefined ? undefined : validateSessionId(req.query.session);
+  return resolveSessionId(session);
+}
+
+/**
+ * Parse an optional multipart `file` field and turn upload errors into 400 responses
+ */
+function parseMediaUpload(req: Request, res: Response, next: NextFunction): void {
+  mediaUpload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        status: 'error',
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? `media must not exceed ${getMaxMediaBytes()} bytes`
+          : error.message,
+      });
+      return;
+    }
+
+    next(error);
+  });
+}
+
 function getSendOptions(res: Response): SendMessageOptions {
   return {
     correlationId: typeof res.locals.correlationId === 'string' ? res.locals.correlationId : undefined,
     userId: typeof res.locals.userId === 'string' ? res.locals.userId : undefined,
+    apiKeyId: typeof res.locals.apiKeyId === 'string' ? res.locals.apiKeyId : undefined,
   };
 }
 
+/**
+ * Queue content now, or store it as a schedule when sendAt/cron was given.
+ * More than one target needs the `broadcast` scope (see assertTargetScope).
+ * Targets count against the API key's daily quota when queued; schedules are
+ * counted on every run instead.
+ */
+function queueOrSchedule(
+  res: Response,
+  sessionId: string,
+  targets: string[],
+  content: QueuedMessageContent,
+  schedule: ValidatedSchedule | undefined,
+  description: string
+): Response {
+  assertTargetScope(res, targets);
+
+  if (schedule) {
+    const record = scheduleService.createSchedule(sessionId, targets, content, schedule, getSendOptions(res));
+
+    return res.status(202).json({
+      success: true,
+      status: 'scheduled',
+      message: `Scheduled ${description} for ${targets.length} target(s)`,
+      id: record.id,
+      total: targets.length,
+      nextRunAt: record.nextRunAt,
+    });
+  }
+
+  const apiKey = res.locals.apiKey as ApiKeyIdentity | undefined;
+  if (apiKey) {
+    apiKeyService.consumeDailyQuota(apiKey.id, targets.length);
+  }
+
+  const job = messageQueueService.enqueue(sessionId, targets, content, getSendOptions(res));
+
+  return res.status(202).json({
+    success: true,
+    status: 'queued',
+    message: `Queued ${description} for ${targets.length} target(s)`,
+    id: job.id,
+    total: targets.length,
+  });
+}
+
 /**
  * POST /api/send
- * Send a single WhatsApp message
+ * Queue a WhatsApp message for one or more targets
  * 
  * Request body:
  * {
  *   "target": "6281234567890",
- *   "message": "Hello World"
+ *   "message": "Hello World",
+ *   "session": "default"
  * }
+ *
+ * A comma-separated `target` sends to each number and needs the `broadcast` scope.
+ *
+ * Optional `quotedMessageId` replies to a message and `mentions` (phone numbers)
+ * mentions group participants; write @<number> in the text for each mention.
+ * `linkPreview: false` sends links without a preview.
+ *
+ * `type` (default "text") also takes "location", "contact" or "poll" with the
+ * payload in the field of that name instead of `message`:
+ * { "type": "poll", "poll": { "question": "Confirm?", "options": ["Yes", "No"] } }
+ *
+ * Instead of `message`, pass `template` (id or name) and `variables`
+ * (e.g. { "name": "Budi" }) to send a stored template.
+ *
+ * Responds with 202 and a job id; poll GET /api/messages/:id for delivery results.
+ * With `sendAt` (ISO 8601) or `cron` (+ optional `timezone`) the message is stored
+ * as a schedule instead and the id refers to GET /api/schedules.
+ * An `Idempotency-Key` header makes retries safe: repeats get the first response.
  */
-router.post('/send', async (req: Request, res: Response) => {
+router.post('/send', requireScope('send'), idempotency, (req: Request, res: Response) => {
   try {
-    const { targets, message } = validateSendRequest(req.body);
-    
-    if (targets.length > 1) {
-      // Multiple targets - send as broadcast
-      const results = await whatsappService.sendBroadcast(targets, message, getSendOptions(res));
-      const allSuccess = results.every((r) => r.success);
-      
-      return res.status(getMessageResponsesHttpStatus(results)).json({
-        success: allSuccess,
-        status: allSuccess ? 'sent' : 'partial',
-        message: `Sent to ${results.filter((r) => r.success).length}/${results.length} targets`,
-        results,
-      });
-    }
-
-    // Single target
-    const result = await whatsappService.sendMessage(targets[0], message, getSendOptions(res));
+    const { targets, message, rich, linkPreview, quotedMessageId, mentions, session, schedule } = validateSendRequest(
+      req.body,
+      lookupTemplateBody
+    );
+    const sessionId = resolveSessionId(session);
 
-    return res.status(getMessageResponseHttpStatus(result)).json(result);
+    return queueOrSchedule(
+      res,
+      sessionId,
+      targets,
+      { text: message, rich, linkPreview, quotedMessageId, mentions },
+      schedule,
+      rich ? `${rich.type} message` : 'message'
+    );
   } catch (error) {
     if (error instanceof RequestValidationError) {
       return res.status(400).json({
@@ -57,6 +201,30 @@ router.post('/send', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof SessionNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ApiKeyScopeError) {
+      return res.status(403).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ApiKeyQuotaError) {
+      return res.status(429).json({
+        success: false,
+        status: 'rate_limited',
+        message: error.message,
+      });
+    }
+
     console.error('Error in /send endpoint:', error);
     return res.status(500).json({
       success: false,
@@ -68,30 +236,332 @@ router.post('/send', async (req: Request, res: Response) => {
 
 /**
  * POST /api/broadcast
- * Send WhatsApp message to multiple targets
+ * Queue a WhatsApp message to multiple targets
  * 
  * Request body:
  * {
  *   "targets": ["6281234567890", "6289876543210"],
- *   "message": "Broadcast message"
+ *   "message": "Broadcast message",
+ *   "media": { "url": "https://example.com/promo.jpg" }
+ * }
+ *
+ * `media` is optional and takes the same data/url/mimetype/filename fields as
+ * /api/send-media; `message` becomes the caption and may be omitted.
+ *
+ * Personalised broadcast: pass `template` (or a `message` with {{placeholders}}),
+ * shared `variables`, and target objects with their own variables:
+ * { "template": "welcome", "targets": [{ "target": "6281234567890", "variables": { "name": "Budi" } }] }
+ *
+ * `sendAt`, `cron`/`timezone` and the `Idempotency-Key` header work like POST /api/send.
+ * Responds with 202 and a job id; poll GET /api/messages/:id for delivery results.
+ */
+router.post('/broadcast', requireScope('broadcast'), mediaJsonParser, idempotency, async (req: Request, res: Response) => {
+  try {
+    const { targets, message, messages, media, session, schedule } = validateBroadcastRequest(
+      req.body,
+      lookupTemplateBody
+    );
+    const sessionId = resolveSessionId(session);
+    const attachment = media ? await resolveMediaAttachment(media) : undefined;
+
+    return queueOrSchedule(
+      res,
+      sessionId,
+      targets,
+      { text: message, targetTexts: messages, media: attachment },
+      schedule,
+      'broadcast'
+    );
+  } catch (error) {
+    if (error instanceof RequestValidationError || error instanceof MediaValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof SessionNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ApiKeyQuotaError) {
+      return res.status(429).json({
+        success: false,
+        status: 'rate_limited',
+        message: error.message,
+      });
+    }
+
+    console.error('Error in /broadcast endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /api/send-media
+ * Queue an image, document, audio or video message
+ *
+ * JSON body (one of data or url):
+ * {
+ *   "target": "6281234567890",
+ *   "data": "<base64 or data: URL>",
+ *   "url": "https://example.com/invoice.pdf",
+ *   "mimetype": "application/pdf",
+ *   "filename": "invoice.pdf",
+ *   "caption": "Your invoice"
+ * }
+ *
+ * `quotedMessageId` and `mentions` work like POST /api/send.
+ * Comma-separated targets need the `broadcast` scope, as on POST /api/send.
+ * Or multipart/form-data with a `file` field plus the same text fields.
+ * Responds with 202 and a job id; poll GET /api/messages/:id for delivery results.
+ */
+router.post('/send-media', requireScope('send'), mediaJsonParser, parseMediaUpload, async (req: Request, res: Response) => {
+  try {
+    const upload = req.file
+      ? { buffer: req.file.buffer, mimetype: req.file.mimetype, originalname: req.file.originalname }
+      : undefined;
+    const { targets, caption, media, quotedMessageId, mentions, session } = validateSendMediaRequest(req.body, upload);
+    const sessionId = resolveSessionId(session);
+    const attachment = await resolveMediaAttachment(media);
+
+    return queueOrSchedule(
+      res,
+      sessionId,
+      targets,
+      { text: caption, media: attachment, quotedMessageId, mentions },
+      undefined,
+      'media message'
+    );
+  } catch (error) {
+    if (error instanceof RequestValidationError || error instanceof MediaValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof SessionNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ApiKeyScopeError) {
+      return res.status(403).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof ApiKeyQuotaError) {
+      return res.status(429).json({
+        success: false,
+        status: 'rate_limited',
+        message: error.message,
+      });
+    }
+
+    console.error('Error in /send-media endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/messages/:id
+ * Poll the status of a queued send or broadcast job. Only the API key that queued
+ * the job (or an admin key) finds it; result targets are masked.
+ */
+router.get('/messages/:id', requireScope('status'), (req: Request, res: Response) => {
+  const job = messageQueueService.getJobView(String(req.params.id), getOwnerApiKeyId(res));
+
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: 'Message job not found',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: job,
+  });
+});
+
+function sendMessageActionError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof ApiKeyScopeError) {
+    return res.status(403).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError || error instanceof MessageNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof MessageActionError) {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof WhatsAppNotReadyError) {
+    return res.status(503).json({
+      success: false,
+      status: 'disconnected',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * Editing or deleting a message another key or the dashboard sent needs the `admin` scope
+ */
+function assertMessageSentByApiKey(res: Response, messageId: string): void {
+  const apiKeyId = getOwnerApiKeyId(res);
+
+  if (apiKeyId !== undefined && !messageHistoryService.isSentByApiKey(messageId, apiKeyId)) {
+    assertScope(res, 'admin');
+  }
+}
+
+/**
+ * POST /api/messages/:id/react
+ * React to a sent or received message
+ *
+ * Request body:
+ * {
+ *   "emoji": "👍",
+ *   "session": "default"
  * }
+ *
+ * An empty emoji removes the reaction. `:id` is a message id from a send result,
+ * the inbox or message history.
+ */
+router.post('/messages/:id/react', requireScope('send'), async (req: Request, res: Response) => {
+  try {
+    const messageId = validateMessageId(req.params.id);
+    const { emoji, session } = validateReactionRequest(req.body);
+    const whatsapp = sessionManager.getSession(resolveSessionId(session));
+
+    return res.json({
+      success: true,
+      data: await whatsapp.reactToMessage(messageId, emoji, getSendOptions(res)),
+    });
+  } catch (error) {
+    return sendMessageActionError(res, error, 'POST /messages/:id/react');
+  }
+});
+
+/**
+ * POST /api/messages/:id/edit
+ * Replace the text of a message this session sent with the same API key
+ * (any message of the session for admin keys)
+ *
+ * Request body:
+ * {
+ *   "message": "Corrected text",
+ *   "session": "default"
+ * }
+ */
+router.post('/messages/:id/edit', requireScope('send'), async (req: Request, res: Response) => {
+  try {
+    const messageId = validateMessageId(req.params.id);
+    const { message, session } = validateEditMessageRequest(req.body);
+    const whatsapp = sessionManager.getSession(resolveSessionId(session));
+    assertMessageSentByApiKey(res, messageId);
+
+    return res.json({
+      success: true,
+      data: await whatsapp.editMessage(messageId, message, getSendOptions(res)),
+    });
+  } catch (error) {
+    return sendMessageActionError(res, error, 'POST /messages/:id/edit');
+  }
+});
+
+/**
+ * POST /api/messages/:id/delete
+ * Delete a message for everyone, or only on the linked device with ?everyone=false.
+ * Like edits, limited to messages sent with the same API key unless the key is admin.
+ *
+ * Query: session (default "default"), everyone (default true)
  */
-router.post('/broadcast', async (req: Request, res: Response) => {
+router.post('/messages/:id/delete', requireScope('send'), async (req: Request, res: Response) => {
   try {
-    const { targets, message } = validateBroadcastRequest(req.body);
+    const messageId = validateMessageId(req.params.id);
+    const { session, everyone } = validateDeleteMessageQuery(req.query);
+    const whatsapp = sessionManager.getSession(resolveSessionId(session));
+    assertMessageSentByApiKey(res, messageId);
+
+    return res.json({
+      success: true,
+      data: await whatsapp.deleteMessage(messageId, everyone, getSendOptions(res)),
+    });
+  } catch (error) {
+    return sendMessageActionError(res, error, 'POST /messages/:id/delete');
+  }
+});
 
-    const results = await whatsappService.sendBroadcast(targets, message, getSendOptions(res));
-    const successCount = results.filter((r) => r.success).length;
-    const allSuccess = successCount === results.length;
+/**
+ * GET /api/inbox
+ * Page through received messages, newest first
+ *
+ * Query: since, until (ISO 8601), chatId, limit (default 50, max 200), offset
+ */
+router.get('/inbox', requireScope('inbox'), (req: Request, res: Response) => {
+  try {
+    const page = inboxService.query(validateInboxQuery(req.query));
 
-    return res.status(getMessageResponsesHttpStatus(results)).json({
-      success: allSuccess,
-      status: allSuccess ? 'sent' : 'partial',
-      message: `Sent to ${successCount}/${results.length} targets`,
-      total: results.length,
-      sent: successCount,
-      failed: results.length - successCount,
-      results,
+    return res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset,
+      },
     });
   } catch (error) {
     if (error instanceof RequestValidationError) {
@@ -102,7 +572,131 @@ router.post('/broadcast', async (req: Request, res: Response) => {
       });
     }
 
-    console.error('Error in /broadcast endpoint:', error);
+    console.error('Error in /inbox endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/history
+ * Page through sent and failed messages, newest first. Keys without the `admin` scope
+ * only see messages they sent.
+ *
+ * Query: session, status (sent|error|invalid_number|not_on_whatsapp|suppressed), since, until (ISO 8601),
+ * target (last 1-4 digits), correlationId, userId, limit (default 50, max 200), offset
+ */
+router.get('/history', requireScope('status'), (req: Request, res: Response) => {
+  try {
+    const page = messageHistoryService.query(validateHistoryQuery(req.query), getOwnerApiKeyId(res));
+
+    return res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    console.error('Error in /history endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/history/export
+ * Download the matching message history as a file
+ *
+ * Query: format (csv|json, default csv) plus the /api/history filters; limit and offset are ignored
+ */
+router.get('/history/export', requireScope('status'), (req: Request, res: Response) => {
+  try {
+    const format = validateHistoryExportFormat(req.query);
+    const body = messageHistoryService.exportEntries(validateHistoryQuery(req.query), format, getOwnerApiKeyId(res));
+    const fileName = `message-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.type(format === 'csv' ? 'text/csv' : 'application/json');
+    res.attachment(fileName);
+    return res.send(body);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    console.error('Error in /history/export endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks
+ * List webhook subscriptions (secrets are never returned)
+ */
+router.get('/webhooks', requireScope('admin'), (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: webhookService.listSubscriptions(),
+  });
+});
+
+/**
+ * POST /api/webhooks
+ * Subscribe a URL to gateway events
+ * 
+ * Request body:
+ * {
+ *   "url": "https://crm.example.com/wa/events",
+ *   "events": ["message.ack", "message.received", "schedule.failed"],
+ *   "secret": "optional-shared-secret"
+ * }
+ *
+ * Deliveries are signed with X-Webhook-Signature: sha256=HMAC(secret, body).
+ * The secret is only returned in this response.
+ */
+router.post('/webhooks', auditAction('webhook.create'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const request = validateWebhookRequest(req.body);
+    const subscription = webhookService.createSubscription(request);
+
+    return res.status(201).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return res.status(400).json({
+        success: false,
+        status: 'error',
+        message: error.message,
+      });
+    }
+
+    console.error('Error in /webhooks endpoint:', error);
     return res.status(500).json({
       success: false,
       status: 'error',
@@ -111,16 +705,39 @@ router.post('/broadcast', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * DELETE /api/webhooks/:id
+ * Remove a webhook subscription
+ */
+router.delete('/webhooks/:id', auditAction('webhook.delete'), requireScope('admin'), (req: Request, res: Response) => {
+  if (!webhookService.deleteSubscription(String(req.params.id))) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: 'Webhook not found',
+    });
+  }
+
+  return res.json({ success: true });
+});
+
 /**
  * GET /health
- * Health check endpoint
+ * Health check endpoint for one session (`?session=`, default session otherwise)
  */
 router.get('/health', async (req: Request, res: Response) => {
-  const state = await whatsappService.refreshConnectionState('api/health');
+  let session;
+  try {
+    session = sessionManager.getSession(resolveQuerySessionId(req));
+  } catch (error) {
+    return sendSessionLookupError(res, error);
+  }
+
+  const state = await session.refreshConnectionState('api/health');
 
   const response: HealthResponse = {
     status: state.isConnected ? 'connected' : 'disconnected',
-    uptime: whatsappService.getUptime(),
+    uptime: session.getUptime(),
     phone: state.phoneNumber,
     timestamp: new Date().toISOString(),
   };
@@ -130,17 +747,25 @@ router.get('/health', async (req: Request, res: Response) => {
 
 /**
  * GET /status
- * Detailed status endpoint
+ * Detailed status endpoint for one session (`?session=`, default session otherwise)
  */
-router.get('/status', async (req: Request, res: Response) => {
-  const state = await whatsappService.refreshConnectionState('api/status');
+router.get('/status', requireScope('status'), async (req: Request, res: Response) => {
+  let session;
+  try {
+    session = sessionManager.getSession(resolveQuerySessionId(req));
+  } catch (error) {
+    return sendSessionLookupError(res, error);
+  }
+
+  const state = await session.refreshConnectionState('api/status');
 
   return res.json({
+    session: session.sessionId,
     connected: state.isConnected,
     ready: state.isReady,
     phoneNumber: state.phoneNumber,
-    uptime: whatsappService.getUptime(),
-    uptimeFormatted: formatUptime(whatsappService.getUptime()),
+    uptime: session.getUptime(),
+    uptimeFormatted: formatUptime(session.getUptime()),
     startTime: state.startTime.toISOString(),
     qrDisplayed: state.qrDisplayed,
     lastError: state.lastError,
@@ -148,6 +773,26 @@ router.get('/status', async (req: Request, res: Response) => {
   });
 });
 
+function sendSessionLookupError(res: Response, error: unknown): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  throw error;
+}
+
 /**
  * Format uptime to human readable string
  */
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { metricsService } from '../services/metrics.service';
+import { messageQueueService } from '../services/message-queue.service';
+import { sessionManager } from '../services/session-manager.service';
+import { metricsAuth } from '../middlewares/metrics.auth';
+import { MetricFamily } from '../utils/prometheus.util';
+
+const router = Router();
+
+/**
+ * Point-in-time values read from the sessions and the queue on every scrape
+ */
+function collectGauges(): MetricFamily[] {
+  const sessions = sessionManager.listSessions();
+
+  return [
+    {
+      name: 'wa_gateway_whatsapp_state',
+      help: 'Current WhatsApp client state of each session (1 for the active state)',
+      type: 'gauge',
+      samples: sessions.map((session) => ({ labels: { session: session.id, state: session.state }, value: 1 })),
+    },
+    {
+      name: 'wa_gateway_session_ready',
+      help: 'Whether the session can send messages',
+      type: 'gauge',
+      samples: sessions.map((session) => ({ labels: { session: session.id }, value: session.isReady ? 1 : 0 })),
+    },
+    {
+      name: 'wa_gateway_daily_messages_sent',
+      help: 'Messages sent today, counted against DAILY_MESSAGE_LIMIT',
+      type: 'gauge',
+      samples: sessions.map((session) => ({ labels: { session: session.id }, value: session.dailyMessageCount })),
+    },
+    {
+      name: 'wa_gateway_daily_message_limit',
+      help: 'Configured DAILY_MESSAGE_LIMIT per session',
+      type: 'gauge',
+      samples: sessions.map((session) => ({ labels: { session: session.id }, value: session.dailyMessageLimit })),
+    },
+    {
+      name: 'wa_gateway_send_slowed_down',
+      help: 'Whether sends are slowed down because of a high recent error rate',
+      type: 'gauge',
+      samples: sessions.map((session) => ({ labels: { session: session.id }, value: session.throttle.isSlowedDown ? 1 : 0 })),
+    },
+    {
+      name: 'wa_gateway_queue_depth',
+      help: 'Send jobs waiting in the outbound queue',
+      type: 'gauge',
+      samples: [{ labels: {}, value: messageQueueService.getQueueDepth() }],
+    },
+    {
+      name: 'wa_gateway_uptime_seconds',
+      help: 'Seconds since the gateway process started',
+      type: 'gauge',
+      samples: [{ labels: {}, value: Math.round(process.uptime()) }],
+    },
+  ];
+}
+
+/**
+ * GET /metrics
+ * Prometheus metrics in text exposition format
+ */
+router.get('/metrics', metricsAuth, (req: Request, res: Response) => {
+  try {
+    res.type('text/plain; version=0.0.4');
+    return res.send(metricsService.render(collectGauges()));
+  } catch (error) {
+    console.error('Error in /metrics endpoint:', error);
+    return res.status(500).json({
+      success: false,
+      status: 'error',
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
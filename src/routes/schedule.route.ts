@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { getOwnerApiKeyId, requireScope } from '../middlewares/auth.middleware';
+import { scheduleService } from '../services/schedule.service';
+
+const router = Router();
+
+/**
+ * GET /api/schedules
+ * List pending one-off and recurring schedules of the API key, next run first.
+ * Targets are masked; admin keys see the schedules of every key.
+ */
+router.get('/schedules', requireScope('status'), (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: scheduleService.listSchedules(getOwnerApiKeyId(res)),
+  });
+});
+
+/**
+ * GET /api/schedules/:id
+ * Get a schedule; `lastJobId` points to the job queued by its latest run
+ */
+router.get('/schedules/:id', requireScope('status'), (req: Request, res: Response) => {
+  const schedule = scheduleService.getScheduleView(String(req.params.id), getOwnerApiKeyId(res));
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: 'Schedule not found',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: schedule,
+  });
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Cancel a schedule created with the same API key (any schedule for admin keys)
+ */
+router.delete('/schedules/:id', requireScope('send'), (req: Request, res: Response) => {
+  if (!scheduleService.deleteSchedule(String(req.params.id), getOwnerApiKeyId(res))) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: 'Schedule not found',
+    });
+  }
+
+  return res.json({ success: true });
+});
+
+export default router;
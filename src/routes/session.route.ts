@@ -0,0 +1,180 @@
+import { Router, Request, Response } from 'express';
+import {
+  SessionConflictError,
+  SessionNotFoundError,
+  sessionManager,
+} from '../services/session-manager.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import { auditAction } from '../middlewares/audit.middleware';
+import {
+  RequestValidationError,
+  validateCreateSessionRequest,
+  validateSessionId,
+} from '../utils/request-validation.util';
+
+const router = Router();
+
+function sendSessionError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SessionConflictError) {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/sessions
+ * List all WhatsApp sessions with their connection state
+ */
+router.get('/sessions', requireScope('status'), (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: sessionManager.listSessions(),
+  });
+});
+
+/**
+ * POST /api/sessions
+ * Create a session and start linking it
+ *
+ * Request body:
+ * {
+ *   "id": "support",
+ *   "label": "Support team number"
+ * }
+ *
+ * Poll GET /api/sessions/:id/qr for the QR code to scan.
+ */
+router.post('/sessions', auditAction('session.create'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const { id, label } = validateCreateSessionRequest(req.body);
+    const session = sessionManager.createSession(id, label);
+
+    return res.status(201).json({
+      success: true,
+      data: session,
+    });
+  } catch (error) {
+    return sendSessionError(res, error, 'POST /sessions');
+  }
+});
+
+/**
+ * GET /api/sessions/:id
+ * Session details
+ */
+router.get('/sessions/:id', requireScope('status'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = validateSessionId(req.params.id, 'id');
+    await sessionManager.getSession(sessionId).refreshConnectionState('api/sessions');
+
+    return res.json({
+      success: true,
+      data: sessionManager.getSessionSummary(sessionId),
+    });
+  } catch (error) {
+    return sendSessionError(res, error, 'GET /sessions/:id');
+  }
+});
+
+/**
+ * GET /api/sessions/:id/qr
+ * QR code (base64 data URL) for linking the session
+ */
+router.get('/sessions/:id/qr', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const qrCode = sessionManager.getSession(validateSessionId(req.params.id, 'id')).getQRCode();
+
+    if (!qrCode) {
+      return res.status(404).json({
+        success: false,
+        status: 'error',
+        message: 'No QR code available. Already connected or not initialized.',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: { qrCode },
+    });
+  } catch (error) {
+    return sendSessionError(res, error, 'GET /sessions/:id/qr');
+  }
+});
+
+/**
+ * POST /api/sessions/:id/start
+ * Start (or retry starting) a session's WhatsApp client
+ */
+router.post('/sessions/:id/start', auditAction('session.start'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const sessionId = validateSessionId(req.params.id, 'id');
+    sessionManager.startSession(sessionId);
+
+    return res.status(202).json({
+      success: true,
+      data: sessionManager.getSessionSummary(sessionId),
+    });
+  } catch (error) {
+    return sendSessionError(res, error, 'POST /sessions/:id/start');
+  }
+});
+
+/**
+ * POST /api/sessions/:id/logout
+ * Unlink the WhatsApp account and prepare a fresh QR code
+ */
+router.post('/sessions/:id/logout', auditAction('whatsapp.logout'), requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const result = await sessionManager.logoutSession(validateSessionId(req.params.id, 'id'));
+
+    return res.json({
+      success: result.success,
+      state: result.state,
+      message: result.message,
+    });
+  } catch (error) {
+    return sendSessionError(res, error, 'POST /sessions/:id/logout');
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * Log out and remove a session including its stored credentials
+ */
+router.delete('/sessions/:id', auditAction('session.delete'), requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    await sessionManager.deleteSession(validateSessionId(req.params.id, 'id'));
+
+    return res.json({ success: true });
+  } catch (error) {
+    return sendSessionError(res, error, 'DELETE /sessions/:id');
+  }
+});
+
+export default router;
@@ -0,0 +1,150 @@
+import express, { Router, Request, Response } from 'express';
+import { SuppressionNotFoundError, suppressionService } from '../services/suppression.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import { auditAction } from '../middlewares/audit.middleware';
+import {
+  RequestValidationError,
+  validateSuppressionImport,
+  validateSuppressionNumber,
+  validateSuppressionQuery,
+  validateSuppressionRequest,
+} from '../utils/request-validation.util';
+
+const router = Router();
+const csvParser = express.text({ type: ['text/csv', 'text/plain'], limit: '1mb' });
+
+function sendSuppressionError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof SuppressionNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/suppressions
+ * List suppressed (opted-out) numbers, most recent first. Send keys can only check
+ * single numbers with GET /api/suppressions/:number.
+ *
+ * Query: source (api|import|keyword), limit, offset
+ */
+router.get('/suppressions', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const page = suppressionService.list(validateSuppressionQuery(req.query));
+
+    return res.json({
+      success: true,
+      data: page.data,
+      pagination: {
+        total: page.total,
+        limit: page.limit,
+        offset: page.offset,
+      },
+    });
+  } catch (error) {
+    return sendSuppressionError(res, error, 'GET /suppressions');
+  }
+});
+
+/**
+ * POST /api/suppressions
+ * Suppress one or more numbers; already suppressed numbers are left unchanged
+ *
+ * Request body:
+ * {
+ *   "numbers": ["6281234567890", "6289876543210"],
+ *   "reason": "Unsubscribed by phone"
+ * }
+ */
+router.post('/suppressions', auditAction('suppression.create'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const { numbers, reason } = validateSuppressionRequest(req.body);
+    const result = suppressionService.add(numbers.map((number) => ({ number, reason })), 'api');
+
+    return res.status(result.added.length > 0 ? 201 : 200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    return sendSuppressionError(res, error, 'POST /suppressions');
+  }
+});
+
+/**
+ * POST /api/suppressions/import
+ * Bulk import from CSV (Content-Type: text/csv): number in the first column, optional
+ * reason in the second, optional header row. Invalid rows are reported and skipped.
+ *
+ * Query: countryCode for numbers in national format
+ */
+router.post(
+  '/suppressions/import',
+  auditAction('suppression.import'),
+  requireScope('admin'),
+  csvParser,
+  (req: Request, res: Response) => {
+    try {
+      const { entries, invalid } = validateSuppressionImport(req.body, req.query);
+      const result = suppressionService.add(entries, 'import');
+
+      return res.json({
+        success: true,
+        data: {
+          added: result.added.length,
+          existing: result.existing.length,
+          invalid,
+        },
+      });
+    } catch (error) {
+      return sendSuppressionError(res, error, 'POST /suppressions/import');
+    }
+  }
+);
+
+/**
+ * GET /api/suppressions/:number
+ * Check whether a number is suppressed (404 when it is not)
+ */
+router.get('/suppressions/:number', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      data: suppressionService.get(validateSuppressionNumber(req.params.number)),
+    });
+  } catch (error) {
+    return sendSuppressionError(res, error, 'GET /suppressions/:number');
+  }
+});
+
+/**
+ * DELETE /api/suppressions/:number
+ * Remove a number from the suppression list, e.g. after it opted in again
+ */
+router.delete('/suppressions/:number', auditAction('suppression.delete'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    suppressionService.remove(validateSuppressionNumber(req.params.number));
+
+    return res.json({ success: true });
+  } catch (error) {
+    return sendSuppressionError(res, error, 'DELETE /suppressions/:number');
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import {
+  TemplateConflictError,
+  TemplateNotFoundError,
+  templateService,
+} from '../services/template.service';
+import { requireScope } from '../middlewares/auth.middleware';
+import { auditAction } from '../middlewares/audit.middleware';
+import { RequestValidationError, validateTemplateRequest } from '../utils/request-validation.util';
+
+const router = Router();
+
+function sendTemplateError(res: Response, error: unknown, endpoint: string): Response {
+  if (error instanceof RequestValidationError) {
+    return res.status(400).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof TemplateNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  if (error instanceof TemplateConflictError) {
+    return res.status(409).json({
+      success: false,
+      status: 'error',
+      message: error.message,
+    });
+  }
+
+  console.error(`Error in ${endpoint} endpoint:`, error);
+  return res.status(500).json({
+    success: false,
+    status: 'error',
+    message: 'Internal server error',
+  });
+}
+
+/**
+ * GET /api/templates
+ * List message templates
+ */
+router.get('/templates', requireScope('send'), (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: templateService.listTemplates(),
+  });
+});
+
+/**
+ * POST /api/templates
+ * Create a message template
+ *
+ * Request body:
+ * {
+ *   "name": "order-shipped",
+ *   "body": "Hi {{name}}, order {{orderId}} is on its way"
+ * }
+ */
+router.post('/templates', auditAction('template.create'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const template = templateService.createTemplate(validateTemplateRequest(req.body));
+
+    return res.status(201).json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    return sendTemplateError(res, error, 'POST /templates');
+  }
+});
+
+/**
+ * GET /api/templates/:id
+ * Get a template by id or name
+ */
+router.get('/templates/:id', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      data: templateService.getTemplate(String(req.params.id)),
+    });
+  } catch (error) {
+    return sendTemplateError(res, error, 'GET /templates/:id');
+  }
+});
+
+/**
+ * PUT /api/templates/:id
+ * Update a template's name and/or body
+ */
+router.put('/templates/:id', auditAction('template.update'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const template = templateService.updateTemplate(String(req.params.id), validateTemplateRequest(req.body, true));
+
+    return res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    return sendTemplateError(res, error, 'PUT /templates/:id');
+  }
+});
+
+/**
+ * DELETE /api/templates/:id
+ * Delete a template
+ */
+router.delete('/templates/:id', auditAction('template.delete'), requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    templateService.deleteTemplate(String(req.params.id));
+
+    return res.json({ success: true });
+  } catch (error) {
+    return sendTemplateError(res, error, 'DELETE /templates/:id');
+  }
+});
+
+export default router;
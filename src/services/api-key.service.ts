@@ -0,0 +1,235 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { loadSecurityConfig } from '../config/security.config';
+import { ApiKeyIdentity, ApiKeyRecord, ApiKeyView } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { ValidatedApiKeyRequest } from '../utils/request-validation.util';
+
+const { apiKey: envApiKey } = loadSecurityConfig();
+const KEY_PREFIX = 'wag_';
+const DISPLAY_PREFIX_LENGTH = 12;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// lastUsedAt is informational; do not rewrite the key file on every request
+const LAST_USED_PERSIST_INTERVAL_MS = 60 * 1000;
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API key not found: ${id}`);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+export class ApiKeyQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyQuotaError';
+  }
+}
+
+export type ApiKeyAuthResult =
+  | { status: 'valid'; identity: ApiKeyIdentity }
+  | { status: 'invalid' }
+  | { status: 'expired' };
+
+interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Stable, non-secret identifier of an API key (used to scope per-key state)
+ */
+export function getApiKeyId(key: string): string {
+  return hashApiKey(key).substring(0, 16);
+}
+
+function isExpired(record: ApiKeyRecord): boolean {
+  return !!record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Managed API keys with scopes, per-key rate limits, daily quotas and expiry.
+ * Only SHA-256 hashes are stored; keys are random, so a slow hash adds nothing.
+ */
+class ApiKeyService {
+  private keys: Map<string, ApiKeyRecord> | null = null;
+  private rateWindows: Map<string, { startedAt: number; count: number }> = new Map();
+  private readonly filePath = resolveDataPath('api-keys.json');
+
+  /**
+   * Look up a presented key
+   */
+  authenticate(providedKey: string): ApiKeyAuthResult {
+    const hash = hashApiKey(providedKey);
+    const record = [...this.getKeys().values()].find((key) => key.hash === hash);
+
+    if (!record) {
+      return { status: 'invalid' };
+    }
+
+    if (isExpired(record)) {
+      return { status: 'expired' };
+    }
+
+    const now = Date.now();
+    if (!record.lastUsedAt || now - new Date(record.lastUsedAt).getTime() > LAST_USED_PERSIST_INTERVAL_MS) {
+      record.lastUsedAt = new Date(now).toISOString();
+      this.persist();
+    }
+
+    return { status: 'valid', identity: this.toIdentity(record) };
+  }
+
+  listKeys(): ApiKeyView[] {
+    return [...this.getKeys().values()].map((record) => this.toView(record));
+  }
+
+  /**
+   * Create a key; the plain key is returned once and cannot be recovered later
+   */
+  createKey(request: ValidatedApiKeyRequest): { key: string; data: ApiKeyView } {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      label: request.label,
+      prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+      hash: hashApiKey(key),
+      scopes: request.scopes,
+      rateLimitPerMinute: request.rateLimitPerMinute ?? undefined,
+      dailyQuota: request.dailyQuota ?? undefined,
+      expiresAt: request.expiresAt?.toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.getKeys().set(record.id, record);
+    this.persist();
+
+    return { key, data: this.toView(record) };
+  }
+
+  updateKey(id: string, changes: Partial<ValidatedApiKeyRequest>): ApiKeyView {
+    const record = this.getKeys().get(id);
+    if (!record) {
+      throw new ApiKeyNotFoundError(id);
+    }
+
+    if (changes.label !== undefined) record.label = changes.label;
+    if (changes.scopes !== undefined) record.scopes = changes.scopes;
+    if (changes.rateLimitPerMinute !== undefined) record.rateLimitPerMinute = changes.rateLimitPerMinute ?? undefined;
+    if (changes.dailyQuota !== undefined) record.dailyQuota = changes.dailyQuota ?? undefined;
+    if (changes.expiresAt !== undefined) record.expiresAt = changes.expiresAt?.toISOString();
+
+    this.persist();
+    return this.toView(record);
+  }
+
+  /**
+   * Revoke a key; it stops working immediately
+   */
+  revokeKey(id: string): void {
+    if (!this.getKeys().delete(id)) {
+      throw new ApiKeyNotFoundError(id);
+    }
+
+    this.rateWindows.delete(id);
+    this.persist();
+  }
+
+  /**
+   * Whether work queued for later by a key (schedules) may still run.
+   * The API_KEY is always active; managed keys stop once revoked or expired.
+   */
+  isActive(apiKeyId: string): boolean {
+    if (apiKeyId === getApiKeyId(envApiKey)) return true;
+
+    const record = this.getKeys().get(apiKeyId);
+    return !!record && !isExpired(record);
+  }
+
+  /**
+   * Count a request against the key's per-minute limit.
+   * Returns 0 when allowed, otherwise the seconds until the window resets.
+   */
+  checkRateLimit(identity: ApiKeyIdentity): number {
+    if (!identity.rateLimitPerMinute) return 0;
+
+    const now = Date.now();
+    let window = this.rateWindows.get(identity.id);
+
+    if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.rateWindows.set(identity.id, window);
+    }
+
+    if (window.count >= identity.rateLimitPerMinute) {
+      return Math.ceil((window.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000);
+    }
+
+    window.count++;
+    return 0;
+  }
+
+  /**
+   * Reserve `count` messages of the key's daily quota, throwing when it would be exceeded.
+   * Keys without a quota, the API_KEY and revoked keys are not limited.
+   */
+  consumeDailyQuota(apiKeyId: string, count: number): void {
+    const record = this.getKeys().get(apiKeyId);
+    if (!record?.dailyQuota) return;
+
+    const today = new Date().toDateString();
+    const used = record.usage?.date === today ? record.usage.count : 0;
+
+    if (used + count > record.dailyQuota) {
+      throw new ApiKeyQuotaError(
+        `Daily quota of this API key exceeded (${used}/${record.dailyQuota} messages used today)`
+      );
+    }
+
+    record.usage = { date: today, count: used + count };
+    this.persist();
+  }
+
+  private getKeys(): Map<string, ApiKeyRecord> {
+    if (!this.keys) {
+      const data = readJsonFile<ApiKeyFile>(this.filePath, { keys: [] });
+      this.keys = new Map(data.keys.map((record) => [record.id, record]));
+    }
+
+    return this.keys;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { keys: [...this.getKeys().values()] });
+  }
+
+  private toIdentity(record: ApiKeyRecord): ApiKeyIdentity {
+    return {
+      id: record.id,
+      label: record.label,
+      scopes: record.scopes,
+      rateLimitPerMinute: record.rateLimitPerMinute,
+      dailyQuota: record.dailyQuota,
+    };
+  }
+
+  private toView(record: ApiKeyRecord): ApiKeyView {
+    return {
+      id: record.id,
+      label: record.label,
+      prefix: record.prefix,
+      scopes: record.scopes,
+      rateLimitPerMinute: record.rateLimitPerMinute,
+      dailyQuota: record.dailyQuota,
+      usedToday: record.usage?.date === new Date().toDateString() ? record.usage.count : 0,
+      expiresAt: record.expiresAt,
+      createdAt: record.createdAt,
+      lastUsedAt: record.lastUsedAt,
+    };
+  }
+}
+
+// Singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,224 @@
+import { AuditChainStatus, AuditEntry } from '../types';
+import { AUDIT_GENESIS_HEAD, AuditChainHead, computeAuditHash, verifyAuditChain } from '../utils/audit.util';
+import { toCsv } from '../utils/csv.util';
+import {
+  appendJsonLine,
+  listDataFiles,
+  readJsonLines,
+  renameDataFile,
+  resolveDataPath,
+} from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { log } from '../utils/logger.util';
+import { HistoryExportFormat, ValidatedAuditQuery } from '../utils/request-validation.util';
+
+export type AuditEvent = Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'hash'>;
+export type AuditFilters = Omit<ValidatedAuditQuery, 'limit' | 'offset'>;
+
+export interface AuditLogPage {
+  data: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const SEGMENT_MAX_ENTRIES = readIntegerEnv('AUDIT_LOG_SEGMENT_ENTRIES', 50000, { min: 100, max: 10000000 });
+// audit-log-<first seq>-<last seq>.jsonl
+const SEGMENT_FILE_PATTERN = /^audit-log-(\d+)-(\d+)\.jsonl$/;
+
+const EXPORT_COLUMNS = [
+  'seq',
+  'timestamp',
+  'actor',
+  'actorType',
+  'ip',
+  'action',
+  'target',
+  'result',
+  'correlationId',
+  'details',
+  'prevHash',
+  'hash',
+] as const;
+
+/**
+ * Append-only audit log of security and administrative events (logins, lockouts,
+ * WhatsApp logouts and links, API key and configuration changes).
+ *
+ * Entries are hash-chained and never compacted, so removing or editing an entry
+ * breaks the chain; `verify` reports the first broken entry. Once the current file
+ * holds AUDIT_LOG_SEGMENT_ENTRIES entries it is renamed to a segment and a new file
+ * continues the chain from the segment's last entry. Only the current file is kept in
+ * memory; searches read the segments that may hold entries from `since` on, and `verify`
+ * reads every segment.
+ */
+class AuditLogService {
+  private entries: AuditEntry[] | null = null;
+  private head: AuditChainHead | null = null;
+  private readonly filePath = resolveDataPath('audit-log.jsonl');
+
+  /**
+   * Append an event. Failures are logged rather than thrown, so auditing never
+   * breaks the action being audited.
+   */
+  record(event: AuditEvent): void {
+    try {
+      const entries = this.getEntries();
+      const head = this.getHead();
+      const content: Omit<AuditEntry, 'hash'> = {
+        seq: head.seq + 1,
+        timestamp: new Date().toISOString(),
+        ...event,
+        prevHash: head.hash,
+      };
+      const entry: AuditEntry = { ...content, hash: computeAuditHash(content) };
+
+      appendJsonLine(this.filePath, entry);
+      entries.push(entry);
+      this.head = { seq: entry.seq, hash: entry.hash };
+
+      if (entries.length >= SEGMENT_MAX_ENTRIES) {
+        this.rotate(entries);
+      }
+    } catch (error) {
+      console.error('Failed to write audit log entry:', error);
+      log('error', 'audit', 'audit_write_failed', {
+        action: event.action,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Page through matching entries, newest first
+   */
+  query(filters: ValidatedAuditQuery): AuditLogPage {
+    const matches = this.findEntries(filters);
+
+    return {
+      data: matches.slice(filters.offset, filters.offset + filters.limit),
+      total: matches.length,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  }
+
+  findEntries(filters: AuditFilters): AuditEntry[] {
+    const sinceMs = filters.since?.getTime();
+    const untilMs = filters.until?.getTime();
+
+    return this.getEntriesSince(sinceMs)
+      .filter((entry) => {
+        const timestamp = new Date(entry.timestamp).getTime();
+        if (sinceMs !== undefined && timestamp < sinceMs) return false;
+        if (untilMs !== undefined && timestamp > untilMs) return false;
+        if (filters.action && !entry.action.startsWith(filters.action)) return false;
+        if (filters.actor && entry.actor !== filters.actor) return false;
+        if (filters.result && entry.result !== filters.result) return false;
+        return true;
+      })
+      .reverse();
+  }
+
+  /**
+   * Serialize matching entries, oldest first so an export can be re-verified
+   */
+  exportEntries(filters: AuditFilters, format: HistoryExportFormat): string {
+    const entries = this.findEntries(filters).reverse();
+
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    return toCsv(
+      entries.map((entry) => ({ ...entry, details: entry.details ? JSON.stringify(entry.details) : undefined })),
+      EXPORT_COLUMNS
+    );
+  }
+
+  /**
+   * Re-read the segments and the current file and check the hash chain across them
+   */
+  verify(): AuditChainStatus {
+    let head = AUDIT_GENESIS_HEAD;
+    let count = 0;
+
+    for (const filePath of [...this.getSegmentPaths(), this.filePath]) {
+      const entries = readJsonLines<AuditEntry>(filePath);
+      const status = verifyAuditChain(entries, head);
+      count += status.entries;
+
+      if (!status.valid) {
+        return { ...status, entries: count };
+      }
+
+      const last = entries[entries.length - 1];
+      head = last ? { seq: last.seq, hash: last.hash } : head;
+    }
+
+    return { valid: true, entries: count, headHash: head.hash };
+  }
+
+  private getEntries(): AuditEntry[] {
+    if (!this.entries) {
+      this.entries = readJsonLines<AuditEntry>(this.filePath);
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * The current file, preceded by as many segments (newest first) as needed to reach
+   * back to `sinceMs`; every segment without it
+   */
+  private getEntriesSince(sinceMs: number | undefined): AuditEntry[] {
+    const chunks = [this.getEntries()];
+    const segments = this.getSegmentPaths();
+
+    for (let index = segments.length - 1; index >= 0; index--) {
+      const oldest = chunks[0][0];
+      if (oldest && sinceMs !== undefined && new Date(oldest.timestamp).getTime() < sinceMs) break;
+
+      chunks.unshift(readJsonLines<AuditEntry>(segments[index]));
+    }
+
+    return chunks.flat();
+  }
+
+  /**
+   * The entry the next one links to: the last of the current file, else of the newest segment
+   */
+  private getHead(): AuditChainHead {
+    if (!this.head) {
+      const segments = this.getSegmentPaths();
+      const last = this.getEntries()[this.getEntries().length - 1]
+        ?? (segments.length > 0 ? readJsonLines<AuditEntry>(segments[segments.length - 1]).pop() : undefined);
+
+      this.head = last ? { seq: last.seq, hash: last.hash } : AUDIT_GENESIS_HEAD;
+    }
+
+    return this.head;
+  }
+
+  /**
+   * Rotated segments, oldest first
+   */
+  private getSegmentPaths(): string[] {
+    return listDataFiles(SEGMENT_FILE_PATTERN)
+      .map((fileName) => ({ fileName, firstSeq: Number(SEGMENT_FILE_PATTERN.exec(fileName)?.[1]) }))
+      .sort((a, b) => a.firstSeq - b.firstSeq)
+      .map((segment) => resolveDataPath(segment.fileName));
+  }
+
+  private rotate(entries: AuditEntry[]): void {
+    const firstSeq = entries[0].seq;
+    const lastSeq = entries[entries.length - 1].seq;
+
+    renameDataFile(this.filePath, resolveDataPath(`audit-log-${firstSeq}-${lastSeq}.jsonl`));
+    this.entries = [];
+    log('info', 'audit', 'audit_segment_rotated', { firstSeq, lastSeq });
+  }
+}
+
+// Singleton instance
+export const auditLogService = new AuditLogService();
@@ -1,11 +1,29 @@
+import { randomUUID } from 'crypto';
 import * as bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
 import { JwtPayload } from 'jsonwebtoken';
 import { loadSecurityConfig } from '../config/security.config';
+import { DashboardRole } from '../types';
+import { AuditResult } from '../types';
+import { readIntegerEnv } from '../utils/env.util';
+import { DASHBOARD_ROLES } from '../utils/request-validation.util';
+import { auditLogService } from './audit-log.service';
+import { dashboardUserService } from './dashboard-user.service';
+import { LoginClient, loginSessionService } from './login-session.service';
+import { twoFactorService } from './two-factor.service';
 
 const securityConfig = loadSecurityConfig();
 const JWT_SECRET = securityConfig.jwtSecret;
-const JWT_EXPIRY = '1h';
+const TOKEN_TTL_SECONDS = 60 * 60;
+// Tokens used in their second half are replaced, so an active dashboard stays logged in
+const TOKEN_REFRESH_WINDOW_SECONDS = 30 * 60;
+// Refreshing never extends a login past this age; then the user logs in again
+const MAX_LOGIN_AGE_MS = readIntegerEnv('DASHBOARD_SESSION_MAX_HOURS', 24, { min: 1, max: 720 }) * 60 * 60 * 1000;
+// Time to enter the authenticator code after the password was accepted
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa_challenge';
+// Wrong codes allowed per challenge before the password step has to be repeated
+const TWO_FACTOR_CHALLENGE_MAX_FAILURES = 5;
 export const DASHBOARD_TOKEN_COOKIE = 'wa_dashboard_token';
 
 const DASHBOARD_USERNAME = securityConfig.dashboardUsername;
@@ -14,7 +32,37 @@ const BCRYPT_ROUNDS = securityConfig.bcryptRounds;
 
 export interface DashboardTokenPayload extends JwtPayload {
   username: string;
-  role: 'admin';
+  role: DashboardRole;
+  /** Login session id in the server-side registry */
+  jti: string;
+}
+
+export interface LoginResult {
+  success: boolean;
+  token?: string;
+  /** Set instead of `token` when the user still has to enter a two-factor code */
+  challengeToken?: string;
+  error?: string;
+}
+
+function shouldUseSecureCookie(): boolean {
+  return process.env.NODE_ENV === 'production' || process.env.APP_ENV === 'production' || process.env.APP_ENV === 'staging';
+}
+
+export function buildDashboardCookie(token: string, maxAgeSeconds: number): string {
+  const parts = [
+    `${DASHBOARD_TOKEN_COOKIE}=${encodeURIComponent(token)}`,
+    'HttpOnly',
+    'SameSite=Strict',
+    'Path=/',
+    `Max-Age=${maxAgeSeconds}`,
+  ];
+
+  if (shouldUseSecureCookie()) {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
 }
 
 export function getCookieValue(cookieHeader: string | undefined, name: string): string | undefined {
@@ -49,6 +97,15 @@ const loginAttempts: Map<string, LoginAttempt> = new Map();
 const MAX_ATTEMPTS = 5;
 const LOCK_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 
+// Open two-factor challenges by jti; each can complete one login
+interface TwoFactorChallenge {
+  username: string;
+  failures: number;
+  expiresAt: number;
+}
+
+const twoFactorChallenges: Map<string, TwoFactorChallenge> = new Map();
+
 /**
  * Auth Service for Dashboard
  */
@@ -60,6 +117,14 @@ class AuthService {
     this.passwordHash = bcrypt.hashSync(DASHBOARD_PASSWORD, BCRYPT_ROUNDS);
   }
 
+  /**
+   * Revoke dashboard logins issued before JWT_SECRET or DASHBOARD_PASSWORD changed.
+   * Called once at startup.
+   */
+  revokeRotatedLogins(): void {
+    loginSessionService.revokeOnCredentialRotation(JWT_SECRET, DASHBOARD_USERNAME, DASHBOARD_PASSWORD, BCRYPT_ROUNDS);
+  }
+
   /**
    * Check if IP is locked out
    */
@@ -90,13 +155,21 @@ class AuthService {
   /**
    * Record failed login attempt
    */
-  recordFailedAttempt(ip: string): void {
+  recordFailedAttempt(ip: string, username?: string): void {
     const attempt = loginAttempts.get(ip) || { count: 0, lastAttempt: new Date() };
     attempt.count++;
     attempt.lastAttempt = new Date();
     
     if (attempt.count >= MAX_ATTEMPTS) {
       attempt.lockedUntil = new Date(Date.now() + LOCK_DURATION_MS);
+      auditLogService.record({
+        actor: username || 'unknown',
+        actorType: 'dashboard',
+        ip,
+        action: 'auth.lockout',
+        result: 'failure',
+        details: { attempts: attempt.count, lockedUntil: attempt.lockedUntil.toISOString() },
+      });
     }
     
     loginAttempts.set(ip, attempt);
@@ -112,38 +185,207 @@ class AuthService {
   /**
    * Validate credentials and return JWT token
    */
-  login(username: string, password: string, ip: string): { success: boolean; token?: string; error?: string } {
+  login(username: string, password: string, client: LoginClient): LoginResult {
+    const { ip } = client;
+
     // Check lockout
     if (this.isLockedOut(ip)) {
-      const remaining = this.getLockoutRemaining(ip);
-      return {
-        success: false,
-        error: `Too many failed attempts. Try again in ${Math.ceil(remaining / 60)} minutes.`
-      };
+      this.audit('auth.login', username, client, 'failure', { reason: 'locked_out' });
+      return this.getLockoutResult(ip);
     }
 
-    // Validate username
-    if (username !== DASHBOARD_USERNAME) {
-      this.recordFailedAttempt(ip);
+    // The environment user is the built-in admin; everyone else comes from the user store
+    const role = this.checkCredentials(username, password);
+
+    if (!role) {
+      this.audit('auth.login', username, client, 'failure', { reason: 'invalid_credentials' });
+      this.recordFailedAttempt(ip, username);
       return { success: false, error: 'Invalid credentials' };
     }
 
-    // Validate password
-    if (!bcrypt.compareSync(password, this.passwordHash)) {
-      this.recordFailedAttempt(ip);
-      return { success: false, error: 'Invalid credentials' };
+    // Users with two-factor authentication get a challenge for the second step instead
+    if (twoFactorService.isEnabled(username)) {
+      const challengeToken = this.startTwoFactorChallenge(username);
+
+      this.audit('auth.login_challenge', username, client, 'success');
+      return { success: true, challengeToken };
     }
 
     // Success - clear attempts and generate token
     this.clearAttempts(ip);
-    
-    const token = jwt.sign(
-      { username, role: 'admin' },
+    this.audit('auth.login', username, client, 'success', { twoFactor: false });
+    return { success: true, token: this.startLogin(username, role, client) };
+  }
+
+  /**
+   * Second login step: exchange a challenge token and a TOTP or recovery code for a JWT token
+   */
+  verifyTwoFactorLogin(challengeToken: string, code: string, client: LoginClient): LoginResult {
+    const { ip } = client;
+
+    if (this.isLockedOut(ip)) {
+      return this.getLockoutResult(ip);
+    }
+
+    let username: string;
+    let challengeId: string;
+    try {
+      const payload = jwt.verify(challengeToken, JWT_SECRET);
+      if (
+        !payload ||
+        typeof payload !== 'object' ||
+        payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE ||
+        typeof payload.username !== 'string' ||
+        typeof payload.jti !== 'string'
+      ) {
+        return { success: false, error: 'Invalid or expired login challenge' };
+      }
+      username = payload.username;
+      challengeId = payload.jti;
+    } catch (error) {
+      return { success: false, error: 'Invalid or expired login challenge' };
+    }
+
+    // Challenges are single-use, and too many wrong codes burn them
+    const challenge = twoFactorChallenges.get(challengeId);
+    if (!challenge || challenge.username !== username || challenge.expiresAt <= Date.now()) {
+      return { success: false, error: 'Invalid or expired login challenge' };
+    }
+
+    if (!twoFactorService.verify(username, code)) {
+      challenge.failures++;
+      if (challenge.failures >= TWO_FACTOR_CHALLENGE_MAX_FAILURES) {
+        twoFactorChallenges.delete(challengeId);
+      }
+
+      this.audit('auth.login', username, client, 'failure', { reason: 'invalid_two_factor_code' });
+      this.recordFailedAttempt(ip, username);
+      return { success: false, error: 'Invalid two-factor code' };
+    }
+
+    twoFactorChallenges.delete(challengeId);
+
+    // The user may have been disabled since the password step
+    const role = this.getCurrentRole(username);
+    if (!role) {
+      return { success: false, error: 'Invalid or expired login challenge' };
+    }
+
+    this.clearAttempts(ip);
+    this.audit('auth.login', username, client, 'success', { twoFactor: true });
+    return { success: true, token: this.startLogin(username, role, client) };
+  }
+
+  /**
+   * Revoke the login a token belongs to, e.g. on logout. Invalid tokens are ignored.
+   */
+  revokeToken(token: string, client: LoginClient): void {
+    const { valid, payload } = this.verifyToken(token);
+
+    if (valid && payload) {
+      loginSessionService.revoke(payload.jti, payload.username);
+      this.audit('auth.logout', payload.username, client, 'success');
+    }
+  }
+
+  /**
+   * A replacement token when `payload` is in its second half, keeping the same login
+   * session; null when no refresh is due or the login reached its maximum age
+   */
+  refreshToken(payload: DashboardTokenPayload): { token: string; expiresAt: number } | null {
+    const session = loginSessionService.getActive(payload.jti, payload.username);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    if (!session || !payload.exp || payload.exp - nowSeconds > TOKEN_REFRESH_WINDOW_SECONDS) {
+      return null;
+    }
+
+    const maxExpiresAt = Date.parse(session.createdAt) + MAX_LOGIN_AGE_MS;
+    const expiresAt = Math.min(Date.now() + TOKEN_TTL_SECONDS * 1000, maxExpiresAt);
+    if (expiresAt <= payload.exp * 1000) {
+      return null;
+    }
+
+    loginSessionService.extend(session.id, new Date(expiresAt));
+    return { token: this.signToken(payload.username, payload.role, session.id, expiresAt), expiresAt };
+  }
+
+  private audit(
+    action: string,
+    username: string,
+    client: LoginClient,
+    result: AuditResult,
+    details?: Record<string, string | boolean>
+  ): void {
+    auditLogService.record({
+      actor: username,
+      actorType: 'dashboard',
+      ip: client.ip,
+      action,
+      result,
+      correlationId: client.correlationId,
+      details,
+    });
+  }
+
+  private startTwoFactorChallenge(username: string): string {
+    const now = Date.now();
+    for (const [id, challenge] of twoFactorChallenges) {
+      if (challenge.expiresAt <= now) {
+        twoFactorChallenges.delete(id);
+      }
+    }
+
+    const challengeId = randomUUID();
+    twoFactorChallenges.set(challengeId, {
+      username,
+      failures: 0,
+      expiresAt: now + TWO_FACTOR_CHALLENGE_TTL_SECONDS * 1000,
+    });
+
+    return jwt.sign(
+      { username, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
       JWT_SECRET,
-      { expiresIn: JWT_EXPIRY }
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS, jwtid: challengeId }
+    );
+  }
+
+  private startLogin(username: string, role: DashboardRole, client: LoginClient): string {
+    const expiresAt = Date.now() + TOKEN_TTL_SECONDS * 1000;
+    const session = loginSessionService.create(username, client, new Date(expiresAt));
+
+    return this.signToken(username, role, session.id, expiresAt);
+  }
+
+  private signToken(username: string, role: DashboardRole, sessionId: string, expiresAt: number): string {
+    return jwt.sign(
+      { username, role, jti: sessionId, exp: Math.floor(expiresAt / 1000) },
+      JWT_SECRET
     );
+  }
 
-    return { success: true, token };
+  private getLockoutResult(ip: string): LoginResult {
+    const remaining = this.getLockoutRemaining(ip);
+    return {
+      success: false,
+      error: `Too many failed attempts. Try again in ${Math.ceil(remaining / 60)} minutes.`
+    };
+  }
+
+  private checkCredentials(username: string, password: string): DashboardRole | null {
+    if (username === DASHBOARD_USERNAME) {
+      return bcrypt.compareSync(password, this.passwordHash) ? 'admin' : null;
+    }
+
+    return dashboardUserService.authenticate(username, password)?.role ?? null;
+  }
+
+  private getCurrentRole(username: string): DashboardRole | null {
+    if (username === DASHBOARD_USERNAME) {
+      return 'admin';
+    }
+
+    return dashboardUserService.getActiveUser(username)?.role ?? null;
   }
 
   /**
@@ -157,12 +399,24 @@ class AuthService {
         !payload ||
         typeof payload !== 'object' ||
         typeof payload.username !== 'string' ||
-        payload.role !== 'admin'
+        typeof payload.jti !== 'string' ||
+        !DASHBOARD_ROLES.includes(payload.role)
       ) {
         return { valid: false };
       }
 
-      return { valid: true, payload: payload as DashboardTokenPayload };
+      // Logged out, revoked or issued before a password or secret change
+      if (!loginSessionService.getActive(payload.jti, payload.username)) {
+        return { valid: false };
+      }
+
+      // Role changes and disabled accounts take effect without waiting for the token to expire
+      const role = this.getCurrentRole(payload.username);
+      if (!role) {
+        return { valid: false };
+      }
+
+      return { valid: true, payload: { ...payload, role } as DashboardTokenPayload };
     } catch (error) {
       return { valid: false };
     }
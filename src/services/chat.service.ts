@@ -0,0 +1,235 @@
+import { Chat, Client, Contact, Message } from 'whatsapp-web.js';
+import { ChatMessage, ChatSummary, ContactDetails, ContactSummary } from '../types';
+import { log } from '../utils/logger.util';
+import { sessionManager } from './session-manager.service';
+import { getErrorMessage } from './whatsapp-lifecycle.util';
+import { MessageNotFoundError } from './whatsapp.service';
+
+export class ChatNotFoundError extends Error {
+  constructor(chatId: string) {
+    super(`Chat not found: ${chatId}`);
+    this.name = 'ChatNotFoundError';
+  }
+}
+
+export class ContactNotFoundError extends Error {
+  constructor(contactId: string) {
+    super(`Contact not found: ${contactId}`);
+    this.name = 'ContactNotFoundError';
+  }
+}
+
+export interface Page<T> {
+  data: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// How far back `before` may reach into a chat's history
+const MAX_HISTORY_SCAN = 1000;
+
+/**
+ * Read access to a session's chats and contacts, for building an inbox on top of the gateway
+ */
+class ChatService {
+  async listChats(sessionId: string, limit: number, offset: number): Promise<Page<ChatSummary>> {
+    return this.withClient(sessionId, 'listChats', async (client) => {
+      const chats = (await client.getChats()).sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+
+      return {
+        data: chats.slice(offset, offset + limit).map((chat) => this.toChatSummary(chat)),
+        total: chats.length,
+        limit,
+        offset,
+      };
+    });
+  }
+
+  /**
+   * Messages of a chat, oldest first. With `before` (a message id from an earlier page)
+   * only messages older than that one are returned.
+   */
+  async getMessages(sessionId: string, chatId: string, limit: number, before?: string): Promise<ChatMessage[]> {
+    return this.withClient(sessionId, 'getChatMessages', async (client) => {
+      const chat = await this.getChat(client, chatId);
+
+      for (let fetchLimit = limit; ; fetchLimit = Math.min(fetchLimit * 2, MAX_HISTORY_SCAN)) {
+        const messages = await chat.fetchMessages({ limit: before ? fetchLimit + 1 : fetchLimit });
+        const isExhausted = messages.length <= fetchLimit || fetchLimit >= MAX_HISTORY_SCAN;
+
+        if (!before) {
+          return messages.map((message) => this.toChatMessage(message));
+        }
+
+        const index = messages.findIndex((message) => message.id.id === before || message.id._serialized === before);
+        if (index >= 0 && (index >= limit || isExhausted)) {
+          return messages.slice(Math.max(0, index - limit), index).map((message) => this.toChatMessage(message));
+        }
+
+        if (isExhausted) {
+          throw new MessageNotFoundError(before);
+        }
+      }
+    });
+  }
+
+  /**
+   * Mark all messages of a chat as read
+   */
+  async markSeen(sessionId: string, chatId: string): Promise<void> {
+    await this.withClient(sessionId, 'markChatSeen', async (client) => {
+      const chat = await this.getChat(client, chatId);
+      await chat.sendSeen();
+      log('info', 'chats.seen', 'chat_marked_seen', { session: sessionId, isGroup: chat.isGroup });
+    });
+  }
+
+  /**
+   * WhatsApp users known to the session, sorted by name. `search` matches the name,
+   * push name or number.
+   */
+  async listContacts(
+    sessionId: string,
+    limit: number,
+    offset: number,
+    search?: string
+  ): Promise<Page<ContactSummary>> {
+    return this.withClient(sessionId, 'listContacts', async (client) => {
+      const query = search?.toLowerCase();
+      const contacts = (await client.getContacts())
+        .filter((contact) => contact.isUser && (contact.isMyContact || contact.isWAContact))
+        .map((contact) => this.toContactSummary(contact))
+        .filter((contact) => !query || [contact.name, contact.pushname, contact.number]
+          .some((value) => value?.toLowerCase().includes(query)))
+        .sort((a, b) => (a.name || a.pushname || a.number).localeCompare(b.name || b.pushname || b.number));
+
+      return {
+        data: contacts.slice(offset, offset + limit),
+        total: contacts.length,
+        limit,
+        offset,
+      };
+    });
+  }
+
+  async getContact(sessionId: string, contactId: string): Promise<ContactDetails> {
+    return this.withClient(sessionId, 'getContact', async (client) => {
+      let contact: Contact;
+
+      try {
+        contact = await client.getContactById(contactId);
+      } catch (error) {
+        throw new ContactNotFoundError(contactId);
+      }
+
+      if (!contact || contact.isGroup) {
+        throw new ContactNotFoundError(contactId);
+      }
+
+      // Both are hidden by the contact's privacy settings at times; that is not an error
+      const [profilePictureUrl, about] = await Promise.all([
+        contact.getProfilePicUrl().catch(() => undefined),
+        contact.getAbout().catch(() => null),
+      ]);
+
+      return {
+        ...this.toContactSummary(contact),
+        profilePictureUrl: profilePictureUrl || undefined,
+        about: about ?? undefined,
+      };
+    });
+  }
+
+  /**
+   * Run a client operation, handing transient WhatsApp Web errors to the session's reconnect logic
+   */
+  private async withClient<T>(
+    sessionId: string,
+    operation: string,
+    action: (client: Client) => Promise<T>
+  ): Promise<T> {
+    const session = sessionManager.getSession(sessionId);
+    const client = await session.getReadyClient(operation);
+
+    try {
+      return await action(client);
+    } catch (error) {
+      if (!(error instanceof ChatNotFoundError)
+        && !(error instanceof ContactNotFoundError)
+        && !(error instanceof MessageNotFoundError)) {
+        session.handleRuntimeError(error, operation);
+        log('error', 'chats', 'chat_operation_failed', {
+          session: sessionId,
+          operation,
+          errorMessage: getErrorMessage(error),
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  private async getChat(client: Client, chatId: string): Promise<Chat> {
+    let chat;
+
+    try {
+      chat = await client.getChatById(chatId);
+    } catch (error) {
+      throw new ChatNotFoundError(chatId);
+    }
+
+    if (!chat) {
+      throw new ChatNotFoundError(chatId);
+    }
+
+    return chat;
+  }
+
+  private toChatSummary(chat: Chat): ChatSummary {
+    return {
+      id: chat.id._serialized,
+      name: chat.name,
+      isGroup: chat.isGroup,
+      unreadCount: chat.unreadCount,
+      archived: chat.archived,
+      pinned: chat.pinned,
+      isMuted: chat.isMuted,
+      timestamp: chat.timestamp ? new Date(chat.timestamp * 1000).toISOString() : undefined,
+      lastMessage: chat.lastMessage ? this.toChatMessage(chat.lastMessage) : undefined,
+    };
+  }
+
+  private toChatMessage(message: Message): ChatMessage {
+    const rawData = (message.rawData || {}) as Record<string, unknown>;
+    const quotedStanzaId = typeof rawData.quotedStanzaID === 'string' ? rawData.quotedStanzaID : undefined;
+
+    return {
+      id: message.id.id,
+      chatId: message.id.remote,
+      from: message.from,
+      fromMe: message.fromMe,
+      author: message.author,
+      type: message.type,
+      body: message.body,
+      timestamp: new Date(message.timestamp * 1000).toISOString(),
+      hasMedia: message.hasMedia,
+      quotedMessageId: message.hasQuotedMsg ? quotedStanzaId : undefined,
+    };
+  }
+
+  private toContactSummary(contact: Contact): ContactSummary {
+    return {
+      id: contact.id._serialized,
+      number: contact.number,
+      name: contact.name,
+      pushname: contact.pushname,
+      isMyContact: contact.isMyContact,
+      isBusiness: contact.isBusiness,
+      isBlocked: contact.isBlocked,
+    };
+  }
+}
+
+// Singleton instance
+export const chatService = new ChatService();
@@ -0,0 +1,135 @@
+import { Response } from 'express';
+import { DashboardEvent } from '../types';
+import { formatServerSentEvent, SSE_HEARTBEAT } from '../utils/sse.util';
+
+export interface EventStreamOptions {
+  /** Close the stream at this time (epoch ms), e.g. when the dashboard token expires */
+  closeAt?: number;
+  /** Events this stream receives; all events when unset */
+  events?: DashboardEvent[];
+  /** Dashboard login the stream belongs to; revoking the login closes the stream */
+  loginSessionId?: string;
+}
+
+interface EventSubscriber {
+  res: Response;
+  sessionId: string;
+  events?: DashboardEvent[];
+  loginSessionId?: string;
+  closeTimer?: NodeJS.Timeout;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const MAX_SUBSCRIBERS = 100;
+
+export class TooManyEventStreamsError extends Error {
+  constructor() {
+    super(`Too many open event streams (max ${MAX_SUBSCRIBERS})`);
+    this.name = 'TooManyEventStreamsError';
+  }
+}
+
+/**
+ * Live dashboard updates over Server-Sent Events: session state transitions, QR codes,
+ * message history entries and delivery acks, each scoped to one session.
+ */
+class DashboardEventsService {
+  private subscribers: Set<EventSubscriber> = new Set();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private nextEventId: number = 1;
+
+  /**
+   * Attach an open SSE response. The stream is closed at `closeAt` or when its login
+   * is revoked, so the browser reconnects and has to re-authenticate.
+   * With `events` only those event types are pushed to the stream.
+   */
+  subscribe(res: Response, sessionId: string, options: EventStreamOptions = {}): void {
+    if (this.subscribers.size >= MAX_SUBSCRIBERS) {
+      throw new TooManyEventStreamsError();
+    }
+
+    const subscriber: EventSubscriber = {
+      res,
+      sessionId,
+      events: options.events,
+      loginSessionId: options.loginSessionId,
+    };
+
+    if (options.closeAt !== undefined) {
+      subscriber.closeTimer = setTimeout(() => res.end(), Math.max(0, options.closeAt - Date.now()));
+    }
+
+    this.subscribers.add(subscriber);
+    res.on('close', () => this.unsubscribe(subscriber));
+    this.startHeartbeat();
+  }
+
+  /**
+   * Push an event to every stream watching the session
+   */
+  publish<T extends object>(sessionId: string, event: DashboardEvent, data: T): void {
+    if (this.subscribers.size === 0) return;
+
+    const message = formatServerSentEvent(event, data, this.nextEventId++);
+    for (const subscriber of this.subscribers) {
+      if (subscriber.sessionId === sessionId && (!subscriber.events || subscriber.events.includes(event))) {
+        subscriber.res.write(message);
+      }
+    }
+  }
+
+  /**
+   * Send an event to a single stream, e.g. the current state right after connecting
+   */
+  send<T extends object>(res: Response, event: DashboardEvent, data: T): void {
+    res.write(formatServerSentEvent(event, data, this.nextEventId++));
+  }
+
+  /**
+   * Close the streams opened with these dashboard logins, after logout or revocation
+   */
+  closeLoginSessions(loginSessionIds: string[]): void {
+    for (const subscriber of [...this.subscribers]) {
+      if (subscriber.loginSessionId && loginSessionIds.includes(subscriber.loginSessionId)) {
+        subscriber.res.end();
+        this.unsubscribe(subscriber);
+      }
+    }
+  }
+
+  /**
+   * Close every stream on shutdown
+   */
+  stop(): void {
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.res.end();
+      this.unsubscribe(subscriber);
+    }
+  }
+
+  private unsubscribe(subscriber: EventSubscriber): void {
+    if (subscriber.closeTimer) {
+      clearTimeout(subscriber.closeTimer);
+    }
+
+    this.subscribers.delete(subscriber);
+
+    if (this.subscribers.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const subscriber of this.subscribers) {
+        subscriber.res.write(SSE_HEARTBEAT);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+}
+
+// Singleton instance
+export const dashboardEventsService = new DashboardEventsService();
@@ -0,0 +1,187 @@
+import * as bcrypt from 'bcryptjs';
+import { randomUUID } from 'crypto';
+import { loadSecurityConfig } from '../config/security.config';
+import { DashboardRole, DashboardUserRecord, DashboardUserView } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import {
+  DASHBOARD_ROLES,
+  ValidatedDashboardUserRequest,
+  ValidatedDashboardUserUpdate,
+} from '../utils/request-validation.util';
+import { loginSessionService } from './login-session.service';
+
+const { dashboardUsername, bcryptRounds } = loadSecurityConfig();
+
+export class DashboardUserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Dashboard user not found: ${id}`);
+    this.name = 'DashboardUserNotFoundError';
+  }
+}
+
+/**
+ * A user change that conflicts with existing users, e.g. a taken username
+ */
+export class DashboardUserConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DashboardUserConflictError';
+  }
+}
+
+interface DashboardUserFile {
+  users: DashboardUserRecord[];
+}
+
+/**
+ * Whether `role` includes the permissions of `required`
+ */
+export function hasDashboardRole(role: DashboardRole, required: DashboardRole): boolean {
+  return DASHBOARD_ROLES.indexOf(role) >= DASHBOARD_ROLES.indexOf(required);
+}
+
+/**
+ * Dashboard users with roles, stored with bcrypt password hashes.
+ * DASHBOARD_USERNAME from the environment is a built-in admin and is not part of the store.
+ */
+class DashboardUserService {
+  private users: Map<string, DashboardUserRecord> | null = null;
+  private readonly filePath = resolveDataPath('dashboard-users.json');
+
+  /**
+   * The enabled user with these credentials, or null
+   */
+  authenticate(username: string, password: string): DashboardUserRecord | null {
+    const user = this.getActiveUser(username);
+
+    if (!user || !bcrypt.compareSync(password, user.passwordHash)) {
+      return null;
+    }
+
+    user.lastLoginAt = new Date().toISOString();
+    this.persist();
+    return user;
+  }
+
+  /**
+   * The enabled user with this username; tokens of disabled or deleted users stop working
+   */
+  getActiveUser(username: string): DashboardUserRecord | undefined {
+    const user = this.findByUsername(username);
+    return user && !user.disabled ? user : undefined;
+  }
+
+  listUsers(): DashboardUserView[] {
+    return [...this.getUsers().values()]
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .map((user) => this.toView(user));
+  }
+
+  getUser(id: string): DashboardUserView {
+    return this.toView(this.getRecord(id));
+  }
+
+  createUser(request: ValidatedDashboardUserRequest): DashboardUserView {
+    if (this.isUsernameTaken(request.username)) {
+      throw new DashboardUserConflictError(`Username already exists: ${request.username}`);
+    }
+
+    const user: DashboardUserRecord = {
+      id: randomUUID(),
+      username: request.username,
+      role: request.role,
+      passwordHash: bcrypt.hashSync(request.password, bcryptRounds),
+      disabled: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.getUsers().set(user.id, user);
+    this.persist();
+
+    return this.toView(user);
+  }
+
+  /**
+   * Change a user's role or enabled state. Users cannot change their own account,
+   * so an admin cannot lock themselves out by accident.
+   */
+  updateUser(id: string, changes: ValidatedDashboardUserUpdate, actingUsername?: string): DashboardUserView {
+    const user = this.getRecord(id);
+
+    if (user.username === actingUsername) {
+      throw new DashboardUserConflictError('You cannot change the role or status of your own account');
+    }
+
+    const roleChanged = changes.role !== undefined && changes.role !== user.role;
+    if (changes.role !== undefined) user.role = changes.role;
+    if (changes.disabled !== undefined) user.disabled = changes.disabled;
+    user.updatedAt = new Date().toISOString();
+
+    // Open logins and event streams keep the old role, so they end with it
+    this.persist();
+    if (user.disabled || roleChanged) {
+      loginSessionService.revokeAll(user.username);
+    }
+    return this.toView(user);
+  }
+
+  resetPassword(id: string, password: string): DashboardUserView {
+    const user = this.getRecord(id);
+
+    user.passwordHash = bcrypt.hashSync(password, bcryptRounds);
+    user.updatedAt = new Date().toISOString();
+
+    // Logins made with the old password end now
+    this.persist();
+    loginSessionService.revokeAll(user.username);
+    return this.toView(user);
+  }
+
+  private getRecord(id: string): DashboardUserRecord {
+    const user = this.getUsers().get(id);
+    if (!user) {
+      throw new DashboardUserNotFoundError(id);
+    }
+
+    return user;
+  }
+
+  private findByUsername(username: string): DashboardUserRecord | undefined {
+    return [...this.getUsers().values()].find((user) => user.username === username);
+  }
+
+  private isUsernameTaken(username: string): boolean {
+    const normalized = username.toLowerCase();
+
+    return normalized === dashboardUsername.toLowerCase()
+      || [...this.getUsers().values()].some((user) => user.username.toLowerCase() === normalized);
+  }
+
+  private getUsers(): Map<string, DashboardUserRecord> {
+    if (!this.users) {
+      const data = readJsonFile<DashboardUserFile>(this.filePath, { users: [] });
+      this.users = new Map(data.users.map((user) => [user.id, user]));
+    }
+
+    return this.users;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { users: [...this.getUsers().values()] });
+  }
+
+  private toView(user: DashboardUserRecord): DashboardUserView {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      disabled: user.disabled,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      lastLoginAt: user.lastLoginAt,
+    };
+  }
+}
+
+// Singleton instance
+export const dashboardUserService = new DashboardUserService();
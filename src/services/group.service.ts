@@ -0,0 +1,186 @@
+import { Client, GroupChat } from 'whatsapp-web.js';
+import { GroupActionResult, GroupParticipantResult, GroupSummary } from '../types';
+import { log } from '../utils/logger.util';
+import { toChatId } from '../utils/phone.util';
+import { sessionManager } from './session-manager.service';
+import { getErrorMessage } from './whatsapp-lifecycle.util';
+
+export class GroupNotFoundError extends Error {
+  constructor(groupId: string) {
+    super(`Group not found: ${groupId}`);
+    this.name = 'GroupNotFoundError';
+  }
+}
+
+/**
+ * WhatsApp refused a group action, e.g. because the account is not a group admin
+ */
+export class GroupActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GroupActionError';
+  }
+}
+
+type ParticipantChange = 'add' | 'remove' | 'promote' | 'demote';
+
+// Per-participant result of createGroup/addParticipants; 200 means added
+interface ParticipantStatus {
+  code?: number;
+  statusCode?: number;
+  message?: string;
+}
+
+/**
+ * Group listing and management on top of a session's WhatsApp client.
+ * Participants are phone numbers already normalized by the request validators.
+ */
+class GroupService {
+  async listGroups(sessionId: string): Promise<GroupSummary[]> {
+    return this.withClient(sessionId, 'listGroups', async (client) => {
+      const ownId = client.info?.wid?._serialized;
+      const chats = await client.getChats();
+
+      return chats
+        .filter((chat) => chat.isGroup)
+        .map((chat) => {
+          const group = chat as GroupChat;
+          const participants = group.participants || [];
+
+          return {
+            id: group.id._serialized,
+            name: group.name,
+            participantCount: participants.length,
+            isAdmin: participants.some((participant) =>
+              participant.id._serialized === ownId && (participant.isAdmin || participant.isSuperAdmin)
+            ),
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
+  }
+
+  async createGroup(sessionId: string, name: string, participants: string[]): Promise<GroupActionResult> {
+    return this.withClient(sessionId, 'createGroup', async (client) => {
+      const result = await client.createGroup(name, participants.map(toChatId));
+
+      if (typeof result === 'string') {
+        throw new GroupActionError(result);
+      }
+
+      const groupId = result.gid._serialized;
+      log('info', 'groups.create', 'group_created', { session: sessionId, groupId, participantCount: participants.length });
+
+      return {
+        groupId,
+        name: result.title,
+        participants: this.toParticipantResults(participants, result.participants),
+      };
+    });
+  }
+
+  async changeParticipants(
+    sessionId: string,
+    groupId: string,
+    change: ParticipantChange,
+    participants: string[]
+  ): Promise<GroupActionResult> {
+    return this.withClient(sessionId, `${change}GroupParticipants`, async (client) => {
+      const group = await this.getGroup(client, groupId);
+      const contactIds = participants.map(toChatId);
+      let results: GroupParticipantResult[];
+
+      if (change === 'add') {
+        const result = await group.addParticipants(contactIds, { autoSendInviteV4: true });
+        if (typeof result === 'string') {
+          throw new GroupActionError(result);
+        }
+
+        results = this.toParticipantResults(participants, result as unknown as Record<string, ParticipantStatus>);
+      } else {
+        const action = change === 'remove'
+          ? group.removeParticipants(contactIds)
+          : change === 'promote'
+            ? group.promoteParticipants(contactIds)
+            : group.demoteParticipants(contactIds);
+        const { status } = await action;
+
+        // These actions report one status for the whole batch
+        results = participants.map((participant) => ({ participant, success: status === 200, code: status }));
+      }
+
+      log('info', 'groups.participants', 'group_participants_changed', {
+        session: sessionId,
+        groupId,
+        change,
+        participantCount: participants.length,
+        successCount: results.filter((result) => result.success).length,
+      });
+
+      return { groupId, name: group.name, participants: results };
+    });
+  }
+
+  /**
+   * Run a client operation, handing transient WhatsApp Web errors to the session's reconnect logic
+   */
+  private async withClient<T>(
+    sessionId: string,
+    operation: string,
+    action: (client: Client) => Promise<T>
+  ): Promise<T> {
+    const session = sessionManager.getSession(sessionId);
+    const client = await session.getReadyClient(operation);
+
+    try {
+      return await action(client);
+    } catch (error) {
+      if (!(error instanceof GroupNotFoundError) && !(error instanceof GroupActionError)) {
+        session.handleRuntimeError(error, operation);
+        log('error', 'groups', 'group_operation_failed', {
+          session: sessionId,
+          operation,
+          errorMessage: getErrorMessage(error),
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  private async getGroup(client: Client, groupId: string): Promise<GroupChat> {
+    let chat;
+
+    try {
+      chat = await client.getChatById(groupId);
+    } catch (error) {
+      throw new GroupNotFoundError(groupId);
+    }
+
+    if (!chat || !chat.isGroup) {
+      throw new GroupNotFoundError(groupId);
+    }
+
+    return chat as GroupChat;
+  }
+
+  private toParticipantResults(
+    participants: string[],
+    statuses: Record<string, ParticipantStatus>
+  ): GroupParticipantResult[] {
+    return participants.map((participant) => {
+      const status = statuses[toChatId(participant)];
+      const code = status?.code ?? status?.statusCode;
+
+      return {
+        participant,
+        success: code === 200,
+        code,
+        message: status?.message,
+      };
+    });
+  }
+}
+
+// Singleton instance
+export const groupService = new GroupService();
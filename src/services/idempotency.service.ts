@@ -0,0 +1,127 @@
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+
+interface IdempotencyRecord {
+  scope: string;
+  key: string;
+  fingerprint: string;
+  statusCode?: number;
+  body?: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface IdempotencyFile {
+  records: IdempotencyRecord[];
+}
+
+export type IdempotencyBeginResult =
+  | { type: 'new' }
+  | { type: 'replay'; statusCode: number; body: unknown }
+  | { type: 'mismatch' }
+  | { type: 'in_progress' };
+
+/**
+ * Stores the first response per (API key, Idempotency-Key) so retried send requests
+ * are answered from the store instead of being queued again.
+ */
+class IdempotencyService {
+  private records: Map<string, IdempotencyRecord> | null = null;
+  private readonly filePath = resolveDataPath('idempotency.json');
+  private readonly TTL_HOURS = readIntegerEnv('IDEMPOTENCY_TTL_HOURS', 24, { min: 1, max: 720 });
+
+  /**
+   * Claim a key for a request, or report how an earlier request with the key ended
+   */
+  begin(scope: string, key: string, fingerprint: string): IdempotencyBeginResult {
+    this.pruneExpired();
+
+    const records = this.getRecords();
+    const existing = records.get(this.getRecordId(scope, key));
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return { type: 'mismatch' };
+      }
+
+      if (existing.statusCode === undefined) {
+        return { type: 'in_progress' };
+      }
+
+      return { type: 'replay', statusCode: existing.statusCode, body: existing.body };
+    }
+
+    const now = Date.now();
+    // Claims are kept in memory only; a request interrupted by a restart may be retried
+    records.set(this.getRecordId(scope, key), {
+      scope,
+      key,
+      fingerprint,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+
+    return { type: 'new' };
+  }
+
+  /**
+   * Store the response of a claimed key for replay
+   */
+  complete(scope: string, key: string, statusCode: number, body: unknown): void {
+    const record = this.getRecords().get(this.getRecordId(scope, key));
+    if (!record) return;
+
+    record.statusCode = statusCode;
+    record.body = body;
+    this.persist();
+  }
+
+  /**
+   * Drop a claim without storing a response (e.g. server error) so the key can be retried
+   */
+  release(scope: string, key: string): void {
+    const recordId = this.getRecordId(scope, key);
+    const record = this.getRecords().get(recordId);
+
+    if (record && record.statusCode === undefined) {
+      this.getRecords().delete(recordId);
+    }
+  }
+
+  private getRecordId(scope: string, key: string): string {
+    return `${scope}:${key}`;
+  }
+
+  private getRecords(): Map<string, IdempotencyRecord> {
+    if (!this.records) {
+      const data = readJsonFile<IdempotencyFile>(this.filePath, { records: [] });
+      this.records = new Map(data.records.map((record) => [this.getRecordId(record.scope, record.key), record]));
+    }
+
+    return this.records;
+  }
+
+  private persist(): void {
+    const completed = [...this.getRecords().values()].filter((record) => record.statusCode !== undefined);
+    writeJsonFile(this.filePath, { records: completed });
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    let removed = false;
+
+    for (const [recordId, record] of this.getRecords()) {
+      if (new Date(record.expiresAt).getTime() <= now) {
+        this.getRecords().delete(recordId);
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      this.persist();
+    }
+  }
+}
+
+// Singleton instance
+export const idempotencyService = new IdempotencyService();
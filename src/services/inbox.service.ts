@@ -0,0 +1,85 @@
+import { InboxMessage } from '../types';
+import { appendJsonLine, readJsonLines, resolveDataPath, writeJsonLines } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { ValidatedInboxQuery } from '../utils/request-validation.util';
+
+export interface InboxPage {
+  data: InboxMessage[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Inbound message store backed by an append-only JSON Lines file.
+ * The file is compacted once it grows past the configured retention size.
+ */
+class InboxService {
+  private messages: InboxMessage[] | null = null;
+  private readonly filePath = resolveDataPath('inbox.jsonl');
+  private readonly MAX_MESSAGES = readIntegerEnv('INBOX_MAX_MESSAGES', 10000, { min: 100, max: 1000000 });
+  private readonly RETENTION_DAYS = readIntegerEnv('INBOX_RETENTION_DAYS', 30, { min: 1, max: 3650 });
+
+  /**
+   * Store an inbound message
+   */
+  add(message: InboxMessage): void {
+    const messages = this.getMessages();
+    messages.push(message);
+    appendJsonLine(this.filePath, message);
+
+    // Allow some slack before compacting so the file is not rewritten on every message
+    if (messages.length > this.MAX_MESSAGES * 1.1) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Page through stored messages, newest first
+   */
+  query(filters: ValidatedInboxQuery): InboxPage {
+    const sinceMs = filters.since?.getTime();
+    const untilMs = filters.until?.getTime();
+
+    const matches = this.getMessages().filter((message) => {
+      const timestamp = new Date(message.timestamp).getTime();
+      if (sinceMs !== undefined && timestamp < sinceMs) return false;
+      if (untilMs !== undefined && timestamp > untilMs) return false;
+      if (filters.session && message.sessionId !== filters.session) return false;
+      if (filters.chatId && message.chatId !== filters.chatId) return false;
+      return true;
+    });
+
+    matches.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return {
+      data: matches.slice(filters.offset, filters.offset + filters.limit),
+      total: matches.length,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  }
+
+  private getMessages(): InboxMessage[] {
+    if (!this.messages) {
+      this.messages = readJsonLines<InboxMessage>(this.filePath);
+      // Rewrite on load to drop expired entries and any torn trailing line
+      this.compact();
+    }
+
+    return this.messages;
+  }
+
+  private compact(): void {
+    const cutoff = Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const retained = (this.messages || [])
+      .filter((message) => new Date(message.receivedAt).getTime() >= cutoff)
+      .slice(-this.MAX_MESSAGES);
+
+    this.messages = retained;
+    writeJsonLines(this.filePath, retained);
+  }
+}
+
+// Singleton instance
+export const inboxService = new InboxService();
@@ -0,0 +1,189 @@
+import * as bcrypt from 'bcryptjs';
+import { createHmac, randomUUID } from 'crypto';
+import { LoginSessionRecord } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { log } from '../utils/logger.util';
+import { dashboardEventsService } from './dashboard-events.service';
+
+// lastSeenAt is informational, so it is written at most once a minute per login
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+export class LoginSessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Login session not found: ${id}`);
+    this.name = 'LoginSessionNotFoundError';
+  }
+}
+
+export interface LoginClient {
+  ip: string;
+  userAgent?: string;
+  correlationId?: string;
+}
+
+interface LoginSessionFile {
+  /** HMAC of a fixed value with JWT_SECRET, to notice when the secret rotates */
+  secretCheck?: string;
+  /** bcrypt hash of DASHBOARD_PASSWORD, to notice when the built-in admin's password changes */
+  adminPasswordHash?: string;
+  sessions: LoginSessionRecord[];
+}
+
+/**
+ * Server-side registry of dashboard logins. A JWT is only accepted while its `jti` is
+ * registered here, so logging out, "log out everywhere" and password changes revoke
+ * tokens before they expire.
+ */
+class LoginSessionService {
+  private data: LoginSessionFile | null = null;
+  private readonly filePath = resolveDataPath('login-sessions.json');
+
+  create(username: string, client: LoginClient, expiresAt: Date): LoginSessionRecord {
+    const now = new Date().toISOString();
+    const session: LoginSessionRecord = {
+      id: randomUUID(),
+      username,
+      ip: client.ip,
+      userAgent: client.userAgent?.slice(0, 256),
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    this.pruneExpired();
+    this.getData().sessions.push(session);
+    this.persist();
+
+    return session;
+  }
+
+  /**
+   * The registered, unexpired login with this id belonging to `username`. Marks it as seen.
+   */
+  getActive(id: string, username: string): LoginSessionRecord | undefined {
+    const session = this.getData().sessions.find((entry) => entry.id === id);
+
+    if (!session || session.username !== username || Date.parse(session.expiresAt) <= Date.now()) {
+      return undefined;
+    }
+
+    if (Date.now() - Date.parse(session.lastSeenAt) >= LAST_SEEN_WRITE_INTERVAL_MS) {
+      session.lastSeenAt = new Date().toISOString();
+      this.persist();
+    }
+
+    return session;
+  }
+
+  /**
+   * Move the expiry forward after a token refresh
+   */
+  extend(id: string, expiresAt: Date): void {
+    const session = this.getData().sessions.find((entry) => entry.id === id);
+
+    if (session) {
+      session.expiresAt = expiresAt.toISOString();
+      this.persist();
+    }
+  }
+
+  /**
+   * Active logins of a user, most recently used first
+   */
+  list(username: string): LoginSessionRecord[] {
+    const now = Date.now();
+
+    return this.getData().sessions
+      .filter((session) => session.username === username && Date.parse(session.expiresAt) > now)
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  /**
+   * Revoke one login of a user
+   */
+  revoke(id: string, username: string): void {
+    const data = this.getData();
+    const index = data.sessions.findIndex((session) => session.id === id && session.username === username);
+
+    if (index === -1) {
+      throw new LoginSessionNotFoundError(id);
+    }
+
+    data.sessions.splice(index, 1);
+    this.persist();
+    dashboardEventsService.closeLoginSessions([id]);
+  }
+
+  /**
+   * Revoke every login of a user; returns how many were revoked
+   */
+  revokeAll(username: string): number {
+    const data = this.getData();
+    const remaining = data.sessions.filter((session) => session.username !== username);
+    const revoked = data.sessions.length - remaining.length;
+
+    if (revoked > 0) {
+      const revokedIds = data.sessions.filter((session) => session.username === username).map((session) => session.id);
+      data.sessions = remaining;
+      this.persist();
+      dashboardEventsService.closeLoginSessions(revokedIds);
+      log('info', 'auth.sessions', 'login_sessions_revoked', { userId: username, count: revoked });
+    }
+
+    return revoked;
+  }
+
+  /**
+   * Revoke logins issued under credentials that have changed since the last start:
+   * every login when JWT_SECRET rotated, the built-in admin's logins when
+   * DASHBOARD_PASSWORD changed
+   */
+  revokeOnCredentialRotation(jwtSecret: string, adminUsername: string, adminPassword: string, bcryptRounds: number): void {
+    const data = this.getData();
+    const secretCheck = createHmac('sha256', jwtSecret).update('login-sessions').digest('hex');
+    let changed = false;
+
+    if (data.secretCheck !== secretCheck) {
+      if (data.secretCheck && data.sessions.length > 0) {
+        console.log(`🔑 JWT_SECRET changed, revoked ${data.sessions.length} dashboard login(s)`);
+        log('warn', 'auth.sessions', 'jwt_secret_rotated', { count: data.sessions.length });
+      }
+      data.sessions = [];
+      data.secretCheck = secretCheck;
+      changed = true;
+    }
+
+    if (!data.adminPasswordHash || !bcrypt.compareSync(adminPassword, data.adminPasswordHash)) {
+      if (data.adminPasswordHash && this.revokeAll(adminUsername) > 0) {
+        console.log('🔑 DASHBOARD_PASSWORD changed, revoked the built-in admin\'s dashboard logins');
+      }
+      data.adminPasswordHash = bcrypt.hashSync(adminPassword, bcryptRounds);
+      changed = true;
+    }
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    const data = this.getData();
+    data.sessions = data.sessions.filter((session) => Date.parse(session.expiresAt) > now);
+  }
+
+  private getData(): LoginSessionFile {
+    if (!this.data) {
+      this.data = readJsonFile<LoginSessionFile>(this.filePath, { sessions: [] });
+    }
+
+    return this.data;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, this.getData());
+  }
+}
+
+// Singleton instance
+export const loginSessionService = new LoginSessionService();
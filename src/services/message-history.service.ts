@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import { MessageHistoryEntry } from '../types';
+import { appendJsonLine, readJsonLines, resolveDataPath, writeJsonLines } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { toCsv } from '../utils/csv.util';
+import { HistoryExportFormat, ValidatedHistoryQuery } from '../utils/request-validation.util';
+
+const COMPACT_INTERVAL_MS = 60 * 60 * 1000;
+const EXPORT_COLUMNS: readonly (keyof MessageHistoryEntry)[] = [
+  'timestamp',
+  'sessionId',
+  'target',
+  'status',
+  'success',
+  'messageId',
+  'error',
+  'message',
+  'correlationId',
+  'userId',
+  'id',
+];
+
+export interface MessageHistoryPage {
+  data: MessageHistoryEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export type MessageHistoryFilters = Omit<ValidatedHistoryQuery, 'limit' | 'offset'>;
+
+/**
+ * Outbound send history backed by an append-only JSON Lines file, shared by all sessions.
+ * Entries older than the retention period are dropped when the file is compacted.
+ */
+class MessageHistoryService {
+  private entries: MessageHistoryEntry[] | null = null;
+  private lastCompactedAt: number = 0;
+  private readonly filePath = resolveDataPath('message-history.jsonl');
+  private readonly MAX_ENTRIES = readIntegerEnv('MESSAGE_HISTORY_MAX_ENTRIES', 100000, { min: 100, max: 10000000 });
+  private readonly RETENTION_DAYS = readIntegerEnv('MESSAGE_HISTORY_RETENTION_DAYS', 90, { min: 1, max: 3650 });
+
+  /**
+   * Record the outcome of a send attempt
+   */
+  add(entry: Omit<MessageHistoryEntry, 'id' | 'timestamp'>): MessageHistoryEntry {
+    const record: MessageHistoryEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    const entries = this.getEntries();
+    entries.push(record);
+    appendJsonLine(this.filePath, record);
+
+    // Allow some slack before compacting so the file is not rewritten on every send;
+    // the periodic pass enforces the retention period on long-running processes
+    if (entries.length > this.MAX_ENTRIES * 1.1 || Date.now() - this.lastCompactedAt > COMPACT_INTERVAL_MS) {
+      this.compact();
+    }
+
+    return record;
+  }
+
+  /**
+   * Page through matching entries, newest first.
+   * With `apiKeyId` only messages sent with that API key are included.
+   */
+  query(filters: ValidatedHistoryQuery, apiKeyId?: string): MessageHistoryPage {
+    const matches = this.findEntries(filters, apiKeyId);
+
+    return {
+      data: matches.slice(filters.offset, filters.offset + filters.limit),
+      total: matches.length,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  }
+
+  /**
+   * All matching entries, newest first, for export
+   */
+  findEntries(filters: MessageHistoryFilters, apiKeyId?: string): MessageHistoryEntry[] {
+    const sinceMs = filters.since?.getTime();
+    const untilMs = filters.until?.getTime();
+
+    // Entries are appended in time order, so reversing yields newest first
+    return this.getEntries()
+      .filter((entry) => {
+        if (apiKeyId !== undefined && entry.apiKeyId !== apiKeyId) return false;
+        const timestamp = new Date(entry.timestamp).getTime();
+        if (sinceMs !== undefined && timestamp < sinceMs) return false;
+        if (untilMs !== undefined && timestamp > untilMs) return false;
+        if (filters.session && entry.sessionId !== filters.session) return false;
+        if (filters.status && entry.status !== filters.status) return false;
+        if (filters.target && !entry.target.endsWith(filters.target)) return false;
+        if (filters.correlationId && entry.correlationId !== filters.correlationId) return false;
+        if (filters.userId && entry.userId !== filters.userId) return false;
+        return true;
+      })
+      .reverse();
+  }
+
+  /**
+   * Whether a sent message (short or serialized WhatsApp id) was sent with the API key
+   */
+  isSentByApiKey(messageId: string, apiKeyId: string): boolean {
+    // Serialized ids end with the short id: true_6281234567890@c.us_3EB0...
+    const shortId = messageId.split('_').pop();
+    return this.getEntries().some((entry) => entry.messageId === shortId && entry.apiKeyId === apiKeyId);
+  }
+
+  /**
+   * Serialize all matching entries as a CSV or JSON document
+   */
+  exportEntries(filters: MessageHistoryFilters, format: HistoryExportFormat, apiKeyId?: string): string {
+    const entries = this.findEntries(filters, apiKeyId);
+
+    return format === 'csv' ? toCsv(entries, EXPORT_COLUMNS) : JSON.stringify(entries, null, 2);
+  }
+
+  private getEntries(): MessageHistoryEntry[] {
+    if (!this.entries) {
+      this.entries = readJsonLines<MessageHistoryEntry>(this.filePath);
+      // Rewrite on load to drop expired entries and any torn trailing line
+      this.compact();
+    }
+
+    return this.entries;
+  }
+
+  private compact(): void {
+    const cutoff = Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const retained = (this.entries || [])
+      .filter((entry) => new Date(entry.timestamp).getTime() >= cutoff)
+      .slice(-this.MAX_ENTRIES);
+
+    this.entries = retained;
+    this.lastCompactedAt = Date.now();
+    writeJsonLines(this.filePath, retained);
+  }
+}
+
+// Singleton instance
+export const messageHistoryService = new MessageHistoryService();
@@ -0,0 +1,391 @@
+import { randomUUID } from 'crypto';
+import {
+  MessageJob,
+  MessageJobView,
+  MessageResponse,
+  OutboundMessage,
+  QueuedMessageContent,
+  SendMessageOptions,
+} from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { loadMediaFile, removeMediaFile, storeMediaFile } from '../utils/media-store.util';
+import { log } from '../utils/logger.util';
+import { maskTarget } from '../utils/phone.util';
+import { DEFAULT_SESSION_ID, sessionManager } from './session-manager.service';
+
+interface MessageQueueFile {
+  jobs: MessageJob[];
+}
+
+/**
+ * Durable outbound message queue.
+ *
+ * Send requests are persisted to disk and worked off one target at a time by a
+ * background dispatcher, so HTTP callers get a job id immediately and pending
+ * messages survive process restarts.
+ */
+class MessageQueueService {
+  private jobs: Map<string, MessageJob> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private isProcessing: boolean = false;
+  // Sessions that are disconnected or rate limited are skipped until this time (epoch ms)
+  private sessionRetryAt: Map<string, number> = new Map();
+  private readonly filePath = resolveDataPath('message-queue.json');
+  private readonly RETRY_DELAY_MS = readIntegerEnv('MESSAGE_QUEUE_RETRY_DELAY_MS', 30000, { min: 1000, max: 3600000 });
+  private readonly RETENTION_HOURS = readIntegerEnv('MESSAGE_QUEUE_RETENTION_HOURS', 72, { min: 1, max: 8760 });
+
+  /**
+   * Load persisted jobs and start the dispatcher
+   */
+  start(): void {
+    if (this.isRunning) return;
+
+    const jobs = this.getJobs();
+    let resumedCount = 0;
+
+    // A job left in processing was interrupted mid-run; resume it from the next unsent target
+    for (const job of jobs.values()) {
+      if (job.status === 'processing') {
+        job.status = 'queued';
+        resumedCount++;
+      }
+    }
+
+    this.pruneFinishedJobs();
+    this.persist();
+    this.isRunning = true;
+
+    const pendingCount = this.getQueueDepth();
+    if (pendingCount > 0) {
+      console.log(`📬 Message queue resumed with ${pendingCount} pending job(s) (${resumedCount} interrupted)`);
+    }
+
+    this.scheduleNext(0);
+  }
+
+  /**
+   * Stop the dispatcher; the in-flight send (if any) finishes and is persisted
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Persist a new send job and wake the dispatcher
+   */
+  enqueue(
+    sessionId: string,
+    targets: string[],
+    content: QueuedMessageContent,
+    options: SendMessageOptions = {}
+  ): MessageJob {
+    const now = new Date().toISOString();
+    const id = randomUUID();
+    const job: MessageJob = {
+      id,
+      sessionId,
+      status: 'queued',
+      targets,
+      message: content.text,
+      messages: content.targetTexts,
+      media: content.media ? storeMediaFile(id, content.media) : undefined,
+      rich: content.rich,
+      linkPreview: content.linkPreview,
+      quotedMessageId: content.quotedMessageId,
+      mentions: content.mentions,
+      results: [],
+      correlationId: options.correlationId,
+      userId: options.userId,
+      apiKeyId: options.apiKeyId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getJobs().set(job.id, job);
+    this.persist();
+
+    log('info', 'message_queue.enqueue', 'job_queued', {
+      correlationId: job.correlationId,
+      jobId: job.id,
+      session: sessionId,
+      targetCount: targets.length,
+      userId: job.userId,
+    });
+
+    if (this.isRunning && !this.isProcessing) {
+      this.scheduleNext(0);
+    }
+
+    return job;
+  }
+
+  /**
+   * Get the public status view of a job. With `apiKeyId` only jobs queued by that key are found.
+   */
+  getJobView(id: string, apiKeyId?: string): MessageJobView | null {
+    const job = this.getJobs().get(id);
+    return job && (apiKeyId === undefined || job.apiKeyId === apiKeyId) ? this.toJobView(job) : null;
+  }
+
+  /**
+   * Number of jobs still waiting to be fully sent
+   */
+  getQueueDepth(): number {
+    let depth = 0;
+    for (const job of this.getJobs().values()) {
+      if (job.status === 'queued' || job.status === 'processing') {
+        depth++;
+      }
+    }
+
+    return depth;
+  }
+
+  private getJobs(): Map<string, MessageJob> {
+    if (!this.jobs) {
+      const data = readJsonFile<MessageQueueFile>(this.filePath, { jobs: [] });
+      // Jobs queued before multi-session support belong to the default session
+      this.jobs = new Map(data.jobs.map((job) => [job.id, { ...job, sessionId: job.sessionId || DEFAULT_SESSION_ID }]));
+    }
+
+    return this.jobs;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { jobs: [...this.getJobs().values()] });
+  }
+
+  private isPending(job: MessageJob): boolean {
+    return job.status === 'queued' || job.status === 'processing';
+  }
+
+  private findNextJob(now: number = Date.now()): MessageJob | undefined {
+    // Map preserves insertion order, so this is FIFO by creation time within each session
+    for (const job of this.getJobs().values()) {
+      if (this.isPending(job) && (this.sessionRetryAt.get(job.sessionId) || 0) <= now) {
+        return job;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Schedule the next dispatch: after minDelayMs when a job is runnable now,
+   * otherwise when the earliest deferred session may be retried.
+   */
+  private scheduleNext(minDelayMs: number): void {
+    const now = Date.now();
+
+    if (this.findNextJob(now)) {
+      this.schedule(minDelayMs);
+      return;
+    }
+
+    let wakeAt: number | null = null;
+    for (const job of this.getJobs().values()) {
+      if (!this.isPending(job)) continue;
+
+      const retryAt = this.sessionRetryAt.get(job.sessionId) || now;
+      wakeAt = wakeAt === null ? retryAt : Math.min(wakeAt, retryAt);
+    }
+
+    if (wakeAt === null) {
+      this.clearTimer();
+      return;
+    }
+
+    this.schedule(Math.max(minDelayMs, wakeAt - now));
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.processNext();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async processNext(): Promise<void> {
+    if (!this.isRunning || this.isProcessing) return;
+
+    const job = this.findNextJob();
+    if (!job) {
+      this.pruneFinishedJobs();
+      this.scheduleNext(0);
+      return;
+    }
+
+    this.isProcessing = true;
+    let nextDelay = 0;
+
+    try {
+      const target = job.targets[job.results.length];
+
+      if (!sessionManager.hasSession(job.sessionId)) {
+        this.failRemainingTargets(job, `Session not found: ${job.sessionId}`);
+        return;
+      }
+
+      const session = sessionManager.getSession(job.sessionId);
+      this.updateJob(job, { status: 'processing' });
+
+      const result = await session.sendMessage(target, this.loadContent(job, job.results.length), {
+        correlationId: job.correlationId,
+        userId: job.userId,
+        apiKeyId: job.apiKeyId,
+      });
+
+      if (this.shouldDeferResult(result)) {
+        // Not-ready and session-wide throttling results are retried later instead of being recorded as final
+        const retryAt = result.retryAt ? new Date(result.retryAt).getTime() : Date.now() + this.RETRY_DELAY_MS;
+        this.sessionRetryAt.set(job.sessionId, retryAt);
+        this.updateJob(job, { status: 'queued', lastError: result.message });
+        return;
+      }
+
+      this.sessionRetryAt.delete(job.sessionId);
+
+      job.results.push(result);
+      job.lastError = undefined;
+
+      if (job.results.length >= job.targets.length) {
+        this.finishJob(job);
+      } else {
+        this.updateJob(job, { status: 'processing' });
+      }
+
+      nextDelay = session.getMessageDelay();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown queue error';
+      console.error('❌ Message queue dispatch failed:', error);
+      this.sessionRetryAt.set(job.sessionId, Date.now() + this.RETRY_DELAY_MS);
+      this.updateJob(job, { status: 'queued', lastError: message });
+    } finally {
+      this.isProcessing = false;
+
+      if (this.isRunning) {
+        this.scheduleNext(nextDelay);
+      }
+    }
+  }
+
+  /**
+   * Record an error for every unsent target, e.g. when the job's session was deleted
+   */
+  private failRemainingTargets(job: MessageJob, message: string): void {
+    for (const target of job.targets.slice(job.results.length)) {
+      job.results.push({
+        success: false,
+        status: 'error',
+        message,
+        target,
+      });
+    }
+
+    this.finishJob(job);
+  }
+
+  /**
+   * Per-recipient limits come without `retryAt` and are recorded as the target's result,
+   * so one recipient cannot hold up the rest of the queue
+   */
+  private shouldDeferResult(result: MessageResponse): boolean {
+    return result.status === 'disconnected' || (result.status === 'rate_limited' && !!result.retryAt);
+  }
+
+  private finishJob(job: MessageJob): void {
+    const sentCount = job.results.filter((result) => result.success).length;
+    const now = new Date().toISOString();
+
+    // Message content is only needed until the last target is sent
+    job.message = '';
+    job.messages = undefined;
+    if (job.media) {
+      removeMediaFile(job.media);
+    }
+    this.updateJob(job, {
+      status: sentCount > 0 ? 'completed' : 'failed',
+      completedAt: now,
+    });
+
+    log(sentCount === job.results.length ? 'info' : 'warn', 'message_queue.dispatch', 'job_finished', {
+      correlationId: job.correlationId,
+      jobId: job.id,
+      targetCount: job.targets.length,
+      sentCount,
+      userId: job.userId,
+    });
+  }
+
+  private loadContent(job: MessageJob, targetIndex: number): OutboundMessage {
+    const text = job.messages?.[targetIndex] ?? job.message;
+    const content: OutboundMessage = {
+      text,
+      rich: job.rich,
+      linkPreview: job.linkPreview,
+      quotedMessageId: job.quotedMessageId,
+      mentions: job.mentions,
+    };
+
+    return job.media ? { ...content, media: loadMediaFile(job.media) } : content;
+  }
+
+  private updateJob(job: MessageJob, changes: Partial<MessageJob>): void {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.persist();
+  }
+
+  private pruneFinishedJobs(): void {
+    const cutoff = Date.now() - this.RETENTION_HOURS * 60 * 60 * 1000;
+    const jobs = this.getJobs();
+    let removed = false;
+
+    for (const [id, job] of jobs) {
+      if (job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+        jobs.delete(id);
+        removed = true;
+      }
+    }
+
+    if (removed) {
+      this.persist();
+    }
+  }
+
+  private toJobView(job: MessageJob): MessageJobView {
+    const sent = job.results.filter((result) => result.success).length;
+
+    return {
+      id: job.id,
+      session: job.sessionId,
+      status: job.status,
+      total: job.targets.length,
+      processed: job.results.length,
+      sent,
+      failed: job.results.length - sent,
+      results: job.results.map((result) => ({
+        ...result,
+        target: result.target === undefined ? undefined : maskTarget(result.target),
+      })),
+      correlationId: job.correlationId,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+      lastError: job.lastError,
+    };
+  }
+}
+
+// Singleton instance
+export const messageQueueService = new MessageQueueService();
@@ -0,0 +1,84 @@
+import { MessageResponse } from '../types';
+import { Histogram, MetricFamily, MetricSample, renderPrometheusText } from '../utils/prometheus.util';
+
+// Sends include the 1-3 second typing simulation, so buckets start around one second
+const SEND_DURATION_BUCKETS_SECONDS = [0.5, 1, 2, 3, 5, 10, 30, 60];
+
+/**
+ * In-process counters for the Prometheus `/metrics` endpoint.
+ * Values reset when the process restarts, which Prometheus `rate()` handles.
+ */
+class MetricsService {
+  private messages: Map<string, { sessionId: string; status: string; count: number }> = new Map();
+  private sendDurations: Map<string, Histogram> = new Map();
+  private reconnects: Map<string, number> = new Map();
+  private initializeRetries: Map<string, number> = new Map();
+
+  /**
+   * Record the outcome of one send attempt
+   */
+  recordSend(sessionId: string, status: MessageResponse['status'], durationMs: number): void {
+    const key = `${sessionId}\u0000${status}`;
+    const entry = this.messages.get(key) || { sessionId, status, count: 0 };
+    entry.count++;
+    this.messages.set(key, entry);
+
+    let histogram = this.sendDurations.get(sessionId);
+    if (!histogram) {
+      histogram = new Histogram(SEND_DURATION_BUCKETS_SECONDS);
+      this.sendDurations.set(sessionId, histogram);
+    }
+    histogram.observe(durationMs / 1000);
+  }
+
+  recordReconnect(sessionId: string): void {
+    this.reconnects.set(sessionId, (this.reconnects.get(sessionId) || 0) + 1);
+  }
+
+  recordInitializeRetry(sessionId: string): void {
+    this.initializeRetries.set(sessionId, (this.initializeRetries.get(sessionId) || 0) + 1);
+  }
+
+  /**
+   * Render the recorded counters together with point-in-time gauges
+   */
+  render(gauges: MetricFamily[]): string {
+    return renderPrometheusText([
+      {
+        name: 'wa_gateway_messages_total',
+        help: 'Send attempts by session and result status',
+        type: 'counter',
+        samples: [...this.messages.values()].map((entry) => ({
+          labels: { session: entry.sessionId, status: entry.status },
+          value: entry.count,
+        })),
+      },
+      {
+        name: 'wa_gateway_send_duration_seconds',
+        help: 'Duration of send attempts including the typing simulation',
+        type: 'histogram',
+        samples: [...this.sendDurations].flatMap(([sessionId, histogram]) => histogram.toSamples({ session: sessionId })),
+      },
+      {
+        name: 'wa_gateway_reconnects_total',
+        help: 'Reconnects scheduled after a disconnect or runtime error',
+        type: 'counter',
+        samples: this.toSessionSamples(this.reconnects),
+      },
+      {
+        name: 'wa_gateway_initialize_retries_total',
+        help: 'Client initialization retries after transient WhatsApp Web errors',
+        type: 'counter',
+        samples: this.toSessionSamples(this.initializeRetries),
+      },
+      ...gauges,
+    ]);
+  }
+
+  private toSessionSamples(counts: Map<string, number>): MetricSample[] {
+    return [...counts].map(([sessionId, value]) => ({ labels: { session: sessionId }, value }));
+  }
+}
+
+// Singleton instance
+export const metricsService = new MetricsService();
@@ -0,0 +1,61 @@
+import { Client } from 'whatsapp-web.js';
+import { NumberCheckResult } from '../types';
+import { readIntegerEnv } from '../utils/env.util';
+import { toChatId } from '../utils/phone.util';
+
+interface CachedLookup {
+  result: NumberCheckResult;
+  expiresAt: number;
+}
+
+/**
+ * WhatsApp registration lookups with an in-memory TTL cache.
+ * Registration does not depend on the session, so all sessions share the cache.
+ */
+class NumberLookupService {
+  private cache: Map<string, CachedLookup> = new Map();
+  private readonly CACHE_TTL_MINUTES = readIntegerEnv('NUMBER_CHECK_CACHE_TTL_MINUTES', 1440, { min: 0, max: 43200 });
+  private readonly MAX_CACHE_ENTRIES = readIntegerEnv('NUMBER_CHECK_CACHE_MAX_ENTRIES', 10000, { min: 100, max: 1000000 });
+
+  /**
+   * Whether an E.164 phone number is on WhatsApp, answered from the cache when fresh
+   */
+  async lookup(client: Client, phoneNumber: string): Promise<NumberCheckResult> {
+    const cached = this.cache.get(phoneNumber);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const contactId = await client.getNumberId(toChatId(phoneNumber));
+    const result: NumberCheckResult = {
+      number: phoneNumber,
+      registered: !!contactId,
+      whatsappId: contactId?._serialized,
+      checkedAt: new Date().toISOString(),
+    };
+
+    this.remember(result);
+    return result;
+  }
+
+  private remember(result: NumberCheckResult): void {
+    if (this.CACHE_TTL_MINUTES === 0) return;
+
+    // Re-inserting keeps the Map ordered by last lookup, so the first key is the oldest
+    this.cache.delete(result.number);
+    this.cache.set(result.number, {
+      result,
+      expiresAt: Date.now() + this.CACHE_TTL_MINUTES * 60 * 1000,
+    });
+
+    if (this.cache.size > this.MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const numberLookupService = new NumberLookupService();
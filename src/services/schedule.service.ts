@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import {
+  MessageSchedule,
+  MessageScheduleView,
+  QueuedMessageContent,
+  ScheduleFailedEventData,
+  SendMessageOptions,
+} from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { log } from '../utils/logger.util';
+import { maskTarget } from '../utils/phone.util';
+import { loadMediaFile, removeMediaFile, storeMediaFile } from '../utils/media-store.util';
+import { ValidatedSchedule } from '../utils/request-validation.util';
+import { getNextCronRun } from '../utils/schedule.util';
+import { apiKeyService } from './api-key.service';
+import { messageQueueService } from './message-queue.service';
+import { webhookService } from './webhook.service';
+import { getErrorMessage } from './whatsapp-lifecycle.util';
+
+interface ScheduleFile {
+  schedules: MessageSchedule[];
+}
+
+// setTimeout overflows above ~24.8 days; waking up hourly also picks up clock changes
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * One-off (`sendAt`) and recurring (cron) sends.
+ *
+ * Schedules are persisted; when one is due its message is handed to the message
+ * queue, so sends get the same readiness, daily limit and delay handling as
+ * immediate requests.
+ */
+class ScheduleService {
+  private schedules: Map<string, MessageSchedule> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private readonly filePath = resolveDataPath('schedules.json');
+
+  /**
+   * Load persisted schedules and start the timer; runs missed while the gateway
+   * was down fire once on start
+   */
+  start(): void {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    const count = this.getSchedules().size;
+    if (count > 0) {
+      console.log(`⏰ Loaded ${count} message schedule(s)`);
+    }
+
+    this.runDueSchedules();
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.clearTimer();
+  }
+
+  createSchedule(
+    sessionId: string,
+    targets: string[],
+    content: QueuedMessageContent,
+    schedule: ValidatedSchedule,
+    options: SendMessageOptions = {}
+  ): MessageSchedule {
+    const id = randomUUID();
+    const record: MessageSchedule = {
+      id,
+      type: schedule.type,
+      status: 'active',
+      sessionId,
+      sendAt: schedule.type === 'once' ? schedule.sendAt.toISOString() : undefined,
+      cron: schedule.type === 'recurring' ? schedule.cron : undefined,
+      timezone: schedule.type === 'recurring' ? schedule.timezone : undefined,
+      targets,
+      message: content.text,
+      messages: content.targetTexts,
+      media: content.media ? storeMediaFile(`schedule-${id}`, content.media) : undefined,
+      rich: content.rich,
+      linkPreview: content.linkPreview,
+      quotedMessageId: content.quotedMessageId,
+      mentions: content.mentions,
+      correlationId: options.correlationId,
+      userId: options.userId,
+      apiKeyId: options.apiKeyId,
+      nextRunAt: (schedule.type === 'once' ? schedule.sendAt : schedule.nextRunAt).toISOString(),
+      runCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.getSchedules().set(id, record);
+    this.persist();
+
+    log('info', 'schedule.create', 'schedule_created', {
+      correlationId: record.correlationId,
+      scheduleId: id,
+      session: sessionId,
+      type: record.type,
+      nextRunAt: record.nextRunAt,
+      targetCount: targets.length,
+      userId: record.userId,
+    });
+
+    if (this.isRunning) {
+      this.scheduleNext();
+    }
+
+    return record;
+  }
+
+  /**
+   * List schedules, next run first. With `apiKeyId` only that key's schedules are
+   * included; without it (admin) all are.
+   */
+  listSchedules(apiKeyId?: string): MessageScheduleView[] {
+    return [...this.getSchedules().values()]
+      .filter((schedule) => this.isVisibleTo(schedule, apiKeyId))
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+      .map((schedule) => this.toView(schedule));
+  }
+
+  getScheduleView(id: string, apiKeyId?: string): MessageScheduleView | null {
+    const schedule = this.getSchedules().get(id);
+    return schedule && this.isVisibleTo(schedule, apiKeyId) ? this.toView(schedule) : null;
+  }
+
+  /**
+   * Cancel a schedule; jobs it already queued are not affected.
+   * With `apiKeyId` only that key's schedules can be cancelled.
+   */
+  deleteSchedule(id: string, apiKeyId?: string): boolean {
+    const schedule = this.getSchedules().get(id);
+    if (!schedule || !this.isVisibleTo(schedule, apiKeyId)) return false;
+
+    this.remove(schedule);
+    this.persist();
+
+    if (this.isRunning) {
+      this.scheduleNext();
+    }
+
+    return true;
+  }
+
+  private getSchedules(): Map<string, MessageSchedule> {
+    if (!this.schedules) {
+      const data = readJsonFile<ScheduleFile>(this.filePath, { schedules: [] });
+      this.schedules = new Map(data.schedules.map((schedule) => [schedule.id, schedule]));
+    }
+
+    return this.schedules;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { schedules: [...this.getSchedules().values()] });
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+
+    let nextRunAt: number | null = null;
+    for (const schedule of this.getSchedules().values()) {
+      if (schedule.status !== 'active') continue;
+
+      const runAt = new Date(schedule.nextRunAt).getTime();
+      nextRunAt = nextRunAt === null ? runAt : Math.min(nextRunAt, runAt);
+    }
+
+    if (nextRunAt === null) return;
+
+    const delay = Math.min(Math.max(nextRunAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runDueSchedules();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private runDueSchedules(): void {
+    if (!this.isRunning) return;
+
+    const now = Date.now();
+    let changed = false;
+
+    for (const schedule of [...this.getSchedules().values()]) {
+      if (schedule.status === 'active' && new Date(schedule.nextRunAt).getTime() <= now) {
+        this.run(schedule);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.persist();
+    }
+
+    this.scheduleNext();
+  }
+
+  private run(schedule: MessageSchedule): void {
+    // Revoking or letting a key expire ends its schedules too
+    if (schedule.apiKeyId && !apiKeyService.isActive(schedule.apiKeyId)) {
+      this.recordFailure(schedule, 'The API key that created this schedule was revoked or has expired', true);
+      return;
+    }
+
+    try {
+      // Charged per run, so a recurring schedule cannot send past the key's daily quota
+      if (schedule.apiKeyId) {
+        apiKeyService.consumeDailyQuota(schedule.apiKeyId, schedule.targets.length);
+      }
+
+      const job = messageQueueService.enqueue(
+        schedule.sessionId,
+        schedule.targets,
+        {
+          text: schedule.message,
+          targetTexts: schedule.messages,
+          media: schedule.media ? loadMediaFile(schedule.media) : undefined,
+          rich: schedule.rich,
+          linkPreview: schedule.linkPreview,
+          quotedMessageId: schedule.quotedMessageId,
+          mentions: schedule.mentions,
+        },
+        { correlationId: schedule.correlationId, userId: schedule.userId, apiKeyId: schedule.apiKeyId }
+      );
+
+      schedule.lastRunAt = new Date().toISOString();
+      schedule.lastJobId = job.id;
+      schedule.lastError = undefined;
+      schedule.runCount++;
+
+      log('info', 'schedule.run', 'schedule_fired', {
+        correlationId: schedule.correlationId,
+        scheduleId: schedule.id,
+        jobId: job.id,
+        session: schedule.sessionId,
+        runCount: schedule.runCount,
+      });
+    } catch (error) {
+      // A broken schedule (e.g. missing media file) or a used-up quota must not block the others
+      this.recordFailure(schedule, getErrorMessage(error), schedule.type === 'once');
+    }
+
+    if (schedule.type === 'once' || !schedule.cron || !schedule.timezone) {
+      if (schedule.status === 'active') {
+        this.remove(schedule);
+      }
+      return;
+    }
+
+    try {
+      // Computed from now so runs missed during downtime are skipped rather than replayed
+      schedule.nextRunAt = getNextCronRun(schedule.cron, schedule.timezone).toISOString();
+    } catch (error) {
+      this.recordFailure(schedule, getErrorMessage(error), true);
+    }
+  }
+
+  /**
+   * Keep the failure on the schedule and send it to `schedule.failed` webhooks.
+   * With `stop` the schedule gets status `failed` and no longer runs.
+   */
+  private recordFailure(schedule: MessageSchedule, errorMessage: string, stop: boolean): void {
+    schedule.lastError = errorMessage;
+    schedule.lastFailedAt = new Date().toISOString();
+    if (stop) {
+      schedule.status = 'failed';
+    }
+
+    log('error', 'schedule.run', 'schedule_failed', {
+      correlationId: schedule.correlationId,
+      scheduleId: schedule.id,
+      errorMessage,
+      stopped: stop,
+    });
+
+    webhookService.dispatch<ScheduleFailedEventData>('schedule.failed', {
+      session: schedule.sessionId,
+      scheduleId: schedule.id,
+      type: schedule.type,
+      targets: schedule.targets.map(maskTarget),
+      error: errorMessage,
+      willRunAgain: !stop,
+      correlationId: schedule.correlationId,
+    });
+  }
+
+  private remove(schedule: MessageSchedule): void {
+    this.getSchedules().delete(schedule.id);
+
+    if (schedule.media) {
+      removeMediaFile(schedule.media);
+    }
+  }
+
+  private isVisibleTo(schedule: MessageSchedule, apiKeyId: string | undefined): boolean {
+    return apiKeyId === undefined || schedule.apiKeyId === apiKeyId;
+  }
+
+  private toView(schedule: MessageSchedule): MessageScheduleView {
+    return {
+      id: schedule.id,
+      type: schedule.type,
+      status: schedule.status,
+      session: schedule.sessionId,
+      sendAt: schedule.sendAt,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      targets: schedule.targets.map(maskTarget),
+      message: schedule.message,
+      media: schedule.media
+        ? { mimetype: schedule.media.mimetype, filename: schedule.media.filename, size: schedule.media.size }
+        : undefined,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt,
+      lastJobId: schedule.lastJobId,
+      lastError: schedule.lastError,
+      lastFailedAt: schedule.lastFailedAt,
+      runCount: schedule.runCount,
+      createdAt: schedule.createdAt,
+    };
+  }
+}
+
+// Singleton instance
+export const scheduleService = new ScheduleService();
@@ -0,0 +1,207 @@
+import { SessionRecord, SessionSummary, WhatsAppLogoutResult } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { throttleService } from './throttle.service';
+import { WhatsAppService } from './whatsapp.service';
+import { isTransientWhatsAppInjectionError } from './whatsapp-lifecycle.util';
+
+export const DEFAULT_SESSION_ID = 'default';
+// Installations from before multi-session support stored credentials under session-wa-gateway
+const LEGACY_DEFAULT_CLIENT_ID = 'wa-gateway';
+
+export class SessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class SessionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionConflictError';
+  }
+}
+
+interface SessionFile {
+  sessions: SessionRecord[];
+}
+
+/**
+ * Registry of WhatsApp sessions (one linked number each).
+ * Session records are persisted so every session is started again after a restart.
+ */
+class SessionManager {
+  private records: Map<string, SessionRecord> | null = null;
+  private services: Map<string, WhatsAppService> = new Map();
+  private readonly filePath = resolveDataPath('sessions.json');
+  private readonly MAX_SESSIONS = readIntegerEnv('MAX_SESSIONS', 10, { min: 1, max: 100 });
+
+  hasSession(sessionId: string): boolean {
+    return this.getRecords().has(sessionId);
+  }
+
+  /**
+   * Get the service for a session, creating its client on first use
+   */
+  getSession(sessionId: string = DEFAULT_SESSION_ID): WhatsAppService {
+    const record = this.getRecords().get(sessionId);
+    if (!record) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    let service = this.services.get(sessionId);
+    if (!service) {
+      service = new WhatsAppService(record.id, record.clientId);
+      this.services.set(sessionId, service);
+    }
+
+    return service;
+  }
+
+  listSessions(): SessionSummary[] {
+    return [...this.getRecords().keys()].map((sessionId) => this.getSessionSummary(sessionId));
+  }
+
+  getSessionSummary(sessionId: string): SessionSummary {
+    const service = this.getSession(sessionId);
+    const record = this.getRecords().get(sessionId) as SessionRecord;
+    const state = service.getConnectionState();
+    const usage = service.getDailyUsage();
+
+    return {
+      id: record.id,
+      label: record.label,
+      state: service.getWAState(),
+      isConnected: state.isConnected,
+      isReady: !!state.isReady,
+      phoneNumber: state.phoneNumber,
+      hasQR: !!service.getQRCode(),
+      dailyMessageCount: usage.count,
+      dailyMessageLimit: usage.limit,
+      throttle: throttleService.getStatus(sessionId),
+      createdAt: record.createdAt,
+    };
+  }
+
+  /**
+   * Register a new session and start linking it (QR becomes available shortly after)
+   */
+  createSession(sessionId: string, label?: string): SessionSummary {
+    const records = this.getRecords();
+
+    if (records.has(sessionId)) {
+      throw new SessionConflictError(`Session already exists: ${sessionId}`);
+    }
+
+    if (records.size >= this.MAX_SESSIONS) {
+      throw new SessionConflictError(`Session limit reached (${this.MAX_SESSIONS})`);
+    }
+
+    const clientIdInUse = [...records.values()].some((record) => record.clientId === sessionId);
+    if (clientIdInUse) {
+      throw new SessionConflictError(`Session id is reserved: ${sessionId}`);
+    }
+
+    records.set(sessionId, {
+      id: sessionId,
+      clientId: sessionId,
+      label,
+      createdAt: new Date().toISOString(),
+    });
+    this.persist();
+
+    this.startSession(sessionId);
+    return this.getSessionSummary(sessionId);
+  }
+
+  /**
+   * Initialize a session's client in the background
+   */
+  startSession(sessionId: string): void {
+    const service = this.getSession(sessionId);
+
+    service.initialize().catch((error) => {
+      console.error(`Failed to initialize WhatsApp session ${sessionId}:`, error);
+    });
+  }
+
+  async logoutSession(sessionId: string): Promise<WhatsAppLogoutResult> {
+    return this.getSession(sessionId).logout();
+  }
+
+  /**
+   * Log out, destroy and forget a session, including its stored credentials
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    if (sessionId === DEFAULT_SESSION_ID) {
+      throw new SessionConflictError('The default session cannot be deleted');
+    }
+
+    const service = this.getSession(sessionId);
+    this.getRecords().delete(sessionId);
+    this.services.delete(sessionId);
+    this.persist();
+    throttleService.removeSession(sessionId);
+
+    await service.deleteSession();
+  }
+
+  /**
+   * Start every registered session; used on server start
+   */
+  initializeAll(): void {
+    for (const sessionId of this.getRecords().keys()) {
+      this.startSession(sessionId);
+    }
+  }
+
+  async destroyAll(): Promise<void> {
+    await Promise.all([...this.services.values()].map((service) => service.destroy()));
+  }
+
+  /**
+   * Process-level errors cannot be attributed to one browser, so every session gets
+   * the chance to reconnect; sessions that are already ready skip re-initialization.
+   */
+  handleRuntimeError(error: unknown, source: string): boolean {
+    if (!isTransientWhatsAppInjectionError(error)) {
+      return false;
+    }
+
+    for (const service of this.services.values()) {
+      service.handleRuntimeError(error, source);
+    }
+
+    return true;
+  }
+
+  private getRecords(): Map<string, SessionRecord> {
+    if (!this.records) {
+      const data = readJsonFile<SessionFile>(this.filePath, { sessions: [] });
+      this.records = new Map(data.sessions.map((record) => [record.id, record]));
+
+      if (!this.records.has(DEFAULT_SESSION_ID)) {
+        // Insert first so the default session stays at the top of listings
+        this.records = new Map([
+          [DEFAULT_SESSION_ID, {
+            id: DEFAULT_SESSION_ID,
+            clientId: LEGACY_DEFAULT_CLIENT_ID,
+            createdAt: new Date().toISOString(),
+          }],
+          ...this.records,
+        ]);
+        this.persist();
+      }
+    }
+
+    return this.records;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { sessions: [...this.getRecords().values()] });
+  }
+}
+
+// Singleton instance
+export const sessionManager = new SessionManager();
@@ -0,0 +1,144 @@
+import { SuppressionEntry, SuppressionSource } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readBooleanEnv, readListEnv } from '../utils/env.util';
+import { log } from '../utils/logger.util';
+import { SuppressionImportRow, ValidatedSuppressionQuery } from '../utils/request-validation.util';
+
+const OPT_OUT_KEYWORDS_ENABLED = readBooleanEnv('OPT_OUT_KEYWORDS_ENABLED', true);
+const OPT_OUT_KEYWORDS = readListEnv('OPT_OUT_KEYWORDS', ['STOP', 'BERHENTI', 'UNSUBSCRIBE'])
+  .map((keyword) => keyword.toUpperCase());
+const OPT_OUT_REPLY = process.env.OPT_OUT_REPLY?.trim() || undefined;
+
+export class SuppressionNotFoundError extends Error {
+  constructor(number: string) {
+    super(`Number is not suppressed: ${number}`);
+    this.name = 'SuppressionNotFoundError';
+  }
+}
+
+interface SuppressionFile {
+  suppressions: SuppressionEntry[];
+}
+
+export interface SuppressionPage {
+  data: SuppressionEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SuppressionAddResult {
+  added: SuppressionEntry[];
+  /** Numbers that were already suppressed; their entries are left unchanged */
+  existing: string[];
+}
+
+/**
+ * The opt-out keyword an inbound message consists of, ignoring case, surrounding
+ * whitespace and punctuation ("Stop!" matches STOP, "please stop" does not)
+ */
+export function matchOptOutKeyword(body: string, keywords: readonly string[]): string | undefined {
+  const normalized = body.replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, '').toUpperCase();
+  return keywords.find((keyword) => keyword === normalized);
+}
+
+/**
+ * Numbers that opted out of messages. Sends to them fail with status `suppressed`
+ * before any limit is counted; the list is shared by all sessions.
+ */
+class SuppressionService {
+  private entries: Map<string, SuppressionEntry> | null = null;
+  private readonly filePath = resolveDataPath('suppressions.json');
+
+  isSuppressed(number: string): boolean {
+    return this.getEntries().has(number);
+  }
+
+  /**
+   * Page through suppressed numbers, most recent first
+   */
+  list(filters: ValidatedSuppressionQuery): SuppressionPage {
+    const matches = [...this.getEntries().values()]
+      .filter((entry) => !filters.source || entry.source === filters.source)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      data: matches.slice(filters.offset, filters.offset + filters.limit),
+      total: matches.length,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  }
+
+  get(number: string): SuppressionEntry {
+    const entry = this.getEntries().get(number);
+    if (!entry) {
+      throw new SuppressionNotFoundError(number);
+    }
+
+    return entry;
+  }
+
+  add(rows: SuppressionImportRow[], source: SuppressionSource, sessionId?: string): SuppressionAddResult {
+    const entries = this.getEntries();
+    const result: SuppressionAddResult = { added: [], existing: [] };
+    const now = new Date().toISOString();
+
+    for (const row of rows) {
+      if (entries.has(row.number)) {
+        result.existing.push(row.number);
+        continue;
+      }
+
+      const entry: SuppressionEntry = { number: row.number, reason: row.reason, source, sessionId, createdAt: now };
+      entries.set(entry.number, entry);
+      result.added.push(entry);
+    }
+
+    if (result.added.length > 0) {
+      this.persist();
+      log('info', 'suppression', 'numbers_suppressed', { count: result.added.length, source, session: sessionId });
+    }
+
+    return result;
+  }
+
+  remove(number: string): void {
+    if (!this.getEntries().delete(number)) {
+      throw new SuppressionNotFoundError(number);
+    }
+
+    this.persist();
+    log('info', 'suppression', 'number_unsuppressed');
+  }
+
+  /**
+   * The configured opt-out keyword an inbound message matches, if keyword handling is on
+   */
+  matchOptOutKeyword(body: string): string | undefined {
+    return OPT_OUT_KEYWORDS_ENABLED ? matchOptOutKeyword(body, OPT_OUT_KEYWORDS) : undefined;
+  }
+
+  /**
+   * Confirmation sent to a number that opted out by keyword (OPT_OUT_REPLY), if any
+   */
+  getOptOutReply(): string | undefined {
+    return OPT_OUT_REPLY;
+  }
+
+  private getEntries(): Map<string, SuppressionEntry> {
+    if (!this.entries) {
+      const data = readJsonFile<SuppressionFile>(this.filePath, { suppressions: [] });
+      this.entries = new Map(data.suppressions.map((entry) => [entry.number, entry]));
+    }
+
+    return this.entries;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { suppressions: [...this.getEntries().values()] });
+  }
+}
+
+// Singleton instance
+export const suppressionService = new SuppressionService();
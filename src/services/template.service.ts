@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { MessageTemplate } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { ValidatedTemplateRequest } from '../utils/request-validation.util';
+import { extractTemplateVariables } from '../utils/template.util';
+
+export class TemplateNotFoundError extends Error {
+  constructor(reference: string) {
+    super(`Template not found: ${reference}`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+export class TemplateConflictError extends Error {
+  constructor(name: string) {
+    super(`Template name already in use: ${name}`);
+    this.name = 'TemplateConflictError';
+  }
+}
+
+interface TemplateFile {
+  templates: MessageTemplate[];
+}
+
+/**
+ * Named message templates with {{variable}} placeholders
+ */
+class TemplateService {
+  private templates: Map<string, MessageTemplate> | null = null;
+  private readonly filePath = resolveDataPath('templates.json');
+
+  listTemplates(): MessageTemplate[] {
+    return [...this.getTemplates().values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find a template by id or name
+   */
+  findTemplate(reference: string): MessageTemplate | undefined {
+    const templates = this.getTemplates();
+    const byId = templates.get(reference);
+    if (byId) return byId;
+
+    for (const template of templates.values()) {
+      if (template.name === reference) {
+        return template;
+      }
+    }
+
+    return undefined;
+  }
+
+  getTemplate(reference: string): MessageTemplate {
+    const template = this.findTemplate(reference);
+    if (!template) {
+      throw new TemplateNotFoundError(reference);
+    }
+
+    return template;
+  }
+
+  createTemplate(request: ValidatedTemplateRequest): MessageTemplate {
+    this.assertNameAvailable(request.name);
+
+    const now = new Date().toISOString();
+    const template: MessageTemplate = {
+      id: randomUUID(),
+      name: request.name,
+      body: request.body,
+      variables: extractTemplateVariables(request.body),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getTemplates().set(template.id, template);
+    this.persist();
+    return template;
+  }
+
+  updateTemplate(reference: string, changes: Partial<ValidatedTemplateRequest>): MessageTemplate {
+    const template = this.getTemplate(reference);
+
+    if (changes.name !== undefined && changes.name !== template.name) {
+      this.assertNameAvailable(changes.name);
+      template.name = changes.name;
+    }
+
+    if (changes.body !== undefined) {
+      template.body = changes.body;
+      template.variables = extractTemplateVariables(changes.body);
+    }
+
+    template.updatedAt = new Date().toISOString();
+    this.persist();
+    return template;
+  }
+
+  deleteTemplate(reference: string): void {
+    const template = this.getTemplate(reference);
+    this.getTemplates().delete(template.id);
+    this.persist();
+  }
+
+  private assertNameAvailable(name: string): void {
+    for (const template of this.getTemplates().values()) {
+      if (template.name === name) {
+        throw new TemplateConflictError(name);
+      }
+    }
+  }
+
+  private getTemplates(): Map<string, MessageTemplate> {
+    if (!this.templates) {
+      const data = readJsonFile<TemplateFile>(this.filePath, { templates: [] });
+      this.templates = new Map(data.templates.map((template) => [template.id, template]));
+    }
+
+    return this.templates;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { templates: [...this.getTemplates().values()] });
+  }
+}
+
+// Singleton instance
+export const templateService = new TemplateService();
+
+/**
+ * Template lookup for the request validators
+ */
+export function lookupTemplateBody(reference: string): string | undefined {
+  return templateService.findTemplate(reference)?.body;
+}
@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { ThrottleStatus } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { log } from '../utils/logger.util';
+import { getDefaultScheduleTimeZone, isValidTimeZone } from '../utils/schedule.util';
+import {
+  DEFAULT_THROTTLE_RULES,
+  evaluateThrottleRules,
+  getEffectiveDailyLimit,
+  getThrottledDelay,
+  getZonedTime,
+  isSlowedDown,
+  isWithinQuietHours,
+  parseQuietHours,
+  rollThrottleState,
+  ThrottleBlock,
+  ThrottlePolicy,
+  ThrottleRule,
+  ThrottleState,
+} from '../utils/throttle.util';
+
+interface ThrottleStateFile {
+  sessions: Record<string, ThrottleState>;
+}
+
+function loadThrottlePolicy(): ThrottlePolicy {
+  const timezone = process.env.THROTTLE_TIMEZONE?.trim() || getDefaultScheduleTimeZone();
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`THROTTLE_TIMEZONE is not a valid timezone: ${timezone}`);
+  }
+
+  const quietHours = process.env.THROTTLE_QUIET_HOURS?.trim();
+  let parsedQuietHours;
+  try {
+    parsedQuietHours = quietHours ? parseQuietHours(quietHours) : undefined;
+  } catch (error) {
+    throw new Error(`THROTTLE_QUIET_HOURS: ${(error as Error).message}`);
+  }
+
+  return {
+    dailyLimit: readIntegerEnv('DAILY_MESSAGE_LIMIT', 500, { min: 1, max: 100000 }),
+    hourlyLimit: readIntegerEnv('HOURLY_MESSAGE_LIMIT', 0, { min: 0, max: 100000 }),
+    recipientDailyLimit: readIntegerEnv('RECIPIENT_DAILY_MESSAGE_LIMIT', 0, { min: 0, max: 10000 }),
+    warmupDays: readIntegerEnv('THROTTLE_WARMUP_DAYS', 0, { min: 0, max: 90 }),
+    warmupStartLimit: readIntegerEnv('THROTTLE_WARMUP_START_LIMIT', 50, { min: 1, max: 100000 }),
+    quietHours: parsedQuietHours,
+    timezone,
+    delayJitterMs: readIntegerEnv('MESSAGE_DELAY_JITTER_MS', 2000, { min: 0, max: 600000 }),
+    errorWindow: readIntegerEnv('THROTTLE_ERROR_WINDOW', 20, { min: 5, max: 1000 }),
+    errorRateThreshold: readIntegerEnv('THROTTLE_ERROR_RATE_PERCENT', 30, { min: 1, max: 100 }) / 100,
+    slowdownFactor: readIntegerEnv('THROTTLE_SLOWDOWN_FACTOR', 3, { min: 1, max: 100 }),
+  };
+}
+
+/**
+ * Anti-ban throttling: daily, hourly and per-recipient limits, warm-up of newly linked
+ * numbers, quiet hours, send jitter and slow-down on rising error rates.
+ *
+ * Counters are persisted per session so a restart does not reset the day's usage.
+ * Recipients are stored as hashes only.
+ */
+class ThrottleService {
+  private states: Map<string, ThrottleState> | null = null;
+  private readonly filePath = resolveDataPath('throttle-state.json');
+  private readonly policy = loadThrottlePolicy();
+  private readonly rules: ThrottleRule[] = DEFAULT_THROTTLE_RULES;
+
+  /**
+   * Why a send to `target` may not go out now, or null when it may
+   */
+  check(sessionId: string, target: string, now: Date = new Date()): ThrottleBlock | null {
+    const state = this.getState(sessionId, now);
+
+    return evaluateThrottleRules(this.rules, {
+      policy: this.policy,
+      state,
+      recipientKey: this.hashValue(target),
+      now,
+    });
+  }
+
+  /**
+   * Count a message that was sent
+   */
+  recordSent(sessionId: string, target: string, now: Date = new Date()): void {
+    const state = this.getState(sessionId, now);
+    const recipientKey = this.hashValue(target);
+
+    state.dailyCount++;
+    state.hourlySends.push(now.getTime());
+    state.recipients[recipientKey] = (state.recipients[recipientKey] || 0) + 1;
+    this.persist();
+  }
+
+  /**
+   * Track whether a send attempt failed, for the error-rate slow-down
+   */
+  recordOutcome(sessionId: string, failed: boolean): void {
+    const state = this.getState(sessionId);
+    const wasSlowedDown = isSlowedDown(this.policy, state);
+
+    state.recentFailures.push(failed);
+    state.recentFailures.splice(0, Math.max(0, state.recentFailures.length - this.policy.errorWindow));
+
+    const slowedDown = isSlowedDown(this.policy, state);
+    if (slowedDown !== wasSlowedDown) {
+      console.log(slowedDown
+        ? `🐢 Error rate is high, slowing down sends (session: ${sessionId})`
+        : `🐇 Error rate recovered, normal send pace (session: ${sessionId})`);
+      log(slowedDown ? 'warn' : 'info', 'throttle', slowedDown ? 'send_slowdown_started' : 'send_slowdown_ended', {
+        session: sessionId,
+      });
+    }
+
+    this.persist();
+  }
+
+  /**
+   * Note the number a session is linked to. A number linked by scanning a QR code, or
+   * one that differs from the last recorded number, starts the warm-up period.
+   */
+  recordLinkedNumber(sessionId: string, phoneNumber: string, isNewLink: boolean): void {
+    const state = this.getState(sessionId);
+    const linkedNumber = this.hashValue(phoneNumber);
+    const isNumberChanged = !!state.linkedNumber && state.linkedNumber !== linkedNumber;
+
+    if (!isNewLink && state.linkedNumber === linkedNumber) {
+      return;
+    }
+
+    if (isNewLink || isNumberChanged) {
+      state.linkedAt = new Date().toISOString();
+      if (this.policy.warmupDays > 0) {
+        console.log(`🌱 Newly linked number, warming up over ${this.policy.warmupDays} day(s) (session: ${sessionId})`);
+      }
+    }
+
+    state.linkedNumber = linkedNumber;
+    this.persist();
+  }
+
+  /**
+   * Delay before the next send of a session
+   */
+  getSendDelay(sessionId: string, baseDelayMs: number): number {
+    return getThrottledDelay(this.policy, this.getState(sessionId), baseDelayMs);
+  }
+
+  getStatus(sessionId: string, now: Date = new Date()): ThrottleStatus {
+    const state = this.getState(sessionId, now);
+    const dailyLimit = getEffectiveDailyLimit(this.policy, state, now);
+
+    return {
+      dailyCount: state.dailyCount,
+      dailyLimit,
+      hourlyCount: state.hourlySends.length,
+      hourlyLimit: this.policy.hourlyLimit || undefined,
+      isWarmingUp: dailyLimit < this.policy.dailyLimit,
+      isQuietHours: !!this.policy.quietHours
+        && isWithinQuietHours(getZonedTime(now, this.policy.timezone).minuteOfDay, this.policy.quietHours),
+      isSlowedDown: isSlowedDown(this.policy, state),
+    };
+  }
+
+  removeSession(sessionId: string): void {
+    if (this.getStates().delete(sessionId)) {
+      this.persist();
+    }
+  }
+
+  private getStates(): Map<string, ThrottleState> {
+    if (!this.states) {
+      const data = readJsonFile<ThrottleStateFile>(this.filePath, { sessions: {} });
+      this.states = new Map(Object.entries(data.sessions));
+    }
+
+    return this.states;
+  }
+
+  private getState(sessionId: string, now: Date = new Date()): ThrottleState {
+    const states = this.getStates();
+    let state = states.get(sessionId);
+
+    if (!state) {
+      state = { day: '', dailyCount: 0, hourlySends: [], recipients: {}, recentFailures: [] };
+      states.set(sessionId, state);
+    }
+
+    rollThrottleState(state, this.policy, now);
+    return state;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { sessions: Object.fromEntries(this.getStates()) });
+  }
+
+  private hashValue(value: string): string {
+    return createHash('sha256').update(value).digest('hex').substring(0, 16);
+  }
+}
+
+// Singleton instance
+export const throttleService = new ThrottleService();
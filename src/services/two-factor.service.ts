@@ -0,0 +1,231 @@
+import { loadSecurityConfig } from '../config/security.config';
+import { TwoFactorRecord, TwoFactorStatus } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { log } from '../utils/logger.util';
+import {
+  buildOtpauthUri,
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+} from '../utils/totp.util';
+
+const { requireTwoFactor } = loadSecurityConfig();
+const TOTP_ISSUER = 'WA Gateway';
+
+export class InvalidTwoFactorCodeError extends Error {
+  constructor() {
+    super('Invalid two-factor code');
+    this.name = 'InvalidTwoFactorCodeError';
+  }
+}
+
+/**
+ * A two-factor operation that does not fit the user's current enrollment,
+ * e.g. confirming a setup that was never started
+ */
+export class TwoFactorStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwoFactorStateError';
+  }
+}
+
+interface TwoFactorFile {
+  users: TwoFactorRecord[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * TOTP two-factor authentication for dashboard logins, with single-use recovery codes.
+ * Secrets are stored in DATA_FOLDER, recovery codes only as hashes.
+ */
+class TwoFactorService {
+  private records: Map<string, TwoFactorRecord> | null = null;
+  private readonly filePath = resolveDataPath('dashboard-2fa.json');
+
+  isRequired(): boolean {
+    return requireTwoFactor;
+  }
+
+  isEnabled(username: string): boolean {
+    return this.getRecords().get(username)?.enabled === true;
+  }
+
+  /**
+   * Whether the user must set up two-factor authentication before using the dashboard
+   */
+  isSetupRequired(username: string): boolean {
+    return requireTwoFactor && !this.isEnabled(username);
+  }
+
+  getStatus(username: string): TwoFactorStatus {
+    const record = this.getRecords().get(username);
+    const enabled = record?.enabled === true;
+
+    return {
+      enabled,
+      required: requireTwoFactor,
+      recoveryCodesRemaining: enabled ? record.recoveryCodeHashes.length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a new secret. Until it is confirmed with a code from the
+   * authenticator app, login keeps working without a second factor.
+   */
+  startSetup(username: string): TwoFactorSetup {
+    if (this.isEnabled(username)) {
+      throw new TwoFactorStateError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    this.getRecords().set(username, {
+      username,
+      secret,
+      enabled: false,
+      recoveryCodeHashes: [],
+      createdAt: new Date().toISOString(),
+    });
+    this.persist();
+
+    return { secret, otpauthUri: buildOtpauthUri(TOTP_ISSUER, username, secret) };
+  }
+
+  /**
+   * Finish enrollment. Returns the recovery codes, which are not shown again.
+   */
+  confirmSetup(username: string, code: string): string[] {
+    const record = this.getRecords().get(username);
+
+    if (!record || record.enabled) {
+      throw new TwoFactorStateError(record
+        ? 'Two-factor authentication is already enabled'
+        : 'Start the two-factor setup first');
+    }
+
+    if (!this.acceptTotp(record, code)) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    record.enabled = true;
+    record.enabledAt = new Date().toISOString();
+    record.recoveryCodeHashes = recoveryCodes.map(hashRecoveryCode);
+    this.persist();
+
+    console.log(`🔐 Two-factor authentication enabled for dashboard user ${username}`);
+    log('info', 'auth.2fa', 'two_factor_enabled', { userId: username });
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a login code: a TOTP code, or a recovery code, which is used up
+   */
+  verify(username: string, code: string): boolean {
+    const record = this.getRecords().get(username);
+    if (!record?.enabled) {
+      return false;
+    }
+
+    if (this.acceptTotp(record, code)) {
+      this.persist();
+      return true;
+    }
+
+    const index = record.recoveryCodeHashes.indexOf(hashRecoveryCode(code));
+    if (index === -1) {
+      return false;
+    }
+
+    record.recoveryCodeHashes.splice(index, 1);
+    this.persist();
+    log('warn', 'auth.2fa', 'recovery_code_used', {
+      userId: username,
+      remaining: record.recoveryCodeHashes.length,
+    });
+    return true;
+  }
+
+  /**
+   * Replace the recovery codes after proving possession of the second factor
+   */
+  regenerateRecoveryCodes(username: string, code: string): string[] {
+    this.requireCode(username, code);
+
+    const record = this.getRecords().get(username) as TwoFactorRecord;
+    const recoveryCodes = generateRecoveryCodes();
+    record.recoveryCodeHashes = recoveryCodes.map(hashRecoveryCode);
+    this.persist();
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off two-factor authentication after proving possession of the second factor
+   */
+  disable(username: string, code: string): void {
+    if (requireTwoFactor) {
+      throw new TwoFactorStateError('Two-factor authentication is required and cannot be disabled');
+    }
+
+    this.requireCode(username, code);
+    this.remove(username);
+  }
+
+  /**
+   * Remove a user's enrollment, e.g. when an admin resets a user who lost their phone
+   * and recovery codes
+   */
+  reset(username: string): void {
+    this.remove(username);
+  }
+
+  private requireCode(username: string, code: string): void {
+    if (!this.isEnabled(username)) {
+      throw new TwoFactorStateError('Two-factor authentication is not enabled');
+    }
+
+    if (!this.verify(username, code)) {
+      throw new InvalidTwoFactorCodeError();
+    }
+  }
+
+  private acceptTotp(record: TwoFactorRecord, code: string): boolean {
+    const step = findTotpStep(record.secret, code);
+    if (step === null || (record.lastUsedStep !== undefined && step <= record.lastUsedStep)) {
+      return false;
+    }
+
+    record.lastUsedStep = step;
+    return true;
+  }
+
+  private remove(username: string): void {
+    if (this.getRecords().delete(username)) {
+      this.persist();
+      console.log(`🔓 Two-factor authentication removed for dashboard user ${username}`);
+      log('warn', 'auth.2fa', 'two_factor_removed', { userId: username });
+    }
+  }
+
+  private getRecords(): Map<string, TwoFactorRecord> {
+    if (!this.records) {
+      const data = readJsonFile<TwoFactorFile>(this.filePath, { users: [] });
+      this.records = new Map(data.users.map((record) => [record.username, record]));
+    }
+
+    return this.records;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { users: [...this.getRecords().values()] });
+  }
+}
+
+// Singleton instance
+export const twoFactorService = new TwoFactorService();
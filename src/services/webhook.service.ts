@@ -0,0 +1,200 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { WebhookEvent, WebhookPayload, WebhookSubscription } from '../types';
+import { readJsonFile, resolveDataPath, writeJsonFile } from '../utils/data-store.util';
+import { readIntegerEnv } from '../utils/env.util';
+import { log } from '../utils/logger.util';
+import { ValidatedWebhookRequest } from '../utils/request-validation.util';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/network.util';
+import {
+  getWebhookRetryDelay,
+  signWebhookPayload,
+  WEBHOOK_ALLOW_PRIVATE_URLS,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../utils/webhook.util';
+import { getErrorMessage } from './whatsapp-lifecycle.util';
+
+interface WebhookFile {
+  subscriptions: WebhookSubscription[];
+}
+
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+/**
+ * Outbound webhook subscriptions with signed, retried delivery
+ */
+class WebhookService {
+  private subscriptions: Map<string, WebhookSubscription> | null = null;
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private readonly filePath = resolveDataPath('webhooks.json');
+  private readonly MAX_ATTEMPTS = readIntegerEnv('WEBHOOK_MAX_ATTEMPTS', 5, { min: 1, max: 20 });
+  private readonly RETRY_BASE_DELAY_MS = readIntegerEnv('WEBHOOK_RETRY_BASE_DELAY_MS', 2000, { min: 100, max: 600000 });
+  private readonly TIMEOUT_MS = readIntegerEnv('WEBHOOK_TIMEOUT_MS', 10000, { min: 1000, max: 120000 });
+
+  /**
+   * List subscriptions without their signing secrets
+   */
+  listSubscriptions(): WebhookSubscriptionView[] {
+    return [...this.getSubscriptions().values()].map((subscription) => this.toView(subscription));
+  }
+
+  /**
+   * Create a subscription; the returned object includes the signing secret
+   */
+  createSubscription(request: ValidatedWebhookRequest): WebhookSubscription {
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      url: request.url,
+      secret: request.secret || randomBytes(32).toString('hex'),
+      events: request.events,
+      description: request.description,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.getSubscriptions().set(subscription.id, subscription);
+    this.persist();
+    return subscription;
+  }
+
+  deleteSubscription(id: string): boolean {
+    const deleted = this.getSubscriptions().delete(id);
+    if (deleted) {
+      this.persist();
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Fan an event out to every subscription listening for it.
+   * Delivery happens in the background and never throws into the caller.
+   */
+  dispatch<T extends object>(event: WebhookEvent, data: T): void {
+    const targets = [...this.getSubscriptions().values()]
+      .filter((subscription) => subscription.events.includes(event));
+
+    if (targets.length === 0) return;
+
+    const payload: WebhookPayload<T> = {
+      id: randomUUID(),
+      event,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    const body = JSON.stringify(payload);
+
+    for (const subscription of targets) {
+      void this.deliver(subscription, payload, body, 1);
+    }
+  }
+
+  /**
+   * Cancel pending retries on shutdown
+   */
+  stop(): void {
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+
+    this.retryTimers.clear();
+  }
+
+  private async deliver(
+    subscription: WebhookSubscription,
+    payload: WebhookPayload<object>,
+    body: string,
+    attempt: number
+  ): Promise<void> {
+    let failure: string;
+    let isRetryable = true;
+
+    try {
+      // The host is checked again before every attempt. fetch() resolves it once more, so a host
+      // that changes its DNS answer in between is not caught; WEBHOOK_ALLOW_PRIVATE_URLS is the boundary.
+      if (!WEBHOOK_ALLOW_PRIVATE_URLS) {
+        await assertPublicUrl(subscription.url);
+      }
+
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'wa-gateway-webhook',
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Delivery': payload.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, subscription.secret),
+        },
+        body,
+        // Following a redirect would send the signed body to another URL
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        return;
+      }
+
+      failure = `HTTP ${response.status}`;
+      if (response.status >= 300 && response.status < 400) {
+        failure += ' (redirects are not followed)';
+        isRetryable = false;
+      }
+    } catch (error) {
+      failure = getErrorMessage(error);
+
+      // The host now resolves to a private address; retrying would not change that
+      isRetryable = !(error instanceof UnsafeUrlError);
+    }
+
+    if (!this.getSubscriptions().has(subscription.id)) {
+      return;
+    }
+
+    if (!isRetryable || attempt >= this.MAX_ATTEMPTS) {
+      log('error', 'webhook.deliver', 'delivery_failed', {
+        webhookId: subscription.id,
+        deliveryId: payload.id,
+        event: payload.event,
+        attempt,
+        error: failure,
+      });
+      return;
+    }
+
+    const retryDelay = getWebhookRetryDelay(attempt, this.RETRY_BASE_DELAY_MS);
+    log('warn', 'webhook.deliver', 'delivery_retry_scheduled', {
+      webhookId: subscription.id,
+      deliveryId: payload.id,
+      event: payload.event,
+      attempt,
+      retryDelayMs: retryDelay,
+      error: failure,
+    });
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      void this.deliver(subscription, payload, body, attempt + 1);
+    }, retryDelay);
+    this.retryTimers.add(timer);
+  }
+
+  private getSubscriptions(): Map<string, WebhookSubscription> {
+    if (!this.subscriptions) {
+      const data = readJsonFile<WebhookFile>(this.filePath, { subscriptions: [] });
+      this.subscriptions = new Map(data.subscriptions.map((subscription) => [subscription.id, subscription]));
+    }
+
+    return this.subscriptions;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, { subscriptions: [...this.getSubscriptions().values()] });
+  }
+
+  private toView(subscription: WebhookSubscription): WebhookSubscriptionView {
+    const { secret, ...view } = subscription;
+    return view;
+  }
+}
+
+// Singleton instance
+export const webhookService = new WebhookService();
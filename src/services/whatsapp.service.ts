@@ -1,36 +1,117 @@
-import { Client, LocalAuth, Message, WAState } from 'whatsapp-web.js';
+import {
+  Client,
+  LocalAuth,
+  Location,
+  Message,
+  MessageContent,
+  MessageId,
+  MessageMedia,
+  MessageSendOptions,
+  Poll,
+  WAState,
+} from 'whatsapp-web.js';
 import * as qrcode from 'qrcode-terminal';
 import * as QRCode from 'qrcode';
 import { randomUUID } from 'crypto';
-import { ConnectionState, MessageResponse, SendMessageOptions, WhatsAppLogoutResult } from '../types';
-import { formatPhoneNumber, PhoneNumberValidationError } from '../utils/phone.util';
+import {
+  ConnectionState,
+  DashboardStateEventData,
+  DashboardStateTransition,
+  DashboardStatus,
+  InboxMessage,
+  MessageAckEventData,
+  MessageAckStatus,
+  MessageAction,
+  MessageActionResult,
+  MessageHistoryEntry,
+  MessageResponse,
+  NumberCheckResult,
+  OutboundMessage,
+  PairingCodeResult,
+  RichMessage,
+  SendMessageOptions,
+  WhatsAppLogoutResult,
+} from '../types';
+import { formatTarget, isGroupId, maskTarget, PhoneNumberValidationError, toChatId } from '../utils/phone.util';
 import {
   createOperationContext,
+  log,
   logOperationFinish,
   logOperationStart,
+  OperationContext,
 } from '../utils/logger.util';
 import { readBooleanEnv, readIntegerEnv } from '../utils/env.util';
+import { buildVCard } from '../utils/vcard.util';
 import {
   getErrorMessage,
   isTransientWhatsAppInjectionError,
   shouldReconnectAfterDisconnect,
 } from './whatsapp-lifecycle.util';
-
-// Message log entry
-interface MessageLog {
-  timestamp: Date;
+import { webhookService } from './webhook.service';
+import { inboxService } from './inbox.service';
+import { messageHistoryService } from './message-history.service';
+import { metricsService } from './metrics.service';
+import { throttleService } from './throttle.service';
+import { dashboardEventsService } from './dashboard-events.service';
+import { auditLogService } from './audit-log.service';
+import { suppressionService } from './suppression.service';
+import { numberLookupService } from './number-lookup.service';
+
+type MessageLogEntry = Pick<MessageHistoryEntry, 'target' | 'message' | 'status' | 'success' | 'messageId' | 'error'>;
+
+// Reference kept per sent message so acks can be joined back to the request
+interface SentMessageRef {
   target: string;
-  message: string;
-  success: boolean;
-  id?: string;
-  error?: string;
+  correlationId: string;
+}
+
+/**
+ * Thrown by client operations other than sends while the session cannot be used
+ */
+export class WhatsAppNotReadyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhatsAppNotReadyError';
+  }
+}
+
+/**
+ * A pairing code cannot be requested in the session's current state
+ */
+export class PairingCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PairingCodeError';
+  }
+}
+
+export class MessageNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Message not found: ${messageId}`);
+    this.name = 'MessageNotFoundError';
+  }
 }
 
 /**
- * WhatsApp Service using whatsapp-web.js
+ * WhatsApp refused an action on a message, e.g. editing a message the session did not send
+ */
+export class MessageActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageActionError';
+  }
+}
+
+// WhatsApp replaces the pairing code every 3 minutes
+const PAIRING_CODE_INTERVAL_MS = 180000;
+
+const ACK_STATUSES: MessageAckStatus[] = ['ERROR', 'PENDING', 'SERVER', 'DEVICE', 'READ', 'PLAYED'];
+
+/**
+ * WhatsApp Service using whatsapp-web.js, one instance per linked number (session)
  * Following best practices from https://docs.wwebjs.dev/
  */
-class WhatsAppService {
+export class WhatsAppService {
   private client!: Client;
   private connectionState: ConnectionState = {
     isConnected: false,
@@ -41,8 +122,12 @@ class WhatsAppService {
   private isReady: boolean = false;
   private waState: string = 'IDLE';
   private qrCodeBase64: string | null = null;
-  private messageLogs: MessageLog[] = [];
-  private readonly MAX_LOGS = 100;
+  private pairingCode: PairingCodeResult | null = null;
+  private sentMessageRefs: Map<string, SentMessageRef> = new Map();
+  private readonly MAX_SENT_MESSAGE_REFS = 5000;
+  // Short message ids (as returned by sends and the inbox) to serialized ids
+  private messageIds: Map<string, string> = new Map();
+  private readonly MAX_MESSAGE_IDS = 5000;
   private lastReadinessLogAt: number = 0;
   private clientGeneration: number = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
@@ -50,10 +135,7 @@ class WhatsAppService {
   private isLoggingOut: boolean = false;
   private isShuttingDown: boolean = false;
 
-  // Anti-ban features
-  private dailyMessageCount: number = 0;
-  private lastResetDate: string = new Date().toDateString();
-  private readonly DAILY_MESSAGE_LIMIT = readIntegerEnv('DAILY_MESSAGE_LIMIT', 500, { min: 1, max: 100000 });
+  // Anti-ban features; limits and counters live in throttleService
   private readonly TYPING_DELAY_MIN = 1000; // 1 second
   private readonly TYPING_DELAY_MAX = 3000; // 3 seconds
   private readonly INITIALIZE_RETRIES = readIntegerEnv('WHATSAPP_INITIALIZE_RETRIES', 2, { min: 0, max: 20 });
@@ -62,8 +144,16 @@ class WhatsAppService {
   private readonly PUPPETEER_PROTOCOL_TIMEOUT_MS = readIntegerEnv('PUPPETEER_PROTOCOL_TIMEOUT_MS', 300000, { min: 1000, max: 600000 });
   private readonly CHROME_NO_SANDBOX = readBooleanEnv('CHROME_NO_SANDBOX', false);
   private readonly LOG_MESSAGE_CONTENT = readBooleanEnv('LOG_MESSAGE_CONTENT', false);
+  private readonly CHECK_NUMBER_BEFORE_SEND = readBooleanEnv('CHECK_NUMBER_BEFORE_SEND', true);
 
-  constructor() {
+  /**
+   * @param sessionId - Public session name used by the API
+   * @param clientId - LocalAuth client id; determines the auth folder `session-<clientId>`
+   */
+  constructor(
+    readonly sessionId: string,
+    private readonly clientId: string
+  ) {
     this.messageDelay = readIntegerEnv('MESSAGE_DELAY_MS', 1000, { min: 0, max: 600000 });
     this.createClient();
   }
@@ -80,7 +170,7 @@ class WhatsAppService {
     const client = new Client({
       authStrategy: new LocalAuth({
         dataPath: authFolder,
-        clientId: 'wa-gateway',
+        clientId: this.clientId,
       }),
       authTimeoutMs: this.AUTH_TIMEOUT_MS,
       puppeteer: {
@@ -121,7 +211,7 @@ class WhatsAppService {
 
       console.log('\n');
       console.log('═'.repeat(50));
-      console.log('📱 SCAN QR CODE WITH WHATSAPP');
+      console.log(`📱 SCAN QR CODE WITH WHATSAPP (session: ${this.sessionId})`);
       console.log('═'.repeat(50));
       qrcode.generate(qr, { small: true });
       console.log('═'.repeat(50));
@@ -139,7 +229,19 @@ class WhatsAppService {
       }
       
       this.connectionState.qrDisplayed = true;
-      this.waState = 'WAITING_FOR_QR_SCAN';
+      // QR codes keep rotating in the background while a pairing code is active
+      this.waState = this.getActivePairingCode() ? 'WAITING_FOR_PAIRING_CODE' : 'WAITING_FOR_QR_SCAN';
+      this.publishState('qr');
+      if (this.qrCodeBase64) {
+        dashboardEventsService.publish(this.sessionId, 'qr', { session: this.sessionId, qrCode: this.qrCodeBase64 });
+      }
+    });
+
+    // Pairing code generated (after requestPairingCode, then on every rotation)
+    client.on('code', (code: string) => {
+      if (!this.isActiveClient(generation)) return;
+
+      this.showPairingCode(code);
     });
 
     // Loading screen progress
@@ -153,8 +255,10 @@ class WhatsAppService {
     client.on('authenticated', () => {
       if (!this.isActiveClient(generation)) return;
 
-      console.log('🔐 Authentication successful!');
+      console.log(`🔐 Authentication successful! (session: ${this.sessionId})`);
       this.waState = 'AUTHENTICATED';
+      this.pairingCode = null;
+      this.publishState('authenticated');
     });
 
     // Client is ready to send/receive messages
@@ -162,6 +266,7 @@ class WhatsAppService {
       if (!this.isActiveClient(generation)) return;
 
       this.markClientReady('ready event');
+      this.publishState('ready');
     });
 
     // Authentication failure
@@ -173,6 +278,7 @@ class WhatsAppService {
       this.connectionState.isConnected = false;
       this.isReady = false;
       this.waState = 'AUTH_FAILURE';
+      this.publishState('auth_failure');
     });
 
     // State changed (CONFLICT, CONNECTED, DEPRECATED, OPENING, PAIRING, PROXYBLOCK,
@@ -180,23 +286,34 @@ class WhatsAppService {
     client.on('change_state', (state: WAState) => {
       if (!this.isActiveClient(generation)) return;
 
-      console.log(`📊 State changed: ${state}`);
+      console.log(`📊 State changed: ${state} (session: ${this.sessionId})`);
       this.waState = state;
 
       if (state !== 'CONNECTED') {
         this.connectionState.isConnected = false;
         this.isReady = false;
       }
+
+      this.publishState('change_state');
     });
 
     // Disconnected from WhatsApp
     client.on('disconnected', (reason: string) => {
       if (!this.isActiveClient(generation)) return;
 
-      console.log('📴 Disconnected:', reason);
+      console.log(`📴 Disconnected (session: ${this.sessionId}):`, reason);
       this.connectionState.isConnected = false;
       this.isReady = false;
       this.waState = 'DISCONNECTED';
+      this.publishState('disconnected');
+      auditLogService.record({
+        actor: 'whatsapp',
+        actorType: 'system',
+        action: 'whatsapp.disconnected',
+        target: this.sessionId,
+        result: 'success',
+        details: { reason },
+      });
 
       if (!shouldReconnectAfterDisconnect(reason, this.isLoggingOut, this.isShuttingDown)) {
         console.log('ℹ️ Reconnect skipped for intentional disconnect');
@@ -206,12 +323,25 @@ class WhatsAppService {
       this.scheduleReconnect(generation);
     });
 
-    // Message received (for logging/debugging)
-    client.on('message', (msg: Message) => {
+    // Message received: store in the inbox and forward to webhooks
+    client.on('message', async (msg: Message) => {
       if (!this.isActiveClient(generation)) return;
 
       if (process.env.LOG_LEVEL === 'debug') {
-        console.log(`📩 Message received from ${this.maskTarget(msg.from)}`);
+        console.log(`📩 Message received from ${maskTarget(msg.from)}`);
+      }
+
+      if (msg.isStatus || msg.broadcast) return;
+
+      this.rememberMessageId(msg.id);
+
+      try {
+        const inboxMessage = await this.toInboxMessage(msg);
+        inboxService.add(inboxMessage);
+        webhookService.dispatch('message.received', inboxMessage);
+        await this.handleOptOut(msg, inboxMessage);
+      } catch (error) {
+        console.error('❌ Failed to process inbound message:', getErrorMessage(error));
       }
     });
 
@@ -220,7 +350,7 @@ class WhatsAppService {
       if (!this.isActiveClient(generation)) return;
 
       if (msg.fromMe && process.env.LOG_LEVEL === 'debug') {
-        console.log(`📤 Message sent to ${this.maskTarget(msg.to)}`);
+        console.log(`📤 Message sent to ${maskTarget(msg.to)}`);
       }
     });
 
@@ -228,10 +358,24 @@ class WhatsAppService {
     client.on('message_ack', (msg: Message, ack: number) => {
       if (!this.isActiveClient(generation)) return;
 
+      // ack -1 is ERROR, 0 PENDING ... 4 PLAYED, hence the offset
+      const status = ACK_STATUSES[ack + 1] || 'UNKNOWN';
+
       if (process.env.LOG_LEVEL === 'debug') {
-        const ackStatus = ['ERROR', 'PENDING', 'SERVER', 'DEVICE', 'READ', 'PLAYED'];
-        console.log(`✓ Message ${msg.id.id}: ${ackStatus[ack] || ack}`);
+        console.log(`✓ Message ${msg.id.id}: ${status}`);
       }
+
+      const ref = this.sentMessageRefs.get(msg.id.id);
+      const event: MessageAckEventData = {
+        session: this.sessionId,
+        messageId: msg.id.id,
+        target: ref?.target || maskTarget(msg.to),
+        correlationId: ref?.correlationId,
+        ack,
+        status,
+      };
+      webhookService.dispatch('message.ack', event);
+      dashboardEventsService.publish(this.sessionId, 'ack', event);
     });
   }
 
@@ -278,6 +422,7 @@ class WhatsAppService {
             console.warn(
               `⚠️ WhatsApp initialization attempt ${attempt} failed with a transient Puppeteer error: ${message}`
             );
+            metricsService.recordInitializeRetry(this.sessionId);
             await this.replaceFailedClient(`initialize retry ${attempt}`);
             await this.delay(this.INITIALIZE_RETRY_DELAY_MS);
             continue;
@@ -303,38 +448,38 @@ class WhatsAppService {
    */
   async sendMessage(
     target: string,
-    message: string,
+    content: OutboundMessage,
     options: SendMessageOptions = {}
   ): Promise<MessageResponse> {
     const correlationId = options.correlationId || randomUUID();
     const context = createOperationContext('whatsapp.send_message', correlationId);
-    const targetRef = this.maskTarget(target);
-    let formattedNumber: string;
+    const targetRef = maskTarget(target);
+    let formattedTarget: string;
 
     logOperationStart(context, {
+      session: this.sessionId,
       target: targetRef,
       userId: options.userId,
     });
 
     try {
-      formattedNumber = formatPhoneNumber(target);
+      formattedTarget = formatTarget(target);
     } catch (error) {
       const messageText = error instanceof PhoneNumberValidationError
         ? error.message
         : 'Invalid phone number';
 
       this.addMessageLog({
-        timestamp: new Date(),
-        target: this.maskTarget(target),
-        message: this.getLoggedMessagePreview(message),
+        target: maskTarget(target),
+        message: this.getLoggedMessagePreview(content),
+        status: 'invalid_number',
         success: false,
         error: messageText,
-      });
+      }, correlationId, options);
 
-      logOperationFinish(context, 'failure', {
+      this.finishSendOperation(context, 'invalid_number', {
         target: targetRef,
         userId: options.userId,
-        status: 'invalid_number',
         error: messageText,
       });
 
@@ -346,13 +491,37 @@ class WhatsAppService {
       };
     }
 
+    // Opted-out numbers are refused before any limit is counted
+    if (suppressionService.isSuppressed(formattedTarget)) {
+      const messageText = 'Recipient has opted out of messages';
+
+      this.addMessageLog({
+        target: maskTarget(formattedTarget),
+        message: this.getLoggedMessagePreview(content),
+        status: 'suppressed',
+        success: false,
+        error: messageText,
+      }, correlationId, options);
+
+      this.finishSendOperation(context, 'suppressed', {
+        target: maskTarget(formattedTarget),
+        userId: options.userId,
+      });
+
+      return {
+        success: false,
+        status: 'suppressed',
+        message: messageText,
+        target: formattedTarget,
+      };
+    }
+
     const isReady = await this.refreshConnectionReadiness('sendMessage');
 
     if (!isReady) {
-      logOperationFinish(context, 'failure', {
-        target: this.maskTarget(formattedNumber),
+      this.finishSendOperation(context, 'disconnected', {
+        target: maskTarget(formattedTarget),
         userId: options.userId,
-        status: 'disconnected',
         state: this.waState,
       });
 
@@ -364,36 +533,63 @@ class WhatsAppService {
     }
 
     try {
-      // whatsapp-web.js format: number@c.us
-      const chatId = `${formattedNumber}@c.us`;
-
-      // Reset daily counter if new day
-      const today = new Date().toDateString();
-      if (this.lastResetDate !== today) {
-        this.dailyMessageCount = 0;
-        this.lastResetDate = today;
-        console.log('📅 Daily message counter reset');
-      }
-
-      // Check daily limit
-      if (this.dailyMessageCount >= this.DAILY_MESSAGE_LIMIT) {
-        console.log(`⚠️ Daily message limit reached (${this.DAILY_MESSAGE_LIMIT})`);
-        logOperationFinish(context, 'failure', {
-          target: this.maskTarget(formattedNumber),
+      // whatsapp-web.js format: number@c.us, or the group id for groups
+      let chatId = toChatId(formattedTarget);
+
+      // Anti-ban: daily, hourly and per-recipient limits, warm-up and quiet hours
+      const throttle = throttleService.check(this.sessionId, formattedTarget);
+      if (throttle) {
+        console.log(`⚠️ Send throttled (${throttle.rule}): ${throttle.reason}`);
+        this.finishSendOperation(context, 'rate_limited', {
+          target: maskTarget(formattedTarget),
           userId: options.userId,
-          status: 'rate_limited',
-          dailyMessageLimit: this.DAILY_MESSAGE_LIMIT,
+          throttleRule: throttle.rule,
         });
 
         return {
           success: false,
           status: 'rate_limited',
-          message: `Daily message limit reached (${this.DAILY_MESSAGE_LIMIT}). Try again tomorrow.`,
-          target: formattedNumber,
+          message: throttle.reason,
+          target: formattedTarget,
+          retryAt: throttle.retryAt ? new Date(throttle.retryAt).toISOString() : undefined,
         };
       }
 
-      console.log(`📤 Sending message to: ${this.maskTarget(formattedNumber)}`);
+      // Pre-flight registration check: sending to unregistered numbers wastes quota and raises ban risk
+      if (this.CHECK_NUMBER_BEFORE_SEND && !isGroupId(formattedTarget)) {
+        const registration = await this.lookupNumber(formattedTarget);
+
+        if (registration && !registration.registered) {
+          const messageText = 'Number is not registered on WhatsApp';
+
+          this.addMessageLog({
+            target: maskTarget(formattedTarget),
+            message: this.getLoggedMessagePreview(content),
+            status: 'not_on_whatsapp',
+            success: false,
+            error: messageText,
+          }, correlationId, options);
+
+          this.finishSendOperation(context, 'not_on_whatsapp', {
+            target: maskTarget(formattedTarget),
+            userId: options.userId,
+          });
+
+          return {
+            success: false,
+            status: 'not_on_whatsapp',
+            message: messageText,
+            target: formattedTarget,
+          };
+        }
+
+        // WhatsApp may resolve a number to a different id (e.g. with or without a mobile prefix digit)
+        if (registration?.whatsappId) {
+          chatId = registration.whatsappId;
+        }
+      }
+
+      console.log(`📤 Sending message to: ${maskTarget(formattedTarget)}`);
 
       // Anti-ban: Get chat and simulate typing
       try {
@@ -411,28 +607,52 @@ class WhatsAppService {
       }
 
       // Send message with sendSeen: false to avoid markedUnread error
-      const result = await this.client.sendMessage(chatId, message, {
+      const sendOptions: MessageSendOptions = {
         sendSeen: false,
-      });
+        quotedMessageId: content.quotedMessageId ? this.resolveMessageId(content.quotedMessageId) : undefined,
+        // Fail the send instead of silently dropping the reply
+        ignoreQuoteErrors: false,
+        mentions: content.mentions?.map(toChatId),
+        linkPreview: content.linkPreview,
+      };
+      let payload: MessageContent = content.text;
+
+      if (content.rich) {
+        payload = this.toRichPayload(content.rich);
+      } else if (content.media) {
+        payload = new MessageMedia(
+          content.media.mimetype,
+          content.media.data,
+          content.media.filename,
+          content.media.size
+        );
+        sendOptions.caption = content.text || undefined;
+      }
 
-      // Increment daily counter
-      this.dailyMessageCount++;
+      const result = await this.client.sendMessage(chatId, payload, sendOptions);
 
-      console.log(`✅ Message sent to ${this.maskTarget(formattedNumber)} (ID: ${result.id.id}) [${this.dailyMessageCount}/${this.DAILY_MESSAGE_LIMIT}]`);
+      throttleService.recordSent(this.sessionId, formattedTarget);
+      this.rememberMessageId(result.id);
+      this.rememberSentMessage(result.id.id, {
+        target: maskTarget(formattedTarget),
+        correlationId,
+      });
+
+      const usage = this.getDailyUsage();
+      console.log(`✅ Message sent to ${maskTarget(formattedTarget)} (ID: ${result.id.id}) [${usage.count}/${usage.limit}]`);
 
       // Log message
       this.addMessageLog({
-        timestamp: new Date(),
-        target: this.maskTarget(formattedNumber),
-        message: this.getLoggedMessagePreview(message),
+        target: maskTarget(formattedTarget),
+        message: this.getLoggedMessagePreview(content),
+        status: 'sent',
         success: true,
-        id: result.id.id,
-      });
+        messageId: result.id.id,
+      }, correlationId, options);
 
-      logOperationFinish(context, 'success', {
-        target: this.maskTarget(formattedNumber),
+      this.finishSendOperation(context, 'sent', {
+        target: maskTarget(formattedTarget),
         userId: options.userId,
-        status: 'sent',
         messageId: result.id.id,
       });
 
@@ -440,7 +660,7 @@ class WhatsAppService {
         success: true,
         status: 'sent',
         message: 'Message sent successfully',
-        target: formattedNumber,
+        target: formattedTarget,
         id: result.id.id,
       };
     } catch (error) {
@@ -451,17 +671,16 @@ class WhatsAppService {
 
       // Log error
       this.addMessageLog({
-        timestamp: new Date(),
-        target: this.maskTarget(formattedNumber),
-        message: this.getLoggedMessagePreview(message),
+        target: maskTarget(formattedTarget),
+        message: this.getLoggedMessagePreview(content),
+        status: 'error',
         success: false,
         error: (error as Error).message,
-      });
+      }, correlationId, options);
 
-      logOperationFinish(context, 'failure', {
-        target: this.maskTarget(formattedNumber),
+      this.finishSendOperation(context, 'error', {
+        target: maskTarget(formattedTarget),
         userId: options.userId,
-        status: 'error',
         error: (error as Error).message,
       });
 
@@ -469,61 +688,35 @@ class WhatsAppService {
         success: false,
         status: 'error',
         message: 'Failed to send message. Check gateway logs for details.',
-        target: formattedNumber,
+        target: formattedTarget,
       };
     }
   }
 
   /**
-   * Send broadcast messages to multiple targets
+   * Connection status for the dashboard
    */
-  async sendBroadcast(
-    targets: string[],
-    message: string,
-    options: SendMessageOptions = {}
-  ): Promise<MessageResponse[]> {
-    const correlationId = options.correlationId || randomUUID();
-    const context = createOperationContext('whatsapp.send_broadcast', correlationId);
-    const results: MessageResponse[] = [];
+  getDashboardStatus(): DashboardStatus {
+    const info = this.getInfo();
 
-    logOperationStart(context, {
-      targetCount: targets.length,
-      userId: options.userId,
-    });
-
-    try {
-      for (let i = 0; i < targets.length; i++) {
-        const target = targets[i];
-        const result = await this.sendMessage(target, message, {
-          ...options,
-          correlationId,
-        });
-        results.push(result);
-
-        // Add delay between messages to avoid spam detection
-        if (i < targets.length - 1) {
-          await this.delay(this.messageDelay);
-        }
-      }
-
-      const sentCount = results.filter((result) => result.success).length;
-      logOperationFinish(context, sentCount === results.length ? 'success' : 'failure', {
-        targetCount: targets.length,
-        sentCount,
-        userId: options.userId,
-      });
-
-      return results;
-    } catch (error) {
-      logOperationFinish(context, 'failure', {
-        targetCount: targets.length,
-        sentCount: results.filter((result) => result.success).length,
-        userId: options.userId,
-        error: error instanceof Error ? error.message : 'Unknown broadcast error',
-      });
+    return {
+      session: this.sessionId,
+      isConnected: this.connectionState.isConnected,
+      isReady: this.isReady,
+      state: this.waState,
+      phoneNumber: this.connectionState.phoneNumber || info?.phoneNumber,
+      name: info?.name,
+      uptime: this.getUptime(),
+      qrDisplayed: this.connectionState.qrDisplayed,
+      hasQR: !!this.qrCodeBase64,
+      pairingCode: this.getActivePairingCode() || undefined,
+      lastError: this.connectionState.lastError,
+    };
+  }
 
-      throw error;
-    }
+  private publishState(transition: DashboardStateTransition): void {
+    const event: DashboardStateEventData = { ...this.getDashboardStatus(), transition };
+    dashboardEventsService.publish(this.sessionId, 'state', event);
   }
 
   /**
@@ -563,8 +756,11 @@ class WhatsAppService {
    * getState() check that confirms WhatsApp Web is CONNECTED.
    */
   private markClientReady(source: string): void {
+    // A QR code shown before becoming ready means the number was just linked
+    const isNewLink = this.connectionState.qrDisplayed;
+
     if (!this.isReady) {
-      console.log(`✅ WhatsApp client is ready (${source})!`);
+      console.log(`✅ WhatsApp client is ready (${source}, session: ${this.sessionId})!`);
     }
 
     this.connectionState.isConnected = true;
@@ -577,6 +773,17 @@ class WhatsAppService {
     const info = this.client.info;
     if (info) {
       this.connectionState.phoneNumber = info.wid.user;
+      throttleService.recordLinkedNumber(this.sessionId, info.wid.user, isNewLink);
+      if (isNewLink) {
+        auditLogService.record({
+          actor: 'whatsapp',
+          actorType: 'system',
+          action: 'whatsapp.linked',
+          target: this.sessionId,
+          result: 'success',
+          details: { phoneNumber: info.wid.user },
+        });
+      }
       if (source === 'ready event') {
         console.log(`📱 Connected as: +${this.connectionState.phoneNumber}`);
         console.log(`📛 Name: ${info.pushname || 'Unknown'}`);
@@ -625,6 +832,90 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * The underlying client for operations beyond sending (groups, contacts);
+   * throws WhatsAppNotReadyError when the session is not ready
+   */
+  async getReadyClient(operation: string): Promise<Client> {
+    if (!(await this.refreshConnectionReadiness(operation))) {
+      throw new WhatsAppNotReadyError(this.getNotReadyMessage());
+    }
+
+    return this.client;
+  }
+
+  /**
+   * React to a message with an emoji; an empty reaction removes the session's reaction
+   */
+  async reactToMessage(
+    messageId: string,
+    reaction: string,
+    options: SendMessageOptions = {}
+  ): Promise<MessageActionResult> {
+    return this.runMessageAction('react', messageId, options, async (message) => {
+      await message.react(reaction);
+    });
+  }
+
+  /**
+   * Replace the text of a message the session sent. WhatsApp only allows this for
+   * a limited time after sending.
+   */
+  async editMessage(messageId: string, text: string, options: SendMessageOptions = {}): Promise<MessageActionResult> {
+    return this.runMessageAction('edit', messageId, options, async (message) => {
+      if (!message.fromMe) {
+        throw new MessageActionError('Only messages sent by this session can be edited');
+      }
+
+      if (!(await message.edit(text))) {
+        throw new MessageActionError('WhatsApp refused the edit. Messages can only be edited shortly after sending.');
+      }
+    });
+  }
+
+  /**
+   * Delete a message for everyone, or only on the linked device. WhatsApp falls back
+   * to deleting only on the device when the message can no longer be revoked.
+   */
+  async deleteMessage(messageId: string, everyone: boolean, options: SendMessageOptions = {}): Promise<MessageActionResult> {
+    return this.runMessageAction('delete', messageId, options, async (message) => {
+      await message.delete(everyone);
+    });
+  }
+
+  /**
+   * Check which normalized phone numbers are registered on WhatsApp
+   */
+  async checkNumbers(phoneNumbers: string[]): Promise<NumberCheckResult[]> {
+    const client = await this.getReadyClient('checkNumbers');
+    const results: NumberCheckResult[] = [];
+
+    try {
+      // One at a time: each lookup is a round trip through WhatsApp Web
+      for (const phoneNumber of phoneNumbers) {
+        results.push(await numberLookupService.lookup(client, phoneNumber));
+      }
+    } catch (error) {
+      this.handleRuntimeError(error, 'checkNumbers');
+      throw error;
+    }
+
+    return results;
+  }
+
+  /**
+   * Registration lookup for the send pre-flight; null when the lookup itself failed,
+   * in which case the send goes ahead as before
+   */
+  private async lookupNumber(phoneNumber: string): Promise<NumberCheckResult | null> {
+    try {
+      return await numberLookupService.lookup(this.client, phoneNumber);
+    } catch (error) {
+      console.warn(`⚠️ Number check failed for ${maskTarget(phoneNumber)}, sending anyway: ${getErrorMessage(error)}`);
+      return null;
+    }
+  }
+
   private getNotReadyMessage(): string {
     if (this.waState === 'AUTHENTICATED') {
       return 'WhatsApp is authenticated but not ready yet. Wait for the ready state, then try again.';
@@ -634,6 +925,10 @@ class WhatsAppService {
       return 'WhatsApp reports CONNECTED but the client is not ready to send yet. Try again in a few seconds.';
     }
 
+    if (this.waState === 'WAITING_FOR_PAIRING_CODE') {
+      return 'WhatsApp is not connected. Enter the pairing code on the phone.';
+    }
+
     if (this.connectionState.qrDisplayed || this.waState === 'WAITING_FOR_QR_SCAN') {
       return 'WhatsApp is not connected. Please scan QR code.';
     }
@@ -641,6 +936,24 @@ class WhatsAppService {
     return `WhatsApp is not ready to send messages. Current state: ${this.waState}.`;
   }
 
+  /**
+   * Messages sent today against the daily limit
+   */
+  getDailyUsage(): { count: number; limit: number } {
+    const status = throttleService.getStatus(this.sessionId);
+    return {
+      count: status.dailyCount,
+      limit: status.dailyLimit,
+    };
+  }
+
+  /**
+   * Delay between consecutive sends to different targets, with jitter and error-rate slow-down
+   */
+  getMessageDelay(): number {
+    return throttleService.getSendDelay(this.sessionId, this.messageDelay);
+  }
+
   /**
    * Get uptime in seconds
    */
@@ -675,17 +988,36 @@ class WhatsAppService {
     return Math.floor(Math.random() * (max - min + 1)) + min;
   }
 
-  private maskTarget(target: string): string {
-    const digits = target.replace(/[^0-9]/g, '');
-    if (digits.length <= 4) {
-      return '****';
+  private getLoggedMessagePreview(content: OutboundMessage): string {
+    if (content.rich) {
+      const rich = content.rich;
+      const label = rich.type === 'location' ? rich.name || `${rich.latitude},${rich.longitude}`
+        : rich.type === 'contact' ? rich.name
+          : rich.question;
+      return `[${rich.type}] ${this.LOG_MESSAGE_CONTENT ? label.substring(0, 100) : '[redacted]'}`;
     }
 
-    return `****${digits.slice(-4)}`;
+    const text = this.LOG_MESSAGE_CONTENT ? content.text.substring(0, 100) : '[redacted]';
+    return content.media ? `[${content.media.mimetype}] ${text}` : text;
   }
 
-  private getLoggedMessagePreview(message: string): string {
-    return this.LOG_MESSAGE_CONTENT ? message.substring(0, 100) : '[redacted]';
+  /**
+   * whatsapp-web.js content for a location, contact card or poll
+   */
+  private toRichPayload(rich: RichMessage): MessageContent {
+    if (rich.type === 'location') {
+      return new Location(rich.latitude, rich.longitude, { name: rich.name, address: rich.address, url: rich.url });
+    }
+
+    if (rich.type === 'contact') {
+      // A vCard string is sent as a contact card (parseVCards is on by default)
+      return buildVCard(rich);
+    }
+
+    return new Poll(rich.question, rich.options, {
+      allowMultipleAnswers: rich.allowMultipleAnswers,
+      messageSecret: undefined,
+    });
   }
 
   private isActiveClient(generation: number): boolean {
@@ -701,8 +1033,7 @@ class WhatsAppService {
 
   private async removeStaleAuthLock(): Promise<void> {
     const fs = await import('fs');
-    const authFolder = process.env.AUTH_FOLDER || './auth';
-    const lockFile = `${authFolder}/session-wa-gateway/SingletonLock`;
+    const lockFile = `${this.getAuthDataPath()}/SingletonLock`;
 
     try {
       if (fs.existsSync(lockFile)) {
@@ -714,6 +1045,11 @@ class WhatsAppService {
     }
   }
 
+  private getAuthDataPath(): string {
+    const authFolder = process.env.AUTH_FOLDER || './auth';
+    return `${authFolder}/session-${this.clientId}`;
+  }
+
   private async replaceFailedClient(reason: string): Promise<void> {
     const failedClient = this.client;
     this.clientGeneration++;
@@ -738,6 +1074,7 @@ class WhatsAppService {
 
   private scheduleReconnect(generation: number): void {
     this.clearReconnectTimer();
+    metricsService.recordReconnect(this.sessionId);
     console.log('🔄 Attempting to reconnect in 10 seconds...');
 
     this.reconnectTimer = setTimeout(() => {
@@ -761,6 +1098,7 @@ class WhatsAppService {
     this.connectionState.qrDisplayed = false;
     this.waState = state;
     this.qrCodeBase64 = null;
+    this.pairingCode = null;
   }
 
   handleRuntimeError(error: unknown, source: string): boolean {
@@ -858,6 +1196,90 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Destroy the client and remove its stored WhatsApp Web credentials.
+   * The instance must not be used afterwards.
+   */
+  async deleteSession(): Promise<void> {
+    this.isShuttingDown = true;
+    this.clearReconnectTimer();
+
+    try {
+      await this.client.logout();
+    } catch (error) {
+      console.warn(`⚠️ Logout during session delete failed (session: ${this.sessionId}):`, getErrorMessage(error));
+    }
+
+    await this.destroy();
+    this.client.removeAllListeners();
+
+    const fs = await import('fs');
+    await fs.promises.rm(this.getAuthDataPath(), { recursive: true, force: true });
+    console.log(`🗑️ Session data removed (session: ${this.sessionId})`);
+  }
+
+  /**
+   * Link the session by phone number instead of a QR scan: WhatsApp notifies that phone,
+   * where the returned 8-character code is entered under Linked devices
+   * @param phoneNumber - E.164 number of the account to link
+   */
+  async requestPairingCode(phoneNumber: string): Promise<PairingCodeResult> {
+    if (this.isReady) {
+      throw new PairingCodeError('Session is already linked. Log out first to link another number.');
+    }
+
+    if (!this.connectionState.qrDisplayed) {
+      throw new PairingCodeError(`Session is not waiting to be linked (state: ${this.waState}). Wait for the QR code, then try again.`);
+    }
+
+    let code: string;
+    try {
+      code = await this.client.requestPairingCode(phoneNumber.replace(/^\+/, ''), true, PAIRING_CODE_INTERVAL_MS);
+    } catch (error) {
+      this.handleRuntimeError(error, 'requestPairingCode');
+      throw error;
+    }
+
+    log('info', 'whatsapp.pairing', 'pairing_code_requested', { session: this.sessionId, target: maskTarget(phoneNumber) });
+    return this.showPairingCode(code);
+  }
+
+  /**
+   * Current pairing code, unless it has been replaced or expired
+   */
+  getActivePairingCode(): PairingCodeResult | null {
+    if (this.pairingCode && new Date(this.pairingCode.expiresAt).getTime() > Date.now()) {
+      return this.pairingCode;
+    }
+
+    return null;
+  }
+
+  private showPairingCode(code: string): PairingCodeResult {
+    // Shown as ABCD-EFGH, the way WhatsApp displays it
+    const formatted = code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+
+    if (this.pairingCode?.code === formatted) {
+      return this.pairingCode;
+    }
+
+    this.pairingCode = {
+      code: formatted,
+      expiresAt: new Date(Date.now() + PAIRING_CODE_INTERVAL_MS).toISOString(),
+    };
+    this.waState = 'WAITING_FOR_PAIRING_CODE';
+
+    console.log('\n');
+    console.log('═'.repeat(50));
+    console.log(`🔢 PAIRING CODE (session: ${this.sessionId}): ${formatted}`);
+    console.log('   WhatsApp > Linked devices > Link with phone number');
+    console.log('═'.repeat(50));
+    console.log('\n');
+
+    this.publishState('pairing_code');
+    return this.pairingCode;
+  }
+
   /**
    * Get QR code as base64 data URL
    */
@@ -866,23 +1288,187 @@ class WhatsAppService {
   }
 
   /**
-   * Get message logs (most recent first)
+   * Map an inbound whatsapp-web.js message to the stored/forwarded shape
    */
-  getMessageLogs(): MessageLog[] {
-    return [...this.messageLogs].reverse();
+  private async toInboxMessage(msg: Message): Promise<InboxMessage> {
+    const rawData = (msg.rawData || {}) as Record<string, unknown>;
+    let quotedMessageId: string | undefined;
+
+    if (msg.hasQuotedMsg) {
+      try {
+        const quoted = await msg.getQuotedMessage();
+        quotedMessageId = quoted?.id.id;
+      } catch (error) {
+        console.warn('⚠️ Could not resolve quoted message:', getErrorMessage(error));
+      }
+    }
+
+    return {
+      id: msg.id.id,
+      sessionId: this.sessionId,
+      chatId: msg.from,
+      from: msg.author || msg.from,
+      author: msg.author,
+      senderName: typeof rawData.notifyName === 'string' ? rawData.notifyName : undefined,
+      type: msg.type,
+      body: msg.body,
+      timestamp: new Date(msg.timestamp * 1000).toISOString(),
+      quotedMessageId,
+      isGroup: msg.from.endsWith('@g.us'),
+      hasMedia: msg.hasMedia,
+      media: msg.hasMedia
+        ? {
+            mimetype: typeof rawData.mimetype === 'string' ? rawData.mimetype : undefined,
+            filename: typeof rawData.filename === 'string' ? rawData.filename : undefined,
+            size: typeof rawData.size === 'number' ? rawData.size : undefined,
+          }
+        : undefined,
+      receivedAt: new Date().toISOString(),
+    };
   }
 
   /**
-   * Add entry to message log
+   * Suppress the sender of a direct message that is an opt-out keyword such as STOP,
+   * and confirm with OPT_OUT_REPLY when it is set
    */
-  private addMessageLog(log: MessageLog): void {
-    this.messageLogs.push(log);
-    // Keep only last MAX_LOGS entries
-    if (this.messageLogs.length > this.MAX_LOGS) {
-      this.messageLogs.shift();
+  private async handleOptOut(msg: Message, message: InboxMessage): Promise<void> {
+    const keyword = message.isGroup ? undefined : suppressionService.matchOptOutKeyword(message.body);
+    if (!keyword) return;
+
+    // Senders with a linked id (@lid) instead of a phone-number id are resolved via the contact
+    const phoneNumber = message.from.endsWith('@c.us')
+      ? message.from.slice(0, -'@c.us'.length)
+      : (await msg.getContact()).number;
+    const number = formatTarget(`+${phoneNumber}`);
+
+    const { added } = suppressionService.add([{ number, reason: `Keyword: ${keyword}` }], 'keyword', this.sessionId);
+    if (added.length === 0) return;
+
+    console.log(`🚫 ${maskTarget(number)} opted out with keyword ${keyword} (session: ${this.sessionId})`);
+
+    const reply = suppressionService.getOptOutReply();
+    if (!reply) return;
+
+    // The confirmation counts against the same limits as any send; the number stays suppressed either way
+    const throttle = throttleService.check(this.sessionId, number);
+    if (throttle) {
+      console.log(`⚠️ Opt-out reply to ${maskTarget(number)} skipped (${throttle.rule}): ${throttle.reason}`);
+      return;
     }
+
+    await msg.reply(reply, undefined, { sendSeen: false });
+    throttleService.recordSent(this.sessionId, number);
   }
-}
 
-// Singleton instance
-export const whatsappService = new WhatsAppService();
+  /**
+   * Look up a message and run an action on it, with the same readiness check and
+   * operation logging as sends
+   */
+  private async runMessageAction(
+    action: MessageAction,
+    messageId: string,
+    options: SendMessageOptions,
+    run: (message: Message) => Promise<void>
+  ): Promise<MessageActionResult> {
+    const context = createOperationContext(`whatsapp.${action}_message`, options.correlationId || randomUUID());
+    logOperationStart(context, { session: this.sessionId, messageId, userId: options.userId });
+
+    try {
+      const client = await this.getReadyClient(`${action}Message`);
+      const serializedId = this.resolveMessageId(messageId);
+
+      // A short id the session has not seen (e.g. from before a restart) cannot be looked up
+      const message = serializedId.includes('_') ? await client.getMessageById(serializedId) : null;
+      if (!message) {
+        throw new MessageNotFoundError(messageId);
+      }
+
+      await run(message);
+      logOperationFinish(context, 'success', { session: this.sessionId, messageId, userId: options.userId });
+
+      return { action, messageId };
+    } catch (error) {
+      if (!(error instanceof WhatsAppNotReadyError)
+        && !(error instanceof MessageNotFoundError)
+        && !(error instanceof MessageActionError)) {
+        this.handleRuntimeError(error, `${action}Message`);
+      }
+
+      logOperationFinish(context, 'failure', {
+        session: this.sessionId,
+        messageId,
+        userId: options.userId,
+        error: getErrorMessage(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Serialized id for a short message id the session has seen; serialized ids and
+   * unknown ids are returned unchanged
+   */
+  private resolveMessageId(messageId: string): string {
+    return this.messageIds.get(messageId) || messageId;
+  }
+
+  private rememberMessageId(id: MessageId): void {
+    this.messageIds.delete(id.id);
+    this.messageIds.set(id.id, id._serialized);
+    if (this.messageIds.size > this.MAX_MESSAGE_IDS) {
+      const oldestId = this.messageIds.keys().next().value;
+      if (oldestId !== undefined) {
+        this.messageIds.delete(oldestId);
+      }
+    }
+  }
+
+  /**
+   * Remember the request a sent message belongs to, bounded to the most recent sends
+   */
+  private rememberSentMessage(messageId: string, ref: SentMessageRef): void {
+    this.sentMessageRefs.set(messageId, ref);
+    if (this.sentMessageRefs.size > this.MAX_SENT_MESSAGE_REFS) {
+      const oldestId = this.sentMessageRefs.keys().next().value;
+      if (oldestId !== undefined) {
+        this.sentMessageRefs.delete(oldestId);
+      }
+    }
+  }
+
+  /**
+   * Log the end of a send and count it in the metrics, using the duration measured by the context
+   */
+  private finishSendOperation(
+    context: OperationContext,
+    status: MessageResponse['status'],
+    meta: Record<string, unknown>
+  ): void {
+    logOperationFinish(context, status === 'sent' ? 'success' : 'failure', { ...meta, status });
+    metricsService.recordSend(this.sessionId, status, Date.now() - context.startedAt);
+
+    // Attempts that reached WhatsApp feed the error-rate slow-down
+    if (status === 'sent' || status === 'error' || status === 'not_on_whatsapp') {
+      throttleService.recordOutcome(this.sessionId, status !== 'sent');
+    }
+  }
+
+  /**
+   * Record a send outcome in the persistent message history
+   */
+  private addMessageLog(entry: MessageLogEntry, correlationId: string, options: SendMessageOptions): void {
+    try {
+      const historyEntry = messageHistoryService.add({
+        ...entry,
+        sessionId: this.sessionId,
+        correlationId,
+        userId: options.userId,
+        apiKeyId: options.apiKeyId,
+      });
+      dashboardEventsService.publish(this.sessionId, 'log', historyEntry);
+    } catch (error) {
+      // A history write failure must not turn a delivered message into a failed send
+      console.error('❌ Failed to write message history:', getErrorMessage(error));
+    }
+  }
+}
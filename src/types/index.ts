@@ -7,19 +7,176 @@ export interface SendMessageRequest {
 export interface BroadcastRequest {
   targets: string[];
   message: string;
+  countryCode?: string;
+}
+
+export interface MediaAttachment {
+  mimetype: string;
+  /** Base64-encoded file content */
+  data: string;
+  filename?: string;
+  size: number;
+}
+
+export type SendMessageType = 'text' | 'location' | 'contact' | 'poll';
+
+export interface LocationMessage {
+  type: 'location';
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+/**
+ * Contact card, sent as a vCard
+ */
+export interface ContactCardMessage {
+  type: 'contact';
+  name: string;
+  /** E.164 */
+  phoneNumber: string;
+  organization?: string;
+}
+
+export interface PollMessage {
+  type: 'poll';
+  question: string;
+  options: string[];
+  allowMultipleAnswers: boolean;
+}
+
+export type RichMessage = LocationMessage | ContactCardMessage | PollMessage;
+
+/**
+ * Content of one outbound message. For media messages `text` is the caption; a rich
+ * message (location, contact card or poll) is sent instead of the text.
+ */
+export interface OutboundMessage {
+  text: string;
+  media?: MediaAttachment;
+  rich?: RichMessage;
+  /** false turns off the link preview of a text message */
+  linkPreview?: boolean;
+  /** Message to reply to: an id returned by a send or an inbound message id */
+  quotedMessageId?: string;
+  /** E.164 numbers to mention; the text should contain @<number> for each */
+  mentions?: string[];
+}
+
+/**
+ * Content handed to the message queue. `targetTexts`, when set, holds a personalised
+ * text for each target (same order) and replaces `text` for that target.
+ */
+export interface QueuedMessageContent extends OutboundMessage {
+  targetTexts?: string[];
 }
 
 export interface MessageResponse {
   success: boolean;
-  status: 'sent' | 'error' | 'disconnected' | 'invalid_number' | 'rate_limited';
+  status: 'sent' | 'error' | 'disconnected' | 'invalid_number' | 'not_on_whatsapp' | 'rate_limited' | 'suppressed';
   message: string;
   target?: string;
+  /** For session-wide throttling: when sending may resume (ISO 8601) */
+  retryAt?: string;
   id?: string;
 }
 
 export interface SendMessageOptions {
   correlationId?: string;
   userId?: string;
+  /** API key the send was requested with; only that key (or an admin key) can look it up */
+  apiKeyId?: string;
+}
+
+/**
+ * Media of a queued job, kept as a separate file in the data folder
+ */
+export interface StoredMediaRef {
+  mimetype: string;
+  filename?: string;
+  size: number;
+  file: string;
+}
+
+export type MessageJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface MessageJob {
+  id: string;
+  sessionId: string;
+  status: MessageJobStatus;
+  targets: string[];
+  message: string;
+  /** Per-target texts for personalised broadcasts, aligned with targets */
+  messages?: string[];
+  media?: StoredMediaRef;
+  rich?: RichMessage;
+  linkPreview?: boolean;
+  quotedMessageId?: string;
+  mentions?: string[];
+  results: MessageResponse[];
+  correlationId?: string;
+  userId?: string;
+  apiKeyId?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  lastError?: string;
+}
+
+export interface MessageJobView {
+  id: string;
+  session: string;
+  status: MessageJobStatus;
+  total: number;
+  processed: number;
+  sent: number;
+  failed: number;
+  /** Targets are masked like message history targets */
+  results: MessageResponse[];
+  correlationId?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  lastError?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  /** LocalAuth client id; the default session keeps the legacy `wa-gateway` id */
+  clientId: string;
+  label?: string;
+  createdAt: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  label?: string;
+  state: string;
+  isConnected: boolean;
+  isReady: boolean;
+  phoneNumber?: string;
+  hasQR: boolean;
+  dailyMessageCount: number;
+  dailyMessageLimit: number;
+  throttle: ThrottleStatus;
+  createdAt: string;
+}
+
+/**
+ * Anti-ban throttle usage of a session
+ */
+export interface ThrottleStatus {
+  dailyCount: number;
+  /** Today's limit, lower than DAILY_MESSAGE_LIMIT while warming up */
+  dailyLimit: number;
+  hourlyCount: number;
+  hourlyLimit?: number;
+  isWarmingUp: boolean;
+  isQuietHours: boolean;
+  /** Sends are spaced out further because of a high recent error rate */
+  isSlowedDown: boolean;
 }
 
 export interface WhatsAppLogoutResult {
@@ -43,3 +200,449 @@ export interface ConnectionState {
   qrDisplayed: boolean;
   lastError?: string;
 }
+
+/**
+ * Connection status shown on the dashboard, from `GET /api/dashboard/status` and `state` events
+ */
+export interface DashboardStatus {
+  session: string;
+  isConnected: boolean;
+  isReady: boolean;
+  state: string;
+  phoneNumber?: string;
+  name?: string;
+  uptime: number;
+  qrDisplayed: boolean;
+  hasQR: boolean;
+  /** Active pairing code while linking by phone number */
+  pairingCode?: PairingCodeResult;
+  lastError?: string;
+}
+
+export interface PairingCodeResult {
+  /** 8 characters, formatted ABCD-EFGH */
+  code: string;
+  /** When WhatsApp replaces the code (ISO 8601) */
+  expiresAt: string;
+}
+
+export type DashboardEvent = 'state' | 'qr' | 'log' | 'ack';
+
+/** `snapshot` is the current state sent when a stream opens */
+export type DashboardStateTransition =
+  | 'snapshot'
+  | 'qr'
+  | 'pairing_code'
+  | 'authenticated'
+  | 'ready'
+  | 'auth_failure'
+  | 'change_state'
+  | 'disconnected';
+
+export interface DashboardStateEventData extends DashboardStatus {
+  transition: DashboardStateTransition;
+}
+
+export type WebhookEvent = 'message.ack' | 'message.received' | 'schedule.failed';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  description?: string;
+  createdAt: string;
+}
+
+export interface WebhookPayload<T = Record<string, unknown>> {
+  id: string;
+  event: WebhookEvent;
+  timestamp: string;
+  data: T;
+}
+
+export type MessageAckStatus = 'ERROR' | 'PENDING' | 'SERVER' | 'DEVICE' | 'READ' | 'PLAYED';
+
+export interface MessageAckEventData {
+  session: string;
+  messageId: string;
+  target: string;
+  correlationId?: string;
+  ack: number;
+  status: MessageAckStatus | 'UNKNOWN';
+}
+
+export interface InboxMediaMetadata {
+  mimetype?: string;
+  filename?: string;
+  size?: number;
+}
+
+export interface ScheduleFailedEventData {
+  session: string;
+  scheduleId: string;
+  type: MessageScheduleType;
+  /** Masked like message history targets */
+  targets: string[];
+  error: string;
+  /** Whether a recurring schedule keeps running at its next time */
+  willRunAgain: boolean;
+  correlationId?: string;
+}
+
+export interface InboxMessage {
+  id: string;
+  sessionId: string;
+  chatId: string;
+  from: string;
+  author?: string;
+  senderName?: string;
+  type: string;
+  body: string;
+  timestamp: string;
+  quotedMessageId?: string;
+  isGroup: boolean;
+  hasMedia: boolean;
+  media?: InboxMediaMetadata;
+  receivedAt: string;
+}
+
+export interface NumberCheckResult {
+  number: string;
+  registered: boolean;
+  /** Chat id WhatsApp resolved the number to, when registered */
+  whatsappId?: string;
+  checkedAt: string;
+}
+
+export interface GroupSummary {
+  id: string;
+  name: string;
+  participantCount: number;
+  /** Whether the session's own account is a group admin */
+  isAdmin: boolean;
+}
+
+export interface GroupParticipantResult {
+  participant: string;
+  success: boolean;
+  code?: number;
+  message?: string;
+}
+
+export interface GroupActionResult {
+  groupId: string;
+  name?: string;
+  participants: GroupParticipantResult[];
+}
+
+export interface ChatMessage {
+  id: string;
+  chatId: string;
+  from: string;
+  fromMe: boolean;
+  /** Sender within a group */
+  author?: string;
+  type: string;
+  body: string;
+  timestamp: string;
+  hasMedia: boolean;
+  quotedMessageId?: string;
+}
+
+export interface ChatSummary {
+  id: string;
+  name: string;
+  isGroup: boolean;
+  unreadCount: number;
+  archived: boolean;
+  pinned: boolean;
+  isMuted: boolean;
+  /** Last activity */
+  timestamp?: string;
+  lastMessage?: ChatMessage;
+}
+
+export interface ContactSummary {
+  id: string;
+  number: string;
+  /** Name saved in the linked phone's address book */
+  name?: string;
+  /** Name the contact set for themselves */
+  pushname?: string;
+  isMyContact: boolean;
+  isBusiness: boolean;
+  isBlocked: boolean;
+}
+
+export interface ContactDetails extends ContactSummary {
+  profilePictureUrl?: string;
+  about?: string;
+}
+
+export type MessageAction = 'react' | 'edit' | 'delete';
+
+export interface MessageActionResult {
+  action: MessageAction;
+  messageId: string;
+}
+
+export type MessageHistoryStatus = 'sent' | 'error' | 'invalid_number' | 'not_on_whatsapp' | 'suppressed';
+
+export interface MessageHistoryEntry {
+  id: string;
+  sessionId: string;
+  timestamp: string;
+  /** Masked target, e.g. ****7890 */
+  target: string;
+  /** Content preview, subject to LOG_MESSAGE_CONTENT */
+  message: string;
+  status: MessageHistoryStatus;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  correlationId?: string;
+  userId?: string;
+  /** API key the message was sent with */
+  apiKeyId?: string;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  body: string;
+  /** Placeholder names found in body, in order of first appearance */
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MessageScheduleType = 'once' | 'recurring';
+
+/** `failed` schedules no longer run and stay listed, with `lastError`, until deleted */
+export type MessageScheduleStatus = 'active' | 'failed';
+
+/**
+ * A send or broadcast deferred to `sendAt` or repeated on a cron schedule.
+ * Each run enqueues a regular message job.
+ */
+export interface MessageSchedule {
+  id: string;
+  type: MessageScheduleType;
+  status: MessageScheduleStatus;
+  sessionId: string;
+  sendAt?: string;
+  cron?: string;
+  timezone?: string;
+  targets: string[];
+  message: string;
+  messages?: string[];
+  media?: StoredMediaRef;
+  rich?: RichMessage;
+  linkPreview?: boolean;
+  quotedMessageId?: string;
+  mentions?: string[];
+  correlationId?: string;
+  userId?: string;
+  /** API key that created the schedule; each run counts against its daily quota */
+  apiKeyId?: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastJobId?: string;
+  /** Why the latest run failed; cleared by the next successful run */
+  lastError?: string;
+  lastFailedAt?: string;
+  runCount: number;
+  createdAt: string;
+}
+
+export interface MessageScheduleView {
+  id: string;
+  type: MessageScheduleType;
+  status: MessageScheduleStatus;
+  session: string;
+  sendAt?: string;
+  cron?: string;
+  timezone?: string;
+  /** Masked like message history targets */
+  targets: string[];
+  message: string;
+  media?: Omit<StoredMediaRef, 'file'>;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastJobId?: string;
+  lastError?: string;
+  lastFailedAt?: string;
+  runCount: number;
+  createdAt: string;
+}
+
+export type ApiKeyScope = 'send' | 'broadcast' | 'status' | 'inbox' | 'read' | 'admin';
+
+export interface ApiKeyUsage {
+  /** Day the count belongs to (Date#toDateString) */
+  date: string;
+  count: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  label: string;
+  /** First characters of the key, shown to tell keys apart */
+  prefix: string;
+  /** SHA-256 of the full key; the key itself is only shown once on creation */
+  hash: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+  expiresAt?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  usage?: ApiKeyUsage;
+}
+
+export interface ApiKeyView {
+  id: string;
+  label: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+  usedToday: number;
+  expiresAt?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Authenticated API caller, available as res.locals.apiKey
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+}
+
+/**
+ * Dashboard roles, each including the permissions of the ones before it:
+ * viewers see status, operators also test-send, view logs and link numbers,
+ * admins also log out sessions and manage API keys and users
+ */
+export type DashboardRole = 'viewer' | 'operator' | 'admin';
+
+export interface DashboardUserRecord {
+  id: string;
+  username: string;
+  role: DashboardRole;
+  /** bcrypt hash */
+  passwordHash: string;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  lastLoginAt?: string;
+}
+
+export interface DashboardUserView {
+  id: string;
+  username: string;
+  role: DashboardRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  lastLoginAt?: string;
+}
+
+/**
+ * TOTP enrollment of a dashboard user, keyed by username
+ */
+export interface TwoFactorRecord {
+  username: string;
+  /** base32 TOTP secret */
+  secret: string;
+  /** false while the user has started but not confirmed the setup */
+  enabled: boolean;
+  /** SHA-256 hashes of unused recovery codes */
+  recoveryCodeHashes: string[];
+  /** Last accepted TOTP time step, so a code cannot be used twice */
+  lastUsedStep?: number;
+  createdAt: string;
+  enabledAt?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Whether DASHBOARD_REQUIRE_2FA makes two-factor authentication mandatory */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * A dashboard login, tracked server-side by the `jti` of its JWT so it can be revoked
+ */
+export interface LoginSessionRecord {
+  /** JWT id */
+  id: string;
+  username: string;
+  ip: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  /** Expiry of the latest token issued for this login; moves forward on refresh */
+  expiresAt: string;
+}
+
+export interface LoginSessionView extends LoginSessionRecord {
+  /** Whether this is the login making the request */
+  current: boolean;
+}
+
+export type AuditActorType = 'dashboard' | 'api_key' | 'system';
+export type AuditResult = 'success' | 'failure';
+
+/**
+ * One entry of the append-only audit log. `hash` covers every other field, including
+ * `prevHash`, so entries form a chain where any edit or deletion is detectable.
+ */
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  /** Dashboard username, API key label or `system` */
+  actor: string;
+  actorType: AuditActorType;
+  ip?: string;
+  /** Dotted action name such as `auth.login` or `api_key.create` */
+  action: string;
+  target?: string;
+  result: AuditResult;
+  correlationId?: string;
+  details?: Record<string, string | number | boolean>;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditChainStatus {
+  valid: boolean;
+  entries: number;
+  /** Hash of the latest entry; record it elsewhere to detect truncation or a rewritten chain */
+  headHash: string;
+  /** First entry whose hash or link does not match */
+  brokenAtSeq?: number;
+}
+
+/** How a number got on the suppression list */
+export type SuppressionSource = 'api' | 'import' | 'keyword';
+
+/**
+ * A number that has opted out; sends to it fail with status `suppressed`
+ */
+export interface SuppressionEntry {
+  /** E.164 number */
+  number: string;
+  reason?: string;
+  source: SuppressionSource;
+  /** Session that received the opt-out keyword */
+  sessionId?: string;
+  createdAt: string;
+}
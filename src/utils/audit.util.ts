@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { AuditChainStatus, AuditEntry } from '../types';
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Last entry of a chain (or of the part before a segment), which the next entry links to
+ */
+export interface AuditChainHead {
+  seq: number;
+  hash: string;
+}
+
+export const AUDIT_GENESIS_HEAD: AuditChainHead = { seq: 0, hash: AUDIT_GENESIS_HASH };
+
+/**
+ * JSON with object keys sorted, so a hash does not depend on property order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+export function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * Check that every entry links to the previous one and that its hash matches its content.
+ * A rotated segment is checked against the head of the segments before it.
+ */
+export function verifyAuditChain(entries: AuditEntry[], start: AuditChainHead = AUDIT_GENESIS_HEAD): AuditChainStatus {
+  let prevHash = start.hash;
+  let prevSeq = start.seq;
+
+  for (const entry of entries) {
+    const { hash, ...content } = entry;
+
+    if (entry.prevHash !== prevHash || entry.seq !== prevSeq + 1 || computeAuditHash(content) !== hash) {
+      return { valid: false, entries: entries.length, headHash: prevHash, brokenAtSeq: entry.seq };
+    }
+
+    prevHash = hash;
+    prevSeq = entry.seq;
+  }
+
+  return { valid: true, entries: entries.length, headHash: prevHash };
+}
+
+/**
+ * Lets one audit entry per key (e.g. per IP) through per window, so a burst of
+ * identical events cannot flood the log
+ */
+export class AuditEventWindow {
+  private windows: Map<string, number> = new Map();
+
+  constructor(private readonly windowMs: number) {}
+
+  shouldRecord(key: string, now: number = Date.now()): boolean {
+    const startedAt = this.windows.get(key);
+    if (startedAt !== undefined && now - startedAt < this.windowMs) {
+      return false;
+    }
+
+    for (const [otherKey, otherStartedAt] of this.windows) {
+      if (now - otherStartedAt >= this.windowMs) {
+        this.windows.delete(otherKey);
+      }
+    }
+
+    this.windows.set(key, now);
+    return true;
+  }
+}
@@ -0,0 +1,81 @@
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+function escapeCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (FORMULA_PREFIX_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as RFC 4180 CSV with a header line, in the given column order
+ */
+export function toCsv<T extends object>(rows: T[], columns: readonly (keyof T & string)[]): string {
+  const lines = [columns.join(',')];
+
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvCell(row[column])).join(','));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Parse RFC 4180 CSV into rows of cells. Quoted cells may contain commas, quotes
+ * ("") and line breaks; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = (): void => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
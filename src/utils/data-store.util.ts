@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+
+export class DataStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataStoreError';
+  }
+}
+
+export function getDataFolder(): string {
+  return process.env.DATA_FOLDER?.trim() || './data';
+}
+
+export function resolveDataPath(fileName: string): string {
+  return path.join(getDataFolder(), fileName);
+}
+
+/**
+ * Read a JSON document from disk, returning the fallback when the file does not exist yet.
+ * A file that exists but cannot be parsed is treated as an error so state is never silently dropped.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  let raw: string;
+
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+
+    throw error;
+  }
+
+  if (!raw.trim()) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new DataStoreError(`Data file ${filePath} contains invalid JSON`);
+  }
+}
+
+/**
+ * Write a JSON document atomically (temp file + rename) so a crash mid-write never
+ * leaves a truncated file behind.
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Read an append-only JSON Lines file. A torn final line (crash during append) is skipped;
+ * corruption anywhere else is treated as an error.
+ */
+export function readJsonLines<T>(filePath: string): T[] {
+  let raw: string;
+
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+
+    throw error;
+  }
+
+  const lines = raw.split('\n').filter((line) => line.trim());
+  const entries: T[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    try {
+      entries.push(JSON.parse(lines[i]) as T);
+    } catch (error) {
+      if (i === lines.length - 1) {
+        console.warn(`⚠️ Skipping incomplete last line in ${filePath}`);
+        continue;
+      }
+
+      throw new DataStoreError(`Data file ${filePath} contains invalid JSON on line ${i + 1}`);
+    }
+  }
+
+  return entries;
+}
+
+export function appendJsonLine(filePath: string, entry: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Replace a JSON Lines file atomically, used to compact append-only stores
+ */
+export function writeJsonLines(filePath: string, entries: unknown[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const content = entries.map((entry) => JSON.stringify(entry)).join('\n');
+  fs.writeFileSync(tempPath, content ? `${content}\n` : '', { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Names of the files in the data folder that match the pattern
+ */
+export function listDataFiles(pattern: RegExp): string[] {
+  try {
+    return fs.readdirSync(getDataFolder()).filter((fileName) => pattern.test(fileName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+
+    throw error;
+  }
+}
+
+export function renameDataFile(fromPath: string, toPath: string): void {
+  fs.renameSync(fromPath, toPath);
+}
@@ -40,3 +40,16 @@ export function readBooleanEnv(name: string, defaultValue: boolean): boolean {
 
   throw new Error(`${name} must be a boolean`);
 }
+
+export function readListEnv(name: string, defaultValue: string[]): string[] {
+  const rawValue = process.env[name]?.trim();
+
+  if (rawValue === undefined || rawValue === '') {
+    return defaultValue;
+  }
+
+  return rawValue
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
@@ -8,6 +8,10 @@ export function getMessageResponseHttpStatus(response: MessageResponse): number
   switch (response.status) {
     case 'invalid_number':
       return 400;
+    case 'suppressed':
+      return 403;
+    case 'not_on_whatsapp':
+      return 404;
     case 'rate_limited':
       return 429;
     case 'disconnected':
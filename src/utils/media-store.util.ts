@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { MediaAttachment, StoredMediaRef } from '../types';
+import { resolveDataPath } from './data-store.util';
+
+/**
+ * Media bytes of queued jobs and schedules live in DATA_FOLDER/media so state files
+ * stay small and updates do not rewrite large payloads.
+ */
+function getMediaFolder(): string {
+  return resolveDataPath('media');
+}
+
+export function storeMediaFile(name: string, media: MediaAttachment): StoredMediaRef {
+  const folder = getMediaFolder();
+  const file = `${name}.bin`;
+
+  fs.mkdirSync(folder, { recursive: true });
+  fs.writeFileSync(path.join(folder, file), Buffer.from(media.data, 'base64'), { mode: 0o600 });
+
+  return {
+    mimetype: media.mimetype,
+    filename: media.filename,
+    size: media.size,
+    file,
+  };
+}
+
+export function loadMediaFile(ref: StoredMediaRef): MediaAttachment {
+  return {
+    mimetype: ref.mimetype,
+    filename: ref.filename,
+    size: ref.size,
+    data: fs.readFileSync(path.join(getMediaFolder(), ref.file)).toString('base64'),
+  };
+}
+
+export function removeMediaFile(ref: StoredMediaRef): void {
+  try {
+    fs.rmSync(path.join(getMediaFolder(), ref.file), { force: true });
+  } catch (error) {
+    console.warn(`⚠️ Could not remove media file ${ref.file}:`, error);
+  }
+}
@@ -0,0 +1,212 @@
+import path from 'path';
+import { MediaAttachment } from '../types';
+import { readIntegerEnv, readListEnv } from './env.util';
+import { fetchPublicUrl, UnsafeUrlError } from './network.util';
+
+export class MediaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+/**
+ * Where a media payload comes from: inline base64, a URL fetched by the gateway,
+ * or a multipart upload. Exactly one of data, url or upload is set.
+ */
+export interface MediaSourceInput {
+  data?: string;
+  url?: string;
+  upload?: {
+    buffer: Buffer;
+    mimetype?: string;
+    originalname?: string;
+  };
+  mimetype?: string;
+  filename?: string;
+}
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'video/mp4',
+  'video/3gpp',
+  'audio/mpeg',
+  'audio/ogg',
+  'audio/aac',
+  'audio/mp4',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+];
+
+const MAX_MEDIA_BYTES = readIntegerEnv('MAX_MEDIA_BYTES', 16 * 1024 * 1024, { min: 1024, max: 100 * 1024 * 1024 });
+const MEDIA_ALLOWED_MIME_TYPES = readListEnv('MEDIA_ALLOWED_MIME_TYPES', DEFAULT_ALLOWED_MIME_TYPES)
+  .map((mimetype) => mimetype.toLowerCase());
+const MEDIA_URL_FETCH_TIMEOUT_MS = readIntegerEnv('MEDIA_URL_FETCH_TIMEOUT_MS', 20000, { min: 1000, max: 120000 });
+const MAX_FILENAME_LENGTH = 255;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/s;
+
+export function getMaxMediaBytes(): number {
+  return MAX_MEDIA_BYTES;
+}
+
+/**
+ * Check a MIME type against an allow-list that may contain `type/*` wildcards
+ */
+export function isMimeTypeAllowed(mimetype: string, allowed: string[] = MEDIA_ALLOWED_MIME_TYPES): boolean {
+  const normalized = normalizeMimeType(mimetype);
+  const [type] = normalized.split('/');
+
+  return allowed.some((entry) => entry === normalized || entry === `${type}/*`);
+}
+
+/**
+ * Decode inline base64 media, accepting either raw base64 or a data: URL
+ */
+export function decodeBase64Media(data: string): { buffer: Buffer; mimetype?: string } {
+  let payload = data.trim();
+  let mimetype: string | undefined;
+
+  const dataUrlMatch = DATA_URL_PATTERN.exec(payload);
+  if (dataUrlMatch) {
+    mimetype = dataUrlMatch[1];
+    payload = dataUrlMatch[2];
+  }
+
+  payload = payload.replace(/\s/g, '');
+
+  if (!payload || !BASE64_PATTERN.test(payload)) {
+    throw new MediaValidationError('data must be valid base64');
+  }
+
+  // Reject before decoding when the encoded length already implies an oversized file
+  if (Math.floor((payload.length * 3) / 4) > MAX_MEDIA_BYTES + 2) {
+    throw new MediaValidationError(`media must not exceed ${MAX_MEDIA_BYTES} bytes`);
+  }
+
+  return { buffer: Buffer.from(payload, 'base64'), mimetype };
+}
+
+/**
+ * Resolve a validated media source into an attachment ready to send
+ */
+export async function resolveMediaAttachment(input: MediaSourceInput): Promise<MediaAttachment> {
+  let buffer: Buffer;
+  let detectedMimetype: string | undefined;
+  let detectedFilename: string | undefined;
+
+  if (input.upload) {
+    buffer = input.upload.buffer;
+    detectedMimetype = input.upload.mimetype;
+    detectedFilename = input.upload.originalname;
+  } else if (input.data) {
+    ({ buffer, mimetype: detectedMimetype } = decodeBase64Media(input.data));
+  } else if (input.url) {
+    ({ buffer, mimetype: detectedMimetype, filename: detectedFilename } = await fetchMediaFromUrl(input.url));
+  } else {
+    throw new MediaValidationError('One of data, url or file is required');
+  }
+
+  if (buffer.length === 0) {
+    throw new MediaValidationError('media must not be empty');
+  }
+
+  if (buffer.length > MAX_MEDIA_BYTES) {
+    throw new MediaValidationError(`media must not exceed ${MAX_MEDIA_BYTES} bytes`);
+  }
+
+  const mimetype = input.mimetype || detectedMimetype;
+  if (!mimetype) {
+    throw new MediaValidationError('mimetype is required when it cannot be detected');
+  }
+
+  if (!isMimeTypeAllowed(mimetype)) {
+    throw new MediaValidationError(`mimetype ${normalizeMimeType(mimetype)} is not allowed`);
+  }
+
+  return {
+    mimetype: normalizeMimeType(mimetype),
+    data: buffer.toString('base64'),
+    filename: sanitizeFilename(input.filename || detectedFilename),
+    size: buffer.length,
+  };
+}
+
+function normalizeMimeType(mimetype: string): string {
+  return mimetype.split(';')[0].trim().toLowerCase();
+}
+
+function sanitizeFilename(filename: string | undefined): string | undefined {
+  if (!filename) {
+    return undefined;
+  }
+
+  const baseName = path.basename(filename).replace(/[\u0000-\u001f]/g, '').trim();
+  return baseName ? baseName.substring(0, MAX_FILENAME_LENGTH) : undefined;
+}
+
+async function fetchMediaFromUrl(url: string): Promise<{ buffer: Buffer; mimetype?: string; filename?: string }> {
+  let response: Response;
+
+  try {
+    // Only public hosts, checked again on every redirect (see fetchPublicUrl for the DNS caveat)
+    response = await fetchPublicUrl(url, {
+      signal: AbortSignal.timeout(MEDIA_URL_FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      throw new MediaValidationError(error.message);
+    }
+
+    throw new MediaValidationError('Failed to fetch media from url');
+  }
+
+  if (!response.ok || !response.body) {
+    throw new MediaValidationError(`Failed to fetch media from url (HTTP ${response.status})`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (Number.isFinite(declaredLength) && declaredLength > MAX_MEDIA_BYTES) {
+    throw new MediaValidationError(`media must not exceed ${MAX_MEDIA_BYTES} bytes`);
+  }
+
+  // Stream the body so an undeclared or lying content-length cannot exhaust memory
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const reader = response.body.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.length;
+    if (received > MAX_MEDIA_BYTES) {
+      await reader.cancel();
+      throw new MediaValidationError(`media must not exceed ${MAX_MEDIA_BYTES} bytes`);
+    }
+
+    chunks.push(Buffer.from(value));
+  }
+
+  return {
+    buffer: Buffer.concat(chunks),
+    mimetype: response.headers.get('content-type') || undefined,
+    filename: getUrlFilename(response.url || url),
+  };
+}
+
+function getUrlFilename(url: string): string | undefined {
+  try {
+    return decodeURIComponent(path.posix.basename(new URL(url).pathname)) || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
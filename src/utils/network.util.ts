@@ -0,0 +1,144 @@
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (including cloud metadata), shared, reserved and multicast ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+async function lookupAllAddresses(hostname: string): Promise<string[]> {
+  const addresses = await dnsLookup(hostname, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable.
+ * IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL hostname is a private IP literal or a localhost name, checked without
+ * resolving it (names that resolve to private addresses are caught by assertPublicUrl)
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Reject URLs that are not http(s) or whose host is, or resolves to, a private address
+ */
+export async function assertPublicUrl(url: string, lookup: HostLookup = lookupAllAddresses): Promise<URL> {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    throw new UnsafeUrlError('url must be a valid URL');
+  }
+
+  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+    throw new UnsafeUrlError('url must use http or https');
+  }
+
+  const hostname = parsedUrl.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+
+  try {
+    addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+  } catch (error) {
+    throw new UnsafeUrlError(`url host ${hostname} could not be resolved`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(`url host ${hostname} is a private or reserved address`);
+  }
+
+  return parsedUrl;
+}
+
+/**
+ * fetch() that follows redirects itself so every hop is checked with assertPublicUrl.
+ * fetch() resolves each host again, so a host that changes its DNS answer between the
+ * check and the request is not caught.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit = {},
+  lookup: HostLookup = lookupAllAddresses,
+  fetchImpl: typeof fetch = fetch
+): Promise<Response> {
+  let currentUrl = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(currentUrl, lookup);
+    const response = await fetchImpl(currentUrl, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new UnsafeUrlError(`url redirected more than ${MAX_REDIRECTS} times`);
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+}
@@ -5,38 +5,255 @@ export class PhoneNumberValidationError extends Error {
   }
 }
 
+// e.g. 120363012345678901@g.us, or 6281234567890-1600000000@g.us for older groups
+const GROUP_ID_PATTERN = /^\d{5,25}(-\d{5,15})?@g\.us$/;
+
+export type MessageTargetType = 'phone' | 'group';
+
+/**
+ * Whether a target is a WhatsApp group id rather than a phone number
+ */
+export function isGroupId(target: string): boolean {
+  return GROUP_ID_PATTERN.test(target);
+}
+
+export function getTargetType(target: string): MessageTargetType {
+  return isGroupId(target) ? 'group' : 'phone';
+}
+
+/**
+ * Target reduced to its last four digits, as stored in logs and message history
+ */
+export function maskTarget(target: string): string {
+  const prefix = isGroupId(target) ? 'group:' : '';
+  const digits = target.replace(/[^0-9]/g, '');
+  if (digits.length <= 4) {
+    return `${prefix}****`;
+  }
+
+  return `${prefix}****${digits.slice(-4)}`;
+}
+
+interface CountryRule {
+  region: string;
+  callingCode: string;
+  /** Prefix dialled before national numbers, stripped when adding the country code */
+  trunkPrefix?: string;
+  /** Allowed lengths of the national number, i.e. the digits after the country code */
+  minLength: number;
+  maxLength: number;
+}
+
+// ASEAN plus the most common other destinations; numbers from elsewhere are accepted
+// in +<country code> form with only the E.164 length check
+const COUNTRY_RULES: CountryRule[] = [
+  { region: 'ID', callingCode: '62', trunkPrefix: '0', minLength: 8, maxLength: 12 },
+  { region: 'MY', callingCode: '60', trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  { region: 'SG', callingCode: '65', minLength: 8, maxLength: 8 },
+  { region: 'TH', callingCode: '66', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  { region: 'PH', callingCode: '63', trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  { region: 'VN', callingCode: '84', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  { region: 'MM', callingCode: '95', trunkPrefix: '0', minLength: 7, maxLength: 10 },
+  { region: 'KH', callingCode: '855', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  { region: 'LA', callingCode: '856', trunkPrefix: '0', minLength: 8, maxLength: 10 },
+  { region: 'BN', callingCode: '673', minLength: 7, maxLength: 7 },
+  { region: 'TL', callingCode: '670', minLength: 7, maxLength: 8 },
+  { region: 'US', callingCode: '1', minLength: 10, maxLength: 10 },
+  { region: 'CA', callingCode: '1', minLength: 10, maxLength: 10 },
+  { region: 'AU', callingCode: '61', trunkPrefix: '0', minLength: 9, maxLength: 9 },
+  { region: 'GB', callingCode: '44', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  { region: 'IN', callingCode: '91', trunkPrefix: '0', minLength: 10, maxLength: 10 },
+  { region: 'CN', callingCode: '86', trunkPrefix: '0', minLength: 10, maxLength: 11 },
+  { region: 'HK', callingCode: '852', minLength: 8, maxLength: 8 },
+  { region: 'TW', callingCode: '886', trunkPrefix: '0', minLength: 8, maxLength: 9 },
+  { region: 'JP', callingCode: '81', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+  { region: 'KR', callingCode: '82', trunkPrefix: '0', minLength: 9, maxLength: 10 },
+];
+
+// E.164 allows at most 15 digits including the country code
+const E164_MAX_DIGITS = 15;
+const E164_MIN_DIGITS = 8;
+const FORMATTING_CHARACTERS = /[\s\-.()/]/g;
+
+/**
+ * Country rule for an ISO 3166 region ("SG") or a calling code ("65", "+65")
+ */
+function findCountryRule(countryCode: string): CountryRule | undefined {
+  const code = countryCode.trim().replace(/^\+/, '').toUpperCase();
+
+  if (/^[A-Z]{2}$/.test(code)) {
+    return COUNTRY_RULES.find((rule) => rule.region === code);
+  }
+
+  return COUNTRY_RULES.find((rule) => rule.callingCode === code);
+}
+
+function getCountryRule(countryCode: string): CountryRule {
+  const rule = typeof countryCode === 'string' ? findCountryRule(countryCode) : undefined;
+  if (!rule) {
+    throw new PhoneNumberValidationError(
+      `Unsupported country code: ${countryCode}. Use one of ${getSupportedCountryCodes().join(', ')}`
+    );
+  }
+
+  return rule;
+}
+
+/**
+ * Regions with per-country rules, accepted by `countryCode` and DEFAULT_COUNTRY_CODE
+ */
+export function getSupportedCountryCodes(): string[] {
+  return COUNTRY_RULES.map((rule) => rule.region);
+}
+
+/**
+ * Normalize a country code to its ISO 3166 region
+ * @param countryCode - Region ("sg") or calling code ("65", "+65")
+ * @returns Region, e.g. "SG"
+ */
+export function normalizeCountryCode(countryCode: string): string {
+  return getCountryRule(countryCode).region;
+}
+
+function readDefaultCountryCode(): string {
+  const value = process.env.DEFAULT_COUNTRY_CODE?.trim();
+  if (!value) {
+    return 'ID';
+  }
+
+  try {
+    return normalizeCountryCode(value);
+  } catch (error) {
+    throw new Error(`DEFAULT_COUNTRY_CODE: ${(error as Error).message}`);
+  }
+}
+
+const DEFAULT_COUNTRY_CODE = readDefaultCountryCode();
+
+function isValidNationalNumber(rule: CountryRule, nationalNumber: string): boolean {
+  return nationalNumber.length >= rule.minLength && nationalNumber.length <= rule.maxLength;
+}
+
+function describeLength(rule: CountryRule): string {
+  return rule.minLength === rule.maxLength ? `${rule.minLength}` : `${rule.minLength} to ${rule.maxLength}`;
+}
+
+function toE164(rule: CountryRule, nationalNumber: string, input: string): string {
+  if (!isValidNationalNumber(rule, nationalNumber)) {
+    throw new PhoneNumberValidationError(
+      `Invalid ${rule.region} phone number ${input}: expected ${describeLength(rule)} digits after +${rule.callingCode}, got ${nationalNumber.length}`
+    );
+  }
+
+  return `+${rule.callingCode}${nationalNumber}`;
+}
+
+/**
+ * Number written with its country code (+6281234567890 or 006281234567890)
+ */
+function parseInternationalNumber(digits: string, input: string): string {
+  // Calling codes are prefix-free, so at most one of the 1-3 digit prefixes matches
+  const rule = [3, 2, 1]
+    .map((length) => COUNTRY_RULES.find((candidate) => candidate.callingCode === digits.substring(0, length)))
+    .find((candidate) => candidate !== undefined);
+
+  if (!rule) {
+    if (digits.length < E164_MIN_DIGITS || digits.length > E164_MAX_DIGITS) {
+      throw new PhoneNumberValidationError(
+        `Invalid phone number ${input}: international numbers must have ${E164_MIN_DIGITS} to ${E164_MAX_DIGITS} digits including the country code, got ${digits.length}`
+      );
+    }
+
+    return `+${digits}`;
+  }
+
+  return toE164(rule, stripTrunkPrefix(rule, digits.substring(rule.callingCode.length)), input);
+}
+
 /**
- * Format phone number to WhatsApp format (with country code)
+ * National numbers never start with the trunk prefix, so one after the calling code
+ * is the common "+62 0812..." mix of international and national format
+ */
+function stripTrunkPrefix(rule: CountryRule, nationalNumber: string): string {
+  return rule.trunkPrefix && nationalNumber.startsWith(rule.trunkPrefix)
+    ? nationalNumber.substring(rule.trunkPrefix.length)
+    : nationalNumber;
+}
+
+/**
+ * Format phone number to E.164 (e.g. +6281234567890)
+ *
+ * Numbers with a leading + or 00 are read as international. Other numbers are read in
+ * the given country: a trunk prefix (081234567890) or the country's own calling code
+ * (6281234567890) is recognised, otherwise the digits are taken as the national number.
+ * Numbers without a + that only fit another known country are read as international.
  * @param phoneNumber - Phone number to format
- * @param defaultCountryCode - Default country code (default: 62 for Indonesia)
- * @returns Formatted phone number
+ * @param countryCode - Region or calling code for national numbers (default: DEFAULT_COUNTRY_CODE, Indonesia)
+ * @returns E.164 phone number
  */
 export function formatPhoneNumber(
   phoneNumber: string,
-  defaultCountryCode: string = '62'
+  countryCode: string = DEFAULT_COUNTRY_CODE
 ): string {
   if (typeof phoneNumber !== 'string') {
     throw new PhoneNumberValidationError('Phone number must be a string');
   }
 
-  // Remove all non-numeric characters
-  let cleaned = phoneNumber.replace(/[^0-9]/g, '');
+  const input = phoneNumber.trim();
+  const compact = input.replace(FORMATTING_CHARACTERS, '');
+
+  if (!compact) {
+    throw new PhoneNumberValidationError('Phone number must not be empty');
+  }
 
-  // Validate length
-  if (cleaned.length < 10 || cleaned.length > 15) {
-    throw new PhoneNumberValidationError('Phone number must contain 10 to 15 digits');
+  const invalidCharacter = compact.replace(/^\+/, '').match(/[^0-9]/);
+  if (invalidCharacter) {
+    throw new PhoneNumberValidationError(
+      `Invalid phone number ${input}: unexpected character "${invalidCharacter[0]}"; use digits with an optional leading +`
+    );
   }
 
-  // Format to international format
-  if (cleaned.startsWith('0')) {
-    // Local format: 081234567890 -> 6281234567890
-    cleaned = defaultCountryCode + cleaned.substring(1);
-  } else if (!cleaned.startsWith(defaultCountryCode)) {
-    // Add country code if not present
-    cleaned = defaultCountryCode + cleaned;
+  if (compact.startsWith('+')) {
+    return parseInternationalNumber(compact.substring(1), input);
   }
 
-  return cleaned;
+  if (compact.startsWith('00')) {
+    return parseInternationalNumber(compact.substring(2), input);
+  }
+
+  const rule = getCountryRule(countryCode);
+
+  if (rule.trunkPrefix && compact.startsWith(rule.trunkPrefix)) {
+    // Local format: 081234567890 -> +6281234567890
+    return toE164(rule, compact.substring(rule.trunkPrefix.length), input);
+  }
+
+  if (compact.startsWith(rule.callingCode)) {
+    const nationalNumber = stripTrunkPrefix(rule, compact.substring(rule.callingCode.length));
+    if (isValidNationalNumber(rule, nationalNumber)) {
+      return `+${rule.callingCode}${nationalNumber}`;
+    }
+  }
+
+  if (isValidNationalNumber(rule, compact)) {
+    return `+${rule.callingCode}${compact}`;
+  }
+
+  // e.g. 6591234567 sent to an Indonesian gateway: only valid as a Singapore number
+  const otherRule = COUNTRY_RULES.find((candidate) =>
+    candidate !== rule
+    && compact.startsWith(candidate.callingCode)
+    && isValidNationalNumber(candidate, compact.substring(candidate.callingCode.length))
+  );
+  if (otherRule) {
+    return `+${compact}`;
+  }
+
+  throw new PhoneNumberValidationError(
+    `Invalid ${rule.region} phone number ${input}: national numbers have ${describeLength(rule)} digits`
+    + `${rule.trunkPrefix ? ` after the leading ${rule.trunkPrefix}` : ''}, got ${compact.length}. `
+    + 'Numbers from other countries need a leading + and their country code'
+  );
 }
 
 /**
@@ -46,15 +263,41 @@ export function formatPhoneNumber(
  */
 export function toWhatsAppJid(phoneNumber: string): string {
   const formatted = formatPhoneNumber(phoneNumber);
-  return `${formatted}@s.whatsapp.net`;
+  return `${formatted.substring(1)}@s.whatsapp.net`;
+}
+
+/**
+ * Normalize a send target: group ids are kept as they are, anything else is
+ * formatted as a phone number
+ * @param target - Phone number or group id
+ * @param countryCode - Region or calling code for national numbers
+ * @returns Normalized target
+ */
+export function formatTarget(target: string, countryCode?: string): string {
+  if (typeof target === 'string' && isGroupId(target.trim())) {
+    return target.trim();
+  }
+
+  return formatPhoneNumber(target, countryCode);
+}
+
+/**
+ * Chat id for a send target
+ * @param target - Phone number or group id
+ * @returns WhatsApp chat id (e.g., 6281234567890@c.us or 120363012345678901@g.us)
+ */
+export function toChatId(target: string): string {
+  const formatted = formatTarget(target);
+  return isGroupId(formatted) ? formatted : `${formatted.substring(1)}@c.us`;
 }
 
 /**
- * Parse multiple phone numbers from comma-separated string
- * @param targets - Comma-separated phone numbers
- * @returns Array of formatted phone numbers
+ * Parse multiple targets from comma-separated string
+ * @param targets - Comma-separated phone numbers and/or group ids
+ * @param countryCode - Region or calling code for national numbers
+ * @returns Array of normalized targets
  */
-export function parseTargets(targets: string): string[] {
+export function parseTargets(targets: string, countryCode?: string): string[] {
   if (typeof targets !== 'string') {
     throw new PhoneNumberValidationError('Targets must be a comma-separated string');
   }
@@ -63,7 +306,7 @@ export function parseTargets(targets: string): string[] {
     .split(',')
     .map((t) => t.trim())
     .filter((t) => t.length > 0)
-    .map((t) => formatPhoneNumber(t));
+    .map((t) => formatTarget(t, countryCode));
 
   if (parsedTargets.length === 0) {
     throw new PhoneNumberValidationError('At least one target is required');
@@ -0,0 +1,91 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+  /** Appended to the family name, e.g. `_bucket` for histograms */
+  suffix?: string;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render metric families in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderPrometheusText(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${sample.suffix || ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Cumulative histogram for one label set
+ */
+export class Histogram {
+  private readonly counts: number[];
+  private sum: number = 0;
+  private count: number = 0;
+
+  constructor(private readonly buckets: readonly number[]) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        this.counts[i]++;
+      }
+    }
+  }
+
+  toSamples(labels: MetricLabels): MetricSample[] {
+    return [
+      ...this.buckets.map((bucket, i) => ({
+        labels: { ...labels, le: String(bucket) },
+        value: this.counts[i],
+        suffix: '_bucket',
+      })),
+      { labels: { ...labels, le: '+Inf' }, value: this.count, suffix: '_bucket' },
+      { labels, value: this.sum, suffix: '_sum' },
+      { labels, value: this.count, suffix: '_count' },
+    ];
+  }
+}
@@ -1,5 +1,21 @@
-import { parseTargets, PhoneNumberValidationError } from './phone.util';
+import { formatPhoneNumber, normalizeCountryCode, parseTargets, PhoneNumberValidationError, toChatId } from './phone.util';
+import { MediaSourceInput } from './media.util';
 import { readIntegerEnv } from './env.util';
+import { parseCsv } from './csv.util';
+import { isPrivateHostname } from './network.util';
+import { getDefaultScheduleTimeZone, getNextCronRun, ScheduleValidationError } from './schedule.util';
+import { findMissingTemplateVariables, renderTemplate, TemplateVariables } from './template.util';
+import { WEBHOOK_ALLOW_PRIVATE_URLS } from './webhook.util';
+import {
+  ApiKeyScope,
+  AuditResult,
+  DashboardRole,
+  MessageHistoryStatus,
+  RichMessage,
+  SendMessageType,
+  SuppressionSource,
+  WebhookEvent,
+} from '../types';
 
 export class RequestValidationError extends Error {
   constructor(message: string) {
@@ -8,15 +24,193 @@ export class RequestValidationError extends Error {
   }
 }
 
-export interface ValidatedSendRequest {
+/**
+ * When to send: once at `sendAt`, or on every match of a cron expression
+ */
+export type ValidatedSchedule =
+  | { type: 'once'; sendAt: Date }
+  | { type: 'recurring'; cron: string; timezone: string; nextRunAt: Date };
+
+/**
+ * Reply and mention fields shared by single sends
+ */
+export interface ValidatedReplyOptions {
+  quotedMessageId?: string;
+  /** E.164 numbers */
+  mentions?: string[];
+}
+
+export interface ValidatedSendRequest extends ValidatedReplyOptions {
   target: string;
   targets: string[];
+  /** Empty for rich messages */
   message: string;
+  rich?: RichMessage;
+  linkPreview?: boolean;
+  session?: string;
+  schedule?: ValidatedSchedule;
 }
 
 export interface ValidatedBroadcastRequest {
   targets: string[];
   message: string;
+  /** Personalised text per target (same order as targets) for template/variable broadcasts */
+  messages?: string[];
+  media?: MediaSourceInput;
+  session?: string;
+  schedule?: ValidatedSchedule;
+}
+
+export interface ValidatedSendMediaRequest extends ValidatedReplyOptions {
+  targets: string[];
+  caption: string;
+  media: MediaSourceInput;
+  session?: string;
+}
+
+export interface ValidatedTemplateRequest {
+  name: string;
+  body: string;
+}
+
+/**
+ * Resolves a template reference (id or name) to its body, or undefined when unknown
+ */
+export type TemplateLookup = (reference: string) => string | undefined;
+
+/**
+ * API key create/update fields; null clears an optional limit on update
+ */
+export interface ValidatedApiKeyRequest {
+  label: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number | null;
+  dailyQuota?: number | null;
+  expiresAt?: Date | null;
+}
+
+export interface ValidatedCreateSessionRequest {
+  id: string;
+  label?: string;
+}
+
+export interface ValidatedCreateGroupRequest {
+  name: string;
+  participants: string[];
+  session?: string;
+}
+
+export interface ValidatedGroupParticipantsRequest {
+  participants: string[];
+  session?: string;
+}
+
+export interface ValidatedNumberCheckRequest {
+  numbers: string[];
+  session?: string;
+}
+
+export interface ValidatedPairingRequest {
+  /** E.164 number of the WhatsApp account to link */
+  phoneNumber: string;
+  session?: string;
+}
+
+export interface ValidatedReactionRequest {
+  /** Empty to remove the reaction */
+  emoji: string;
+  session?: string;
+}
+
+export interface ValidatedEditMessageRequest {
+  message: string;
+  session?: string;
+}
+
+export interface ValidatedDeleteMessageQuery {
+  session?: string;
+  everyone: boolean;
+}
+
+export interface ValidatedChatListQuery {
+  session?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface ValidatedChatMessagesQuery {
+  session?: string;
+  limit: number;
+  /** Id of the oldest message of the previous page */
+  before?: string;
+}
+
+export interface ValidatedContactListQuery extends ValidatedChatListQuery {
+  search?: string;
+}
+
+export interface ValidatedWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+  description?: string;
+}
+
+export interface ValidatedInboxQuery {
+  session?: string;
+  since?: Date;
+  until?: Date;
+  chatId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface ValidatedHistoryQuery {
+  session?: string;
+  status?: MessageHistoryStatus;
+  since?: Date;
+  until?: Date;
+  /** Trailing digits of the target number, matched against the masked target */
+  target?: string;
+  correlationId?: string;
+  userId?: string;
+  limit: number;
+  offset: number;
+}
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+export interface ValidatedAuditQuery {
+  /** Action or action prefix, e.g. `auth.` for every login event */
+  action?: string;
+  actor?: string;
+  result?: AuditResult;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface ValidatedSuppressionRequest {
+  numbers: string[];
+  reason?: string;
+}
+
+export interface ValidatedSuppressionQuery {
+  source?: SuppressionSource;
+  limit: number;
+  offset: number;
+}
+
+export interface SuppressionImportRow {
+  number: string;
+  reason?: string;
+}
+
+export interface ValidatedSuppressionImport {
+  entries: SuppressionImportRow[];
+  /** Rows skipped because the number is invalid, with their 1-based row number */
+  invalid: { row: number; value: string; error: string }[];
 }
 
 export interface ValidatedLoginRequest {
@@ -24,10 +218,80 @@ export interface ValidatedLoginRequest {
   password: string;
 }
 
+export interface ValidatedTwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
+
+export interface ValidatedDashboardUserRequest {
+  username: string;
+  password: string;
+  role: DashboardRole;
+}
+
+export interface ValidatedDashboardUserUpdate {
+  role?: DashboardRole;
+  disabled?: boolean;
+}
+
 const MAX_MESSAGE_LENGTH = readIntegerEnv('MAX_MESSAGE_LENGTH', 4096, { min: 1, max: 65536 });
 const MAX_BROADCAST_TARGETS = readIntegerEnv('MAX_BROADCAST_TARGETS', 100, { min: 1, max: 1000 });
 const MAX_USERNAME_LENGTH = 128;
 const MAX_PASSWORD_LENGTH = 512;
+const MIN_DASHBOARD_PASSWORD_LENGTH = 12;
+// A 6-digit TOTP code or a recovery code such as 3f9a1-c07be
+const TWO_FACTOR_CODE_PATTERN = /^(\d{6}|[0-9a-f]{5}-?[0-9a-f]{5})$/i;
+const MAX_CHALLENGE_TOKEN_LENGTH = 2048;
+const DASHBOARD_USERNAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.@-]{2,63}$/;
+export const DASHBOARD_ROLES: readonly DashboardRole[] = ['viewer', 'operator', 'admin'];
+const MAX_SESSION_LABEL_LENGTH = 100;
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+const TEMPLATE_VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_TEMPLATE_VARIABLES = 50;
+// LocalAuth only accepts alphanumerics, underscores and hyphens in client ids
+const SESSION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,31}$/;
+const GROUP_ID_INPUT_PATTERN = /^\d{5,25}(-\d{5,15})?(@g\.us)?$/;
+const MAX_GROUP_NAME_LENGTH = 100;
+const MAX_GROUP_PARTICIPANTS = 256;
+const MAX_MENTIONS = 256;
+// Short ids (3EB0...) or serialized ids (true_6281234567890@c.us_3EB0...)
+const MESSAGE_ID_PATTERN = /^[A-Za-z0-9@._:-]{6,256}$/;
+const MAX_REACTION_LENGTH = 16;
+export const SEND_MESSAGE_TYPES: readonly SendMessageType[] = ['text', 'location', 'contact', 'poll'];
+const MAX_LOCATION_TEXT_LENGTH = 256;
+const MAX_CONTACT_NAME_LENGTH = 100;
+const MAX_POLL_QUESTION_LENGTH = 255;
+const MAX_POLL_OPTION_LENGTH = 100;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 12;
+const CHAT_ID_PATTERN = /^[0-9A-Za-z.-]{5,64}@(c\.us|g\.us|lid)$/;
+const MAX_CONTACT_SEARCH_LENGTH = 100;
+const MAX_NUMBER_CHECK_BATCH = readIntegerEnv('MAX_NUMBER_CHECK_BATCH', 50, { min: 1, max: 1000 });
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = ['message.ack', 'message.received', 'schedule.failed'];
+const MAX_SCHEDULE_AHEAD_DAYS = readIntegerEnv('MAX_SCHEDULE_AHEAD_DAYS', 365, { min: 1, max: 3650 });
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['send', 'broadcast', 'status', 'inbox', 'read', 'admin'];
+const MAX_API_KEY_LABEL_LENGTH = 100;
+const MAX_SUPPRESSION_BATCH = 1000;
+const MAX_SUPPRESSION_IMPORT_ROWS = 10000;
+const MAX_SUPPRESSION_REASON_LENGTH = 200;
+export const SUPPRESSION_SOURCES: readonly SuppressionSource[] = ['api', 'import', 'keyword'];
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// Visible ASCII only, as the key is echoed in logs and compared byte for byte
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]+$/;
+export const MESSAGE_HISTORY_STATUSES: readonly MessageHistoryStatus[] = [
+  'sent',
+  'error',
+  'invalid_number',
+  'not_on_whatsapp',
+  'suppressed',
+];
+// Only the last 4 digits of a target are stored
+const HISTORY_TARGET_SUFFIX_PATTERN = /^\d{1,4}$/;
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
 
 function readStringField(body: unknown, field: string): string {
   if (!body || typeof body !== 'object' || !(field in body)) {
@@ -49,74 +313,893 @@ function readStringField(body: unknown, field: string): string {
   return trimmed;
 }
 
-function validateMessage(body: unknown): string {
-  const message = readStringField(body, 'message');
+function readOptionalStringField(body: unknown, field: string): string | undefined {
+  if (!body || typeof body !== 'object' || !(field in body)) {
+    return undefined;
+  }
+
+  const value = (body as Record<string, unknown>)[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return readStringField(body, field);
+}
+
+export function validateSessionId(value: unknown, field: string = 'session'): string {
+  if (typeof value !== 'string' || !SESSION_ID_PATTERN.test(value.trim())) {
+    throw new RequestValidationError(
+      `${field} must be 1-32 letters, digits, underscores or hyphens and start with a letter or digit`
+    );
+  }
+
+  return value.trim();
+}
+
+function readOptionalSession(body: unknown): string | undefined {
+  const session = readOptionalStringField(body, 'session');
+  return session === undefined ? undefined : validateSessionId(session);
+}
+
+/**
+ * Optional `countryCode` (region such as "SG" or calling code such as "65") used for
+ * targets written in national format; defaults to DEFAULT_COUNTRY_CODE
+ */
+function readOptionalCountryCode(body: unknown): string | undefined {
+  const countryCode = readOptionalStringField(body, 'countryCode');
+  if (countryCode === undefined) {
+    return undefined;
+  }
+
+  return toRequestValidationError(() => normalizeCountryCode(countryCode), 'countryCode: ');
+}
+
+function toRequestValidationError<T>(action: () => T, prefix: string = ''): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof PhoneNumberValidationError) {
+      throw new RequestValidationError(`${prefix}${error.message}`);
+    }
+
+    throw error;
+  }
+}
+
+function validateMessage(body: unknown, field: string = 'message'): string {
+  const message = readStringField(body, field);
 
   if (message.length > MAX_MESSAGE_LENGTH) {
-    throw new RequestValidationError(`message must not exceed ${MAX_MESSAGE_LENGTH} characters`);
+    throw new RequestValidationError(`${field} must not exceed ${MAX_MESSAGE_LENGTH} characters`);
   }
 
   return message;
 }
 
+function validateOptionalMessage(body: unknown, field: string): string {
+  return readOptionalStringField(body, field) === undefined ? '' : validateMessage(body, field);
+}
+
+/**
+ * Read the message text from either `message` or a stored `template`
+ */
+function readMessageSource(
+  body: unknown,
+  lookupTemplate: TemplateLookup | undefined,
+  optional: boolean = false
+): { text: string; isTemplate: boolean } {
+  const template = readOptionalStringField(body, 'template');
+
+  if (template === undefined) {
+    return {
+      text: optional ? validateOptionalMessage(body, 'message') : validateMessage(body),
+      isTemplate: false,
+    };
+  }
+
+  if (readOptionalStringField(body, 'message') !== undefined) {
+    throw new RequestValidationError('Provide either message or template, not both');
+  }
+
+  const templateBody = lookupTemplate?.(template);
+  if (templateBody === undefined) {
+    throw new RequestValidationError(`Template not found: ${template}`);
+  }
+
+  return { text: templateBody, isTemplate: true };
+}
+
+function readTemplateVariables(value: unknown, field: string): TemplateVariables | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new RequestValidationError(`${field} must be an object`);
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_TEMPLATE_VARIABLES) {
+    throw new RequestValidationError(`${field} must not have more than ${MAX_TEMPLATE_VARIABLES} entries`);
+  }
+
+  const variables: TemplateVariables = {};
+  for (const [name, rawValue] of entries) {
+    if (!TEMPLATE_VARIABLE_NAME_PATTERN.test(name)) {
+      throw new RequestValidationError(`${field}.${name} is not a valid variable name`);
+    }
+
+    if (typeof rawValue !== 'string' && typeof rawValue !== 'number' && typeof rawValue !== 'boolean') {
+      throw new RequestValidationError(`${field}.${name} must be a string, number or boolean`);
+    }
+
+    variables[name] = String(rawValue);
+  }
+
+  return variables;
+}
+
+/**
+ * Substitute variables into a message, rejecting placeholders without a value
+ */
+function renderPersonalizedMessage(text: string, variables: TemplateVariables, field: string): string {
+  const missing = findMissingTemplateVariables(text, variables);
+  if (missing.length > 0) {
+    throw new RequestValidationError(`${field} is missing template variable(s): ${missing.join(', ')}`);
+  }
+
+  const rendered = renderTemplate(text, variables);
+  if (rendered.length > MAX_MESSAGE_LENGTH) {
+    throw new RequestValidationError(`message for ${field} must not exceed ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  return rendered;
+}
+
+/**
+ * Read the optional `sendAt` (ISO 8601) or `cron` + `timezone` scheduling fields
+ */
+function readSchedule(body: unknown): ValidatedSchedule | undefined {
+  const sendAt = readOptionalStringField(body, 'sendAt');
+  const cron = readOptionalStringField(body, 'cron');
+  const timezone = readOptionalStringField(body, 'timezone');
+
+  if (sendAt !== undefined && cron !== undefined) {
+    throw new RequestValidationError('Provide either sendAt or cron, not both');
+  }
+
+  if (timezone !== undefined && cron === undefined) {
+    throw new RequestValidationError('timezone requires cron');
+  }
+
+  if (sendAt !== undefined) {
+    const date = new Date(sendAt);
+    if (Number.isNaN(date.getTime())) {
+      throw new RequestValidationError('sendAt must be an ISO 8601 timestamp');
+    }
+
+    if (date.getTime() <= Date.now()) {
+      throw new RequestValidationError('sendAt must be in the future');
+    }
+
+    if (date.getTime() > Date.now() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new RequestValidationError(`sendAt must be within ${MAX_SCHEDULE_AHEAD_DAYS} days`);
+    }
+
+    return { type: 'once', sendAt: date };
+  }
+
+  if (cron !== undefined) {
+    const zone = timezone || getDefaultScheduleTimeZone();
+
+    try {
+      return { type: 'recurring', cron, timezone: zone, nextRunAt: getNextCronRun(cron, zone) };
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        throw new RequestValidationError(error.message);
+      }
+
+      throw error;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate the shape of a media source; decoding, fetching and limits are applied later
+ * by resolveMediaAttachment.
+ */
+function validateMediaSource(
+  source: unknown,
+  upload: MediaSourceInput['upload'] | undefined,
+  fieldPrefix: string = ''
+): MediaSourceInput {
+  const data = readOptionalStringField(source, 'data');
+  const url = readOptionalStringField(source, 'url');
+  const sourceCount = [data, url, upload].filter((value) => value !== undefined).length;
+
+  if (sourceCount !== 1) {
+    throw new RequestValidationError(`Exactly one of ${fieldPrefix}data, ${fieldPrefix}url or file is required`);
+  }
+
+  if (url !== undefined) {
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+    } catch (error) {
+      throw new RequestValidationError(`${fieldPrefix}url must be a valid URL`);
+    }
+
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+      throw new RequestValidationError(`${fieldPrefix}url must use http or https`);
+    }
+  }
+
+  return {
+    data,
+    url,
+    upload,
+    mimetype: readOptionalStringField(source, 'mimetype'),
+    filename: readOptionalStringField(source, 'filename'),
+  };
+}
+
 function assertTargetLimit(targets: string[]): void {
   if (targets.length > MAX_BROADCAST_TARGETS) {
     throw new RequestValidationError(`targets must not exceed ${MAX_BROADCAST_TARGETS} recipients`);
   }
 }
 
-function parseRequestTargets(targets: string): string[] {
-  try {
-    return parseTargets(targets);
-  } catch (error) {
-    if (error instanceof PhoneNumberValidationError) {
-      throw new RequestValidationError(error.message);
+function parseRequestTargets(targets: string, countryCode?: string): string[] {
+  return toRequestValidationError(() => parseTargets(targets, countryCode));
+}
+
+export function validateMessageId(value: unknown, field: string = 'id'): string {
+  if (typeof value !== 'string' || !MESSAGE_ID_PATTERN.test(value.trim())) {
+    throw new RequestValidationError(`${field} must be a WhatsApp message id`);
+  }
+
+  return value.trim();
+}
+
+/**
+ * Optional `quotedMessageId` and `mentions` of a single send
+ */
+function readReplyOptions(body: unknown): ValidatedReplyOptions {
+  const source = body as Record<string, unknown>;
+  const quotedMessageId = source.quotedMessageId === undefined || source.quotedMessageId === null
+    ? undefined
+    : validateMessageId(source.quotedMessageId, 'quotedMessageId');
+  const mentions = source.mentions === undefined || source.mentions === null
+    ? undefined
+    : readPhoneNumberList(body, 'mentions', MAX_MENTIONS);
+
+  return { quotedMessageId, mentions };
+}
+
+function readObjectField(body: unknown, field: string): Record<string, unknown> {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[field] : undefined;
+
+  if (value === undefined || value === null) {
+    throw new RequestValidationError(`Missing required field: ${field}`);
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new RequestValidationError(`${field} must be an object`);
+  }
+
+  return value as Record<string, unknown>;
+}
+
+/**
+ * A string field of a nested object; errors name the full path (e.g. `poll.question`)
+ */
+function readNestedString(
+  source: Record<string, unknown>,
+  path: string,
+  field: string,
+  maxLength: number,
+  optional: boolean = false
+): string | undefined {
+  const value = source[field];
+
+  if (value === undefined || value === null) {
+    if (optional) return undefined;
+    throw new RequestValidationError(`Missing required field: ${path}.${field}`);
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RequestValidationError(`${path}.${field} must be a non-empty string`);
+  }
+
+  if (value.trim().length > maxLength) {
+    throw new RequestValidationError(`${path}.${field} must not exceed ${maxLength} characters`);
+  }
+
+  return value.trim();
+}
+
+function readCoordinate(source: Record<string, unknown>, field: string, limit: number): number {
+  const value = source[field];
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < -limit || value > limit) {
+    throw new RequestValidationError(`location.${field} must be a number between -${limit} and ${limit}`);
+  }
+
+  return value;
+}
+
+function readLocation(body: unknown): RichMessage {
+  const location = readObjectField(body, 'location');
+  const url = readNestedString(location, 'location', 'url', MAX_WEBHOOK_URL_LENGTH, true);
+
+  if (url !== undefined && !/^https?:\/\/\S+$/i.test(url)) {
+    throw new RequestValidationError('location.url must be an http or https URL');
+  }
+
+  return {
+    type: 'location',
+    latitude: readCoordinate(location, 'latitude', 90),
+    longitude: readCoordinate(location, 'longitude', 180),
+    name: readNestedString(location, 'location', 'name', MAX_LOCATION_TEXT_LENGTH, true),
+    address: readNestedString(location, 'location', 'address', MAX_LOCATION_TEXT_LENGTH, true),
+    url,
+  };
+}
+
+function readContactCard(body: unknown, countryCode: string | undefined): RichMessage {
+  const contact = readObjectField(body, 'contact');
+  const phoneNumber = readNestedString(contact, 'contact', 'phoneNumber', 32) as string;
+
+  return {
+    type: 'contact',
+    name: readNestedString(contact, 'contact', 'name', MAX_CONTACT_NAME_LENGTH) as string,
+    phoneNumber: toRequestValidationError(() => formatPhoneNumber(phoneNumber, countryCode), 'contact.phoneNumber: '),
+    organization: readNestedString(contact, 'contact', 'organization', MAX_CONTACT_NAME_LENGTH, true),
+  };
+}
+
+function readPoll(body: unknown): RichMessage {
+  const poll = readObjectField(body, 'poll');
+  const options = poll.options;
+  const allowMultipleAnswers = poll.allowMultipleAnswers ?? false;
+
+  if (!Array.isArray(options) || options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    throw new RequestValidationError(`poll.options must be an array of ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} strings`);
+  }
+
+  const names = options.map((option, index) => {
+    if (typeof option !== 'string' || !option.trim()) {
+      throw new RequestValidationError(`poll.options[${index}] must be a non-empty string`);
     }
 
-    throw error;
+    if (option.trim().length > MAX_POLL_OPTION_LENGTH) {
+      throw new RequestValidationError(`poll.options[${index}] must not exceed ${MAX_POLL_OPTION_LENGTH} characters`);
+    }
+
+    return option.trim();
+  });
+
+  if (new Set(names).size !== names.length) {
+    throw new RequestValidationError('poll.options must not contain duplicates');
+  }
+
+  if (typeof allowMultipleAnswers !== 'boolean') {
+    throw new RequestValidationError('poll.allowMultipleAnswers must be a boolean');
   }
+
+  return {
+    type: 'poll',
+    question: readNestedString(poll, 'poll', 'question', MAX_POLL_QUESTION_LENGTH) as string,
+    options: names,
+    allowMultipleAnswers,
+  };
 }
 
-export function validateSendRequest(body: unknown): ValidatedSendRequest {
+function readSendMessageType(body: unknown): SendMessageType {
+  const type = readOptionalStringField(body, 'type') ?? 'text';
+
+  if (!SEND_MESSAGE_TYPES.includes(type as SendMessageType)) {
+    throw new RequestValidationError(`type must be one of: ${SEND_MESSAGE_TYPES.join(', ')}`);
+  }
+
+  return type as SendMessageType;
+}
+
+/**
+ * Validate a single send. `message` may be replaced by `template` (id or name) plus
+ * `variables`; placeholders are substituted here so missing values are rejected up front.
+ */
+export function validateSendRequest(body: unknown, lookupTemplate?: TemplateLookup): ValidatedSendRequest {
   const target = readStringField(body, 'target');
-  const message = validateMessage(body);
-  const targets = parseRequestTargets(target);
+  const countryCode = readOptionalCountryCode(body);
+  const type = readSendMessageType(body);
+
+  if (type !== 'text') {
+    return validateRichSendRequest(body, target, type, countryCode);
+  }
+
+  const linkPreview = (body as Record<string, unknown>).linkPreview;
+  if (linkPreview !== undefined && typeof linkPreview !== 'boolean') {
+    throw new RequestValidationError('linkPreview must be a boolean');
+  }
+
+  const source = readMessageSource(body, lookupTemplate);
+  const variables = readTemplateVariables((body as Record<string, unknown>).variables, 'variables');
+  const message = source.isTemplate || variables
+    ? renderPersonalizedMessage(source.text, variables || {}, 'variables')
+    : source.text;
+  const targets = parseRequestTargets(target, countryCode);
   assertTargetLimit(targets);
 
-  return { target, targets, message };
+  return {
+    target,
+    targets,
+    message,
+    linkPreview,
+    ...readReplyOptions(body),
+    session: readOptionalSession(body),
+    schedule: readSchedule(body),
+  };
 }
 
-export function validateBroadcastRequest(body: unknown): ValidatedBroadcastRequest {
+/**
+ * Location, contact card or poll send; the payload is in the field named after the type
+ */
+function validateRichSendRequest(
+  body: unknown,
+  target: string,
+  type: Exclude<SendMessageType, 'text'>,
+  countryCode: string | undefined
+): ValidatedSendRequest {
+  const source = body as Record<string, unknown>;
+
+  for (const field of ['message', 'template', 'variables', 'linkPreview']) {
+    if (source[field] !== undefined && source[field] !== null) {
+      throw new RequestValidationError(`${field} is only supported for text messages`);
+    }
+  }
+
+  const rich = type === 'location'
+    ? readLocation(body)
+    : type === 'contact'
+      ? readContactCard(body, countryCode)
+      : readPoll(body);
+  const targets = parseRequestTargets(target, countryCode);
+  assertTargetLimit(targets);
+
+  return {
+    target,
+    targets,
+    message: '',
+    rich,
+    ...readReplyOptions(body),
+    session: readOptionalSession(body),
+    schedule: readSchedule(body),
+  };
+}
+
+/**
+ * Validate a broadcast. Target entries are phone number strings or
+ * `{ "target": "...", "variables": { ... } }` objects; with a template or variables
+ * the message is rendered per target, with entry variables overriding top-level ones.
+ */
+export function validateBroadcastRequest(body: unknown, lookupTemplate?: TemplateLookup): ValidatedBroadcastRequest {
   if (!body || typeof body !== 'object' || !('targets' in body)) {
     throw new RequestValidationError('Missing required field: targets');
   }
 
   const rawTargets = (body as Record<string, unknown>).targets;
-  const message = validateMessage(body);
-  let targets: string[];
+  const rawMedia = (body as Record<string, unknown>).media;
+  const countryCode = readOptionalCountryCode(body);
+  let media: MediaSourceInput | undefined;
+  let entries: Array<{ targets: string[]; variables?: TemplateVariables; field: string }>;
+
+  if (rawMedia !== undefined && rawMedia !== null) {
+    if (typeof rawMedia !== 'object' || Array.isArray(rawMedia)) {
+      throw new RequestValidationError('media must be an object');
+    }
+
+    media = validateMediaSource(rawMedia, undefined, 'media.');
+  }
+
+  const source = readMessageSource(body, lookupTemplate, media !== undefined);
+  const sharedVariables = readTemplateVariables((body as Record<string, unknown>).variables, 'variables');
 
   if (Array.isArray(rawTargets)) {
     if (rawTargets.length === 0) {
       throw new RequestValidationError('targets must not be empty');
     }
 
-    targets = rawTargets.map((target, index) => {
-      if (typeof target !== 'string' || !target.trim()) {
-        throw new RequestValidationError(`targets[${index}] must be a non-empty string`);
+    entries = rawTargets.map((entry, index) => {
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        const target = (entry as Record<string, unknown>).target;
+        if (typeof target !== 'string' || !target.trim()) {
+          throw new RequestValidationError(`targets[${index}].target must be a non-empty string`);
+        }
+
+        return {
+          targets: parseRequestTargets(target, countryCode),
+          variables: readTemplateVariables((entry as Record<string, unknown>).variables, `targets[${index}].variables`),
+          field: `targets[${index}].variables`,
+        };
+      }
+
+      if (typeof entry !== 'string' || !entry.trim()) {
+        throw new RequestValidationError(`targets[${index}] must be a non-empty string or target object`);
       }
 
-      return parseRequestTargets(target).join(',');
+      return { targets: parseRequestTargets(entry, countryCode), field: `targets[${index}]` };
     });
   } else if (typeof rawTargets === 'string') {
-    targets = parseRequestTargets(rawTargets);
+    entries = [{ targets: parseRequestTargets(rawTargets, countryCode), field: 'targets' }];
   } else {
-    throw new RequestValidationError('targets must be an array of strings or comma-separated string');
+    throw new RequestValidationError('targets must be an array of strings or target objects, or a comma-separated string');
   }
 
-  const flattenedTargets = parseRequestTargets(targets.join(','));
+  const flattenedTargets = entries.flatMap((entry) => entry.targets);
   assertTargetLimit(flattenedTargets);
 
-  return { targets: flattenedTargets, message };
+  const isPersonalized = source.isTemplate || !!sharedVariables || entries.some((entry) => entry.variables);
+  const messages = isPersonalized
+    ? entries.flatMap((entry) => {
+      const rendered = renderPersonalizedMessage(
+        source.text,
+        { ...sharedVariables, ...entry.variables },
+        entry.field
+      );
+      return entry.targets.map(() => rendered);
+    })
+    : undefined;
+
+  return {
+    targets: flattenedTargets,
+    message: source.text,
+    messages,
+    media,
+    session: readOptionalSession(body),
+    schedule: readSchedule(body),
+  };
+}
+
+export function validateSendMediaRequest(
+  body: unknown,
+  upload?: MediaSourceInput['upload']
+): ValidatedSendMediaRequest {
+  const target = readStringField(body, 'target');
+  const targets = parseRequestTargets(target, readOptionalCountryCode(body));
+  assertTargetLimit(targets);
+
+  return {
+    targets,
+    caption: validateOptionalMessage(body, 'caption'),
+    media: validateMediaSource(body, upload),
+    ...readReplyOptions(body),
+    session: readOptionalSession(body),
+  };
+}
+
+/**
+ * Validate a template create (all fields) or update (`partial`, at least one field)
+ */
+export function validateTemplateRequest(body: unknown, partial: true): Partial<ValidatedTemplateRequest>;
+export function validateTemplateRequest(body: unknown, partial?: false): ValidatedTemplateRequest;
+export function validateTemplateRequest(body: unknown, partial: boolean = false): Partial<ValidatedTemplateRequest> {
+  const name = partial ? readOptionalStringField(body, 'name') : readStringField(body, 'name');
+  const templateBody = partial
+    ? readOptionalStringField(body, 'body') === undefined ? undefined : validateMessage(body, 'body')
+    : validateMessage(body, 'body');
+
+  if (name !== undefined && !TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new RequestValidationError(
+      'name must be 1-64 letters, digits, dots, underscores or hyphens and start with a letter or digit'
+    );
+  }
+
+  if (partial && name === undefined && templateBody === undefined) {
+    throw new RequestValidationError('At least one of name or body is required');
+  }
+
+  return { name, body: templateBody };
+}
+
+export function validateIdempotencyKey(value: unknown): string {
+  if (typeof value !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(value)) {
+    throw new RequestValidationError('Idempotency-Key must be non-empty visible ASCII without spaces');
+  }
+
+  if (value.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new RequestValidationError(`Idempotency-Key must not exceed ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+
+  return value;
+}
+
+function readOptionalIntegerField(body: unknown, field: string, min: number, max: number): number | null | undefined {
+  if (!body || typeof body !== 'object' || !(field in body)) {
+    return undefined;
+  }
+
+  const value = (body as Record<string, unknown>)[field];
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new RequestValidationError(`${field} must be an integer between ${min} and ${max}`);
+  }
+
+  return value;
+}
+
+/**
+ * Validate an API key create (label and scopes required) or update (`partial`)
+ */
+export function validateApiKeyRequest(body: unknown, partial: true): Partial<ValidatedApiKeyRequest>;
+export function validateApiKeyRequest(body: unknown, partial?: false): ValidatedApiKeyRequest;
+export function validateApiKeyRequest(body: unknown, partial: boolean = false): Partial<ValidatedApiKeyRequest> {
+  if (!body || typeof body !== 'object') {
+    throw new RequestValidationError('Request body must be an object');
+  }
+
+  const label = partial ? readOptionalStringField(body, 'label') : readStringField(body, 'label');
+  if (label !== undefined && label.length > MAX_API_KEY_LABEL_LENGTH) {
+    throw new RequestValidationError(`label must not exceed ${MAX_API_KEY_LABEL_LENGTH} characters`);
+  }
+
+  const rawScopes = (body as Record<string, unknown>).scopes;
+  let scopes: ApiKeyScope[] | undefined;
+
+  if (rawScopes !== undefined || !partial) {
+    if (!Array.isArray(rawScopes) || rawScopes.length === 0) {
+      throw new RequestValidationError('scopes must be a non-empty array');
+    }
+
+    scopes = [...new Set(rawScopes.map((scope, index) => {
+      if (typeof scope !== 'string' || !API_KEY_SCOPES.includes(scope as ApiKeyScope)) {
+        throw new RequestValidationError(`scopes[${index}] must be one of: ${API_KEY_SCOPES.join(', ')}`);
+      }
+
+      return scope as ApiKeyScope;
+    }))];
+  }
+
+  let expiresAt: Date | null | undefined;
+  const rawExpiresAt = (body as Record<string, unknown>).expiresAt;
+
+  if (rawExpiresAt === null) {
+    expiresAt = null;
+  } else if (rawExpiresAt !== undefined) {
+    expiresAt = new Date(typeof rawExpiresAt === 'string' ? rawExpiresAt : NaN);
+
+    if (Number.isNaN(expiresAt.getTime())) {
+      throw new RequestValidationError('expiresAt must be an ISO 8601 timestamp');
+    }
+
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new RequestValidationError('expiresAt must be in the future');
+    }
+  }
+
+  const result: Partial<ValidatedApiKeyRequest> = {
+    label,
+    scopes,
+    rateLimitPerMinute: readOptionalIntegerField(body, 'rateLimitPerMinute', 1, 10000),
+    dailyQuota: readOptionalIntegerField(body, 'dailyQuota', 1, 10000000),
+    expiresAt,
+  };
+
+  if (partial && Object.values(result).every((value) => value === undefined)) {
+    throw new RequestValidationError('At least one field is required');
+  }
+
+  return result;
+}
+
+export function validateCreateSessionRequest(body: unknown): ValidatedCreateSessionRequest {
+  const id = validateSessionId(readStringField(body, 'id'), 'id');
+  const label = readOptionalStringField(body, 'label');
+
+  if (label !== undefined && label.length > MAX_SESSION_LABEL_LENGTH) {
+    throw new RequestValidationError(`label must not exceed ${MAX_SESSION_LABEL_LENGTH} characters`);
+  }
+
+  return { id, label };
+}
+
+/**
+ * Accepts a group id with or without the `@g.us` suffix and returns it with the suffix
+ */
+export function validateGroupId(value: unknown, field: string = 'id'): string {
+  if (typeof value !== 'string' || !GROUP_ID_INPUT_PATTERN.test(value.trim())) {
+    throw new RequestValidationError(`${field} must be a WhatsApp group id (e.g. 120363012345678901@g.us)`);
+  }
+
+  const groupId = value.trim();
+  return groupId.endsWith('@g.us') ? groupId : `${groupId}@g.us`;
+}
+
+/**
+ * Accepts a WhatsApp chat id (`...@c.us`, `...@g.us`, `...@lid`), a group id without
+ * suffix or a phone number, and returns the chat id. Groups are rejected when
+ * `allowGroups` is false, e.g. for contacts.
+ */
+export function validateChatId(value: unknown, field: string = 'id', allowGroups: boolean = true): string {
+  const chatId = typeof value === 'string' ? value.trim() : '';
+  const expected = allowGroups ? 'a phone number or WhatsApp chat id' : 'a phone number or WhatsApp contact id';
+  let resolved: string;
+
+  if (CHAT_ID_PATTERN.test(chatId)) {
+    resolved = chatId;
+  } else if (/^\d{5,25}-\d{5,15}$/.test(chatId)) {
+    resolved = `${chatId}@g.us`;
+  } else {
+    try {
+      resolved = toChatId(formatPhoneNumber(chatId));
+    } catch (error) {
+      throw new RequestValidationError(`${field} must be ${expected}`);
+    }
+  }
+
+  if (!allowGroups && resolved.endsWith('@g.us')) {
+    throw new RequestValidationError(`${field} must be ${expected}`);
+  }
+
+  return resolved;
+}
+
+function readPhoneNumberList(body: unknown, field: string, maxEntries: number): string[] {
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>)[field] : undefined;
+  let entries: unknown[];
+
+  if (value === undefined) {
+    throw new RequestValidationError(`Missing required field: ${field}`);
+  } else if (typeof value === 'string') {
+    entries = value.split(',').map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+  } else if (Array.isArray(value)) {
+    entries = value;
+  } else {
+    throw new RequestValidationError(`${field} must be an array of phone numbers or a comma-separated string`);
+  }
+
+  if (entries.length === 0) {
+    throw new RequestValidationError(`${field} must not be empty`);
+  }
+
+  if (entries.length > maxEntries) {
+    throw new RequestValidationError(`${field} must not exceed ${maxEntries} numbers`);
+  }
+
+  const countryCode = readOptionalCountryCode(body);
+  const numbers = entries.map((entry, index) => {
+    if (typeof entry !== 'string') {
+      throw new RequestValidationError(`${field}[${index}] must be a string`);
+    }
+
+    return toRequestValidationError(() => formatPhoneNumber(entry, countryCode), `${field}[${index}]: `);
+  });
+
+  return [...new Set(numbers)];
+}
+
+function validateSuppressionReason(reason: string | undefined, field: string = 'reason'): string | undefined {
+  if (reason !== undefined && reason.length > MAX_SUPPRESSION_REASON_LENGTH) {
+    throw new RequestValidationError(`${field} must not exceed ${MAX_SUPPRESSION_REASON_LENGTH} characters`);
+  }
+
+  return reason;
+}
+
+export function validateSuppressionRequest(body: unknown): ValidatedSuppressionRequest {
+  return {
+    numbers: readPhoneNumberList(body, 'numbers', MAX_SUPPRESSION_BATCH),
+    reason: validateSuppressionReason(readOptionalStringField(body, 'reason')),
+  };
+}
+
+/**
+ * The `:number` of a suppression route, normalized to E.164
+ */
+export function validateSuppressionNumber(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new RequestValidationError('number must be a string');
+  }
+
+  return toRequestValidationError(() => formatPhoneNumber(value), 'number: ');
+}
+
+/**
+ * A CSV upload with the number in the first column and an optional reason in the
+ * second. A first row without digits is taken as a header. Invalid numbers are
+ * reported per row instead of failing the whole import.
+ */
+export function validateSuppressionImport(body: unknown, query: unknown): ValidatedSuppressionImport {
+  if (typeof body !== 'string' || !body.trim()) {
+    throw new RequestValidationError('Request body must be CSV with Content-Type: text/csv');
+  }
+
+  const countryCode = readOptionalCountryCode(query);
+  const rows = parseCsv(body);
+  const firstDataRow = rows.length > 0 && !/\d/.test(rows[0][0]) ? 1 : 0;
+
+  if (rows.length - firstDataRow > MAX_SUPPRESSION_IMPORT_ROWS) {
+    throw new RequestValidationError(`CSV must not exceed ${MAX_SUPPRESSION_IMPORT_ROWS} rows`);
+  }
+
+  const entries = new Map<string, SuppressionImportRow>();
+  const invalid: ValidatedSuppressionImport['invalid'] = [];
+
+  rows.slice(firstDataRow).forEach((row, index) => {
+    // Exports escape a leading + as '+ so spreadsheets do not read it as a formula
+    const value = row[0].trim().replace(/^'/, '');
+
+    try {
+      const number = toRequestValidationError(() => formatPhoneNumber(value, countryCode));
+      const reason = validateSuppressionReason(row[1]?.trim() || undefined, 'reason');
+
+      if (!entries.has(number)) {
+        entries.set(number, { number, reason });
+      }
+    } catch (error) {
+      if (!(error instanceof RequestValidationError)) {
+        throw error;
+      }
+
+      invalid.push({ row: firstDataRow + index + 1, value, error: error.message });
+    }
+  });
+
+  return { entries: [...entries.values()], invalid };
+}
+
+export function validateCreateGroupRequest(body: unknown): ValidatedCreateGroupRequest {
+  const name = readStringField(body, 'name');
+
+  if (name.length > MAX_GROUP_NAME_LENGTH) {
+    throw new RequestValidationError(`name must not exceed ${MAX_GROUP_NAME_LENGTH} characters`);
+  }
+
+  return { name, participants: readPhoneNumberList(body, 'participants', MAX_GROUP_PARTICIPANTS), session: readOptionalSession(body) };
+}
+
+export function validateGroupParticipantsRequest(body: unknown): ValidatedGroupParticipantsRequest {
+  return { participants: readPhoneNumberList(body, 'participants', MAX_GROUP_PARTICIPANTS), session: readOptionalSession(body) };
+}
+
+export function validateNumberCheckRequest(body: unknown): ValidatedNumberCheckRequest {
+  return { numbers: readPhoneNumberList(body, 'numbers', MAX_NUMBER_CHECK_BATCH), session: readOptionalSession(body) };
+}
+
+export function validatePairingRequest(body: unknown): ValidatedPairingRequest {
+  const phoneNumber = readStringField(body, 'phoneNumber');
+  const countryCode = readOptionalCountryCode(body);
+
+  return {
+    phoneNumber: toRequestValidationError(() => formatPhoneNumber(phoneNumber, countryCode), 'phoneNumber: '),
+    session: readOptionalSession(body),
+  };
+}
+
+export function validateReactionRequest(body: unknown): ValidatedReactionRequest {
+  if (!body || typeof body !== 'object' || !('emoji' in body)) {
+    throw new RequestValidationError('Missing required field: emoji');
+  }
+
+  const emoji = (body as Record<string, unknown>).emoji;
+  if (typeof emoji !== 'string') {
+    throw new RequestValidationError('emoji must be a string');
+  }
+
+  if (emoji.trim().length > MAX_REACTION_LENGTH) {
+    throw new RequestValidationError(`emoji must not exceed ${MAX_REACTION_LENGTH} characters`);
+  }
+
+  return { emoji: emoji.trim(), session: readOptionalSession(body) };
+}
+
+export function validateEditMessageRequest(body: unknown): ValidatedEditMessageRequest {
+  return { message: validateMessage(body), session: readOptionalSession(body) };
 }
 
 export function validateLoginRequest(body: unknown): ValidatedLoginRequest {
@@ -133,3 +1216,372 @@ export function validateLoginRequest(body: unknown): ValidatedLoginRequest {
 
   return { username, password };
 }
+
+/**
+ * Body with a two-factor `code`: a TOTP code from the authenticator app or a recovery code
+ */
+export function validateTwoFactorCodeRequest(body: unknown): { code: string } {
+  const code = readStringField(body, 'code').replace(/\s/g, '');
+
+  if (!TWO_FACTOR_CODE_PATTERN.test(code)) {
+    throw new RequestValidationError('code must be a 6-digit code or a recovery code');
+  }
+
+  return { code };
+}
+
+export function validateTwoFactorLoginRequest(body: unknown): ValidatedTwoFactorLoginRequest {
+  const challengeToken = readStringField(body, 'challengeToken');
+
+  if (challengeToken.length > MAX_CHALLENGE_TOKEN_LENGTH) {
+    throw new RequestValidationError(`challengeToken must not exceed ${MAX_CHALLENGE_TOKEN_LENGTH} characters`);
+  }
+
+  return { challengeToken, ...validateTwoFactorCodeRequest(body) };
+}
+
+function validateNewPassword(body: unknown): string {
+  const password = readStringField(body, 'password');
+
+  if (password.length < MIN_DASHBOARD_PASSWORD_LENGTH) {
+    throw new RequestValidationError(`password must be at least ${MIN_DASHBOARD_PASSWORD_LENGTH} characters`);
+  }
+
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    throw new RequestValidationError(`password must not exceed ${MAX_PASSWORD_LENGTH} characters`);
+  }
+
+  return password;
+}
+
+function validateDashboardRole(value: unknown): DashboardRole {
+  if (typeof value !== 'string' || !DASHBOARD_ROLES.includes(value as DashboardRole)) {
+    throw new RequestValidationError(`role must be one of: ${DASHBOARD_ROLES.join(', ')}`);
+  }
+
+  return value as DashboardRole;
+}
+
+export function validateDashboardUserRequest(body: unknown): ValidatedDashboardUserRequest {
+  const username = readStringField(body, 'username');
+
+  if (!DASHBOARD_USERNAME_PATTERN.test(username)) {
+    throw new RequestValidationError(
+      'username must be 3-64 letters, digits, dots, underscores, @ or hyphens and start with a letter or digit'
+    );
+  }
+
+  return {
+    username,
+    password: validateNewPassword(body),
+    role: validateDashboardRole((body as Record<string, unknown>).role),
+  };
+}
+
+/**
+ * Role and/or enabled state of a dashboard user; at least one is required
+ */
+export function validateDashboardUserUpdate(body: unknown): ValidatedDashboardUserUpdate {
+  const source = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const update: ValidatedDashboardUserUpdate = {};
+
+  if (source.role !== undefined) {
+    update.role = validateDashboardRole(source.role);
+  }
+
+  if (source.disabled !== undefined) {
+    if (typeof source.disabled !== 'boolean') {
+      throw new RequestValidationError('disabled must be a boolean');
+    }
+
+    update.disabled = source.disabled;
+  }
+
+  if (update.role === undefined && update.disabled === undefined) {
+    throw new RequestValidationError('Provide role and/or disabled');
+  }
+
+  return update;
+}
+
+export function validatePasswordResetRequest(body: unknown): { password: string } {
+  return { password: validateNewPassword(body) };
+}
+
+/**
+ * Validate a webhook subscription. Private and loopback hosts are refused unless
+ * allowed (WEBHOOK_ALLOW_PRIVATE_URLS); delivery checks resolved addresses again.
+ */
+export function validateWebhookRequest(
+  body: unknown,
+  allowPrivateUrls: boolean = WEBHOOK_ALLOW_PRIVATE_URLS
+): ValidatedWebhookRequest {
+  const url = readStringField(body, 'url');
+
+  if (url.length > MAX_WEBHOOK_URL_LENGTH) {
+    throw new RequestValidationError(`url must not exceed ${MAX_WEBHOOK_URL_LENGTH} characters`);
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    throw new RequestValidationError('url must be a valid URL');
+  }
+
+  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+    throw new RequestValidationError('url must use http or https');
+  }
+
+  if (!allowPrivateUrls && isPrivateHostname(parsedUrl.hostname)) {
+    throw new RequestValidationError(`url host ${parsedUrl.hostname} is a private or reserved address`);
+  }
+
+  const rawEvents = (body as Record<string, unknown>).events;
+  let events: WebhookEvent[];
+
+  if (rawEvents === undefined) {
+    events = [...WEBHOOK_EVENTS];
+  } else if (Array.isArray(rawEvents) && rawEvents.length > 0) {
+    events = rawEvents.map((event, index) => {
+      if (typeof event !== 'string' || !WEBHOOK_EVENTS.includes(event as WebhookEvent)) {
+        throw new RequestValidationError(`events[${index}] must be one of: ${WEBHOOK_EVENTS.join(', ')}`);
+      }
+
+      return event as WebhookEvent;
+    });
+    events = [...new Set(events)];
+  } else {
+    throw new RequestValidationError('events must be a non-empty array');
+  }
+
+  const secret = readOptionalStringField(body, 'secret');
+  if (secret !== undefined && secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+    throw new RequestValidationError(`secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`);
+  }
+
+  const description = readOptionalStringField(body, 'description');
+  if (description !== undefined && description.length > MAX_WEBHOOK_DESCRIPTION_LENGTH) {
+    throw new RequestValidationError(`description must not exceed ${MAX_WEBHOOK_DESCRIPTION_LENGTH} characters`);
+  }
+
+  return { url: parsedUrl.toString(), events, secret, description };
+}
+
+function readQueryString(query: Record<string, unknown>, field: string): string | undefined {
+  const value = query[field];
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RequestValidationError(`${field} must be a non-empty string`);
+  }
+
+  return value.trim();
+}
+
+function readQueryDate(query: Record<string, unknown>, field: string): Date | undefined {
+  const value = readQueryString(query, field);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new RequestValidationError(`${field} must be an ISO 8601 timestamp`);
+  }
+
+  return date;
+}
+
+function readQueryInteger(
+  query: Record<string, unknown>,
+  field: string,
+  defaultValue: number,
+  min: number,
+  max: number
+): number {
+  const value = readQueryString(query, field);
+
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new RequestValidationError(`${field} must be an integer between ${min} and ${max}`);
+  }
+
+  return parsed;
+}
+
+export function validatePageQuery(query: unknown): { limit: number; offset: number } {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+
+  return {
+    limit: readQueryInteger(source, 'limit', DEFAULT_PAGE_LIMIT, 1, MAX_PAGE_LIMIT),
+    offset: readQueryInteger(source, 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+export function validateInboxQuery(query: unknown): ValidatedInboxQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const since = readQueryDate(source, 'since');
+  const until = readQueryDate(source, 'until');
+
+  if (since && until && since > until) {
+    throw new RequestValidationError('since must not be later than until');
+  }
+
+  const session = readQueryString(source, 'session');
+
+  return {
+    session: session === undefined ? undefined : validateSessionId(session),
+    since,
+    until,
+    chatId: readQueryString(source, 'chatId'),
+    ...validatePageQuery(source),
+  };
+}
+
+/**
+ * Filters and pagination for the message history. The date range, target suffix and
+ * correlation/user filters all combine with AND.
+ */
+export function validateHistoryQuery(query: unknown): ValidatedHistoryQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const since = readQueryDate(source, 'since');
+  const until = readQueryDate(source, 'until');
+
+  if (since && until && since > until) {
+    throw new RequestValidationError('since must not be later than until');
+  }
+
+  const session = readQueryString(source, 'session');
+
+  const status = readQueryString(source, 'status');
+  if (status !== undefined && !MESSAGE_HISTORY_STATUSES.includes(status as MessageHistoryStatus)) {
+    throw new RequestValidationError(`status must be one of: ${MESSAGE_HISTORY_STATUSES.join(', ')}`);
+  }
+
+  const target = readQueryString(source, 'target');
+  if (target !== undefined && !HISTORY_TARGET_SUFFIX_PATTERN.test(target)) {
+    throw new RequestValidationError('target must be the last 1-4 digits of the number');
+  }
+
+  return {
+    session: session === undefined ? undefined : validateSessionId(session),
+    status: status as MessageHistoryStatus | undefined,
+    since,
+    until,
+    target,
+    correlationId: readQueryString(source, 'correlationId'),
+    userId: readQueryString(source, 'userId'),
+    ...validatePageQuery(source),
+  };
+}
+
+/**
+ * Filters and pagination for the audit log
+ */
+export function validateAuditQuery(query: unknown): ValidatedAuditQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const since = readQueryDate(source, 'since');
+  const until = readQueryDate(source, 'until');
+
+  if (since && until && since > until) {
+    throw new RequestValidationError('since must not be later than until');
+  }
+
+  const result = readQueryString(source, 'result');
+  if (result !== undefined && result !== 'success' && result !== 'failure') {
+    throw new RequestValidationError('result must be success or failure');
+  }
+
+  return {
+    action: readQueryString(source, 'action'),
+    actor: readQueryString(source, 'actor'),
+    result,
+    since,
+    until,
+    ...validatePageQuery(source),
+  };
+}
+
+export function validateSuppressionQuery(query: unknown): ValidatedSuppressionQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const origin = readQueryString(source, 'source');
+
+  if (origin !== undefined && !SUPPRESSION_SOURCES.includes(origin as SuppressionSource)) {
+    throw new RequestValidationError(`source must be one of: ${SUPPRESSION_SOURCES.join(', ')}`);
+  }
+
+  return {
+    source: origin as SuppressionSource | undefined,
+    ...validatePageQuery(source),
+  };
+}
+
+/**
+ * `?session=` and `?everyone=` (default true) of a message delete
+ */
+export function validateDeleteMessageQuery(query: unknown): ValidatedDeleteMessageQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const session = readQueryString(source, 'session');
+  const everyone = readQueryString(source, 'everyone') ?? 'true';
+
+  if (everyone !== 'true' && everyone !== 'false') {
+    throw new RequestValidationError('everyone must be true or false');
+  }
+
+  return {
+    session: session === undefined ? undefined : validateSessionId(session),
+    everyone: everyone === 'true',
+  };
+}
+
+function readQuerySession(source: Record<string, unknown>): string | undefined {
+  const session = readQueryString(source, 'session');
+  return session === undefined ? undefined : validateSessionId(session);
+}
+
+export function validateChatListQuery(query: unknown): ValidatedChatListQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  return { session: readQuerySession(source), ...validatePageQuery(source) };
+}
+
+export function validateChatMessagesQuery(query: unknown): ValidatedChatMessagesQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const before = readQueryString(source, 'before');
+
+  return {
+    session: readQuerySession(source),
+    limit: readQueryInteger(source, 'limit', DEFAULT_PAGE_LIMIT, 1, MAX_PAGE_LIMIT),
+    before: before === undefined ? undefined : validateMessageId(before, 'before'),
+  };
+}
+
+export function validateContactListQuery(query: unknown): ValidatedContactListQuery {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const search = readQueryString(source, 'search');
+
+  if (search !== undefined && search.length > MAX_CONTACT_SEARCH_LENGTH) {
+    throw new RequestValidationError(`search must not exceed ${MAX_CONTACT_SEARCH_LENGTH} characters`);
+  }
+
+  return { ...validateChatListQuery(source), search };
+}
+
+export function validateHistoryExportFormat(query: unknown): HistoryExportFormat {
+  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
+  const format = readQueryString(source, 'format') ?? 'csv';
+
+  if (format !== 'csv' && format !== 'json') {
+    throw new RequestValidationError('format must be csv or json');
+  }
+
+  return format;
+}
@@ -0,0 +1,53 @@
+import { CronExpressionParser } from 'cron-parser';
+
+// Five fields (minute hour day-of-month month day-of-week); seconds are not supported
+const CRON_FIELD_COUNT = 5;
+
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Default timezone for cron schedules: SCHEDULE_TIMEZONE, else the host timezone
+ */
+export function getDefaultScheduleTimeZone(): string {
+  const configured = process.env.SCHEDULE_TIMEZONE?.trim();
+  if (configured && isValidTimeZone(configured)) {
+    return configured;
+  }
+
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Next run of a cron expression strictly after `after`, evaluated in `timezone`
+ */
+export function getNextCronRun(cron: string, timezone: string, after: Date = new Date()): Date {
+  if (cron.trim().split(/\s+/).length !== CRON_FIELD_COUNT) {
+    throw new ScheduleValidationError('cron must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  if (!isValidTimeZone(timezone)) {
+    throw new ScheduleValidationError(`Unknown timezone: ${timezone}`);
+  }
+
+  try {
+    const expression = CronExpressionParser.parse(cron, { currentDate: after, tz: timezone, strict: false });
+    return new Date(expression.next().getTime());
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid expression';
+    throw new ScheduleValidationError(`cron is invalid: ${reason}`);
+  }
+}
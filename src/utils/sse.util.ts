@@ -0,0 +1,18 @@
+/**
+ * One Server-Sent Events message. Data is JSON, which never contains raw newlines,
+ * so it always fits on a single `data:` line.
+ */
+export function formatServerSentEvent(event: string, data: unknown, id?: number): string {
+  const lines = [
+    ...(id === undefined ? [] : [`id: ${id}`]),
+    `event: ${event}`,
+    `data: ${JSON.stringify(data)}`,
+  ];
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Comment line that keeps idle connections open through proxies
+ */
+export const SSE_HEARTBEAT = ': heartbeat\n\n';
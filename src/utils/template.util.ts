@@ -0,0 +1,34 @@
+// Matches {{name}} placeholders; whitespace inside the braces is allowed ({{ name }})
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string>;
+
+/**
+ * List the placeholder names used in a template body, in order of first appearance
+ */
+export function extractTemplateVariables(body: string): string[] {
+  const names = new Set<string>();
+
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+
+  return [...names];
+}
+
+/**
+ * Placeholder names in body that have no value in variables
+ */
+export function findMissingTemplateVariables(body: string, variables: TemplateVariables): string[] {
+  return extractTemplateVariables(body)
+    .filter((name) => !Object.prototype.hasOwnProperty.call(variables, name));
+}
+
+/**
+ * Replace placeholders with their values; unknown placeholders are left untouched
+ */
+export function renderTemplate(body: string, variables: TemplateVariables): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
@@ -0,0 +1,280 @@
+const MINUTES_PER_DAY = 24 * 60;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// The error rate is only trusted once a handful of sends have been recorded
+const MIN_ERROR_RATE_SAMPLES = 5;
+
+/**
+ * Daily window in which nothing is sent, as minutes after local midnight.
+ * The window wraps past midnight when `startMinute` is after `endMinute`.
+ */
+export interface QuietHours {
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface ThrottlePolicy {
+  dailyLimit: number;
+  /** 0 disables the limit */
+  hourlyLimit: number;
+  /** Messages per recipient per day; 0 disables the limit */
+  recipientDailyLimit: number;
+  /** Days over which the daily limit grows from `warmupStartLimit`; 0 disables warm-up */
+  warmupDays: number;
+  warmupStartLimit: number;
+  quietHours?: QuietHours;
+  timezone: string;
+  /** Random extra delay between sends, up to this many ms */
+  delayJitterMs: number;
+  /** Number of recent send outcomes the error rate is computed over */
+  errorWindow: number;
+  /** Error rate (0-1) at or above which sends slow down */
+  errorRateThreshold: number;
+  slowdownFactor: number;
+}
+
+/**
+ * Persisted per-session throttle counters
+ */
+export interface ThrottleState {
+  /** Local date (YYYY-MM-DD in the policy timezone) the daily counters belong to */
+  day: string;
+  dailyCount: number;
+  /** Send times (epoch ms) within the last hour */
+  hourlySends: number[];
+  /** Sends today per hashed recipient */
+  recipients: Record<string, number>;
+  /** Most recent send outcomes, oldest first; true marks a failure */
+  recentFailures: boolean[];
+  /** Hash of the linked phone number, to detect a newly linked number */
+  linkedNumber?: string;
+  linkedAt?: string;
+}
+
+export interface ThrottleContext {
+  policy: ThrottlePolicy;
+  state: ThrottleState;
+  recipientKey: string;
+  now: Date;
+}
+
+/**
+ * Why a send may not go out now. With `retryAt` (epoch ms) the whole session is
+ * paused until then; without it only this recipient is blocked.
+ */
+export interface ThrottleBlock {
+  rule: string;
+  reason: string;
+  retryAt?: number;
+}
+
+/**
+ * One throttling rule; rules are evaluated in order and the first block wins
+ */
+export interface ThrottleRule {
+  name: string;
+  check(context: ThrottleContext): ThrottleBlock | null;
+}
+
+/**
+ * Parse quiet hours such as "22:00-07:00"
+ */
+export function parseQuietHours(value: string): QuietHours {
+  const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    throw new Error('Quiet hours must look like HH:MM-HH:MM, e.g. 22:00-07:00');
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+  if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) {
+    throw new Error('Quiet hours must use 24-hour times between 00:00 and 23:59');
+  }
+
+  const quietHours = { startMinute: startHour * 60 + startMinute, endMinute: endHour * 60 + endMinute };
+  if (quietHours.startMinute === quietHours.endMinute) {
+    throw new Error('Quiet hours must not start and end at the same time');
+  }
+
+  return quietHours;
+}
+
+/**
+ * Local date and minute of the day of `date` in `timezone`
+ */
+export function getZonedTime(date: Date, timezone: string): { day: string; minuteOfDay: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((entry) => entry.type === type)?.value || '00';
+
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    minuteOfDay: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+export function isWithinQuietHours(minuteOfDay: number, quietHours: QuietHours): boolean {
+  const { startMinute, endMinute } = quietHours;
+
+  return startMinute < endMinute
+    ? minuteOfDay >= startMinute && minuteOfDay < endMinute
+    : minuteOfDay >= startMinute || minuteOfDay < endMinute;
+}
+
+/**
+ * Epoch ms at which the local clock in `timezone` next reads `targetMinute`
+ */
+function getNextLocalMinute(now: Date, timezone: string, targetMinute: number): number {
+  const { minuteOfDay } = getZonedTime(now, timezone);
+  const minutesAhead = (targetMinute - minuteOfDay + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - (now.getTime() % 60000);
+
+  return startOfMinute + minutesAhead * 60000;
+}
+
+/**
+ * Daily limit for today, lowered while a newly linked number warms up
+ */
+export function getEffectiveDailyLimit(policy: ThrottlePolicy, state: ThrottleState, now: Date): number {
+  if (policy.warmupDays === 0 || !state.linkedAt) {
+    return policy.dailyLimit;
+  }
+
+  const daysLinked = Math.floor((now.getTime() - new Date(state.linkedAt).getTime()) / DAY_MS);
+  if (daysLinked >= policy.warmupDays) {
+    return policy.dailyLimit;
+  }
+
+  const startLimit = Math.min(policy.warmupStartLimit, policy.dailyLimit);
+  const step = (policy.dailyLimit - startLimit) / policy.warmupDays;
+
+  return Math.floor(startLimit + step * Math.max(0, daysLinked));
+}
+
+export function getErrorRate(state: ThrottleState): number | null {
+  if (state.recentFailures.length < MIN_ERROR_RATE_SAMPLES) {
+    return null;
+  }
+
+  return state.recentFailures.filter(Boolean).length / state.recentFailures.length;
+}
+
+export function isSlowedDown(policy: ThrottlePolicy, state: ThrottleState): boolean {
+  const errorRate = getErrorRate(state);
+  return errorRate !== null && errorRate >= policy.errorRateThreshold;
+}
+
+/**
+ * Delay before the next send: the base delay plus random jitter, multiplied while
+ * the recent error rate is above the threshold
+ */
+export function getThrottledDelay(
+  policy: ThrottlePolicy,
+  state: ThrottleState,
+  baseDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const delay = baseDelayMs + Math.floor(random() * (policy.delayJitterMs + 1));
+  return isSlowedDown(policy, state) ? delay * policy.slowdownFactor : delay;
+}
+
+/**
+ * Reset the daily counters when the local day changed and drop sends older than an hour
+ */
+export function rollThrottleState(state: ThrottleState, policy: ThrottlePolicy, now: Date): void {
+  const { day } = getZonedTime(now, policy.timezone);
+
+  if (state.day !== day) {
+    state.day = day;
+    state.dailyCount = 0;
+    state.recipients = {};
+  }
+
+  const hourAgo = now.getTime() - HOUR_MS;
+  state.hourlySends = state.hourlySends.filter((sentAt) => sentAt > hourAgo);
+}
+
+export const quietHoursRule: ThrottleRule = {
+  name: 'quiet_hours',
+  check({ policy, now }) {
+    if (!policy.quietHours) return null;
+
+    const { minuteOfDay } = getZonedTime(now, policy.timezone);
+    if (!isWithinQuietHours(minuteOfDay, policy.quietHours)) return null;
+
+    return {
+      rule: 'quiet_hours',
+      reason: 'Quiet hours are in effect. Messages are sent when they end.',
+      retryAt: getNextLocalMinute(now, policy.timezone, policy.quietHours.endMinute),
+    };
+  },
+};
+
+export const dailyLimitRule: ThrottleRule = {
+  name: 'daily_limit',
+  check({ policy, state, now }) {
+    const limit = getEffectiveDailyLimit(policy, state, now);
+    if (state.dailyCount < limit) return null;
+
+    const isWarmingUp = limit < policy.dailyLimit;
+    return {
+      rule: 'daily_limit',
+      reason: isWarmingUp
+        ? `Daily message limit reached (${limit}, warming up a newly linked number). Try again tomorrow.`
+        : `Daily message limit reached (${limit}). Try again tomorrow.`,
+      retryAt: getNextLocalMinute(now, policy.timezone, 0),
+    };
+  },
+};
+
+export const hourlyLimitRule: ThrottleRule = {
+  name: 'hourly_limit',
+  check({ policy, state }) {
+    if (policy.hourlyLimit === 0 || state.hourlySends.length < policy.hourlyLimit) return null;
+
+    return {
+      rule: 'hourly_limit',
+      reason: `Hourly message limit reached (${policy.hourlyLimit}).`,
+      retryAt: Math.min(...state.hourlySends) + HOUR_MS,
+    };
+  },
+};
+
+export const recipientLimitRule: ThrottleRule = {
+  name: 'recipient_limit',
+  check({ policy, state, recipientKey }) {
+    if (policy.recipientDailyLimit === 0 || (state.recipients[recipientKey] || 0) < policy.recipientDailyLimit) {
+      return null;
+    }
+
+    return {
+      rule: 'recipient_limit',
+      reason: `Daily limit per recipient reached (${policy.recipientDailyLimit}).`,
+    };
+  },
+};
+
+export const DEFAULT_THROTTLE_RULES: ThrottleRule[] = [
+  quietHoursRule,
+  dailyLimitRule,
+  hourlyLimitRule,
+  recipientLimitRule,
+];
+
+export function evaluateThrottleRules(rules: ThrottleRule[], context: ThrottleContext): ThrottleBlock | null {
+  for (const rule of rules) {
+    const block = rule.check(context);
+    if (block) {
+      return block;
+    }
+  }
+
+  return null;
+}
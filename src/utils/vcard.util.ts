@@ -0,0 +1,28 @@
+import { ContactCardMessage } from '../types';
+
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+/**
+ * vCard 3.0 for a contact card. The `waid` parameter makes WhatsApp show the
+ * "Message" button for the number.
+ */
+export function buildVCard(contact: Pick<ContactCardMessage, 'name' | 'phoneNumber' | 'organization'>): string {
+  const digits = contact.phoneNumber.replace(/\D/g, '');
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCardValue(contact.name)}`,
+  ];
+
+  if (contact.organization) {
+    lines.push(`ORG:${escapeVCardValue(contact.organization)}`);
+  }
+
+  lines.push(`TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`, 'END:VCARD');
+  return lines.join('\n');
+}
@@ -0,0 +1,21 @@
+import { createHmac } from 'crypto';
+import { readBooleanEnv } from './env.util';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+// Webhooks may only target public hosts unless an internal deployment opts out
+export const WEBHOOK_ALLOW_PRIVATE_URLS = readBooleanEnv('WEBHOOK_ALLOW_PRIVATE_URLS', false);
+
+/**
+ * HMAC-SHA256 signature over the exact request body, sent as `sha256=<hex>`
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ... capped at maxMs
+ */
+export function getWebhookRetryDelay(attempt: number, baseMs: number, maxMs: number = 15 * 60 * 1000): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(baseMs * 2 ** exponent, maxMs);
+}
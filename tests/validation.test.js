@@ -1,16 +1,54 @@
 const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
 const test = require('node:test');
 
 const {
   formatPhoneNumber,
+  formatTarget,
+  isGroupId,
+  maskTarget,
   parseTargets,
   PhoneNumberValidationError,
+  toChatId,
 } = require('../dist/utils/phone.util');
 const {
   RequestValidationError,
+  validateApiKeyRequest,
+  validateAuditQuery,
   validateBroadcastRequest,
+  validateChatId,
+  validateChatListQuery,
+  validateChatMessagesQuery,
+  validateContactListQuery,
+  validateCreateGroupRequest,
+  validateCreateSessionRequest,
+  validateDashboardUserRequest,
+  validateDashboardUserUpdate,
+  validateDeleteMessageQuery,
+  validateEditMessageRequest,
+  validateGroupId,
+  validateGroupParticipantsRequest,
+  validateHistoryExportFormat,
+  validateHistoryQuery,
+  validateIdempotencyKey,
+  validateInboxQuery,
   validateLoginRequest,
+  validateMessageId,
+  validateNumberCheckRequest,
+  validatePairingRequest,
+  validatePasswordResetRequest,
+  validateReactionRequest,
+  validateSendMediaRequest,
   validateSendRequest,
+  validateSessionId,
+  validateSuppressionImport,
+  validateSuppressionRequest,
+  validateTwoFactorCodeRequest,
+  validateTwoFactorLoginRequest,
+  validateTemplateRequest,
+  validateWebhookRequest,
 } = require('../dist/utils/request-validation.util');
 const {
   getMessageResponseHttpStatus,
@@ -18,14 +56,89 @@ const {
 } = require('../dist/utils/http-status.util');
 const { loadSecurityConfig } = require('../dist/config/security.config');
 const { readBooleanEnv, readIntegerEnv } = require('../dist/utils/env.util');
+const {
+  appendJsonLine,
+  DataStoreError,
+  readJsonFile,
+  readJsonLines,
+  writeJsonFile,
+} = require('../dist/utils/data-store.util');
+const { getWebhookRetryDelay, signWebhookPayload } = require('../dist/utils/webhook.util');
+const { parseCsv, toCsv } = require('../dist/utils/csv.util');
+const { buildVCard } = require('../dist/utils/vcard.util');
+const {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+} = require('../dist/utils/totp.util');
+const {
+  AUDIT_GENESIS_HASH,
+  AuditEventWindow,
+  canonicalJson,
+  computeAuditHash,
+  verifyAuditChain,
+} = require('../dist/utils/audit.util');
+const { formatServerSentEvent } = require('../dist/utils/sse.util');
+const { Histogram, renderPrometheusText } = require('../dist/utils/prometheus.util');
+const {
+  DEFAULT_THROTTLE_RULES,
+  evaluateThrottleRules,
+  getEffectiveDailyLimit,
+  getThrottledDelay,
+  parseQuietHours,
+  rollThrottleState,
+} = require('../dist/utils/throttle.util');
+const {
+  decodeBase64Media,
+  isMimeTypeAllowed,
+  MediaValidationError,
+  resolveMediaAttachment,
+} = require('../dist/utils/media.util');
+const {
+  fetchPublicUrl,
+  isPrivateAddress,
+  UnsafeUrlError,
+} = require('../dist/utils/network.util');
+const {
+  extractTemplateVariables,
+  findMissingTemplateVariables,
+  renderTemplate,
+} = require('../dist/utils/template.util');
+const { getRequestFingerprint } = require('../dist/utils/idempotency.util');
+const { getNextCronRun, ScheduleValidationError } = require('../dist/utils/schedule.util');
 
 process.env.API_KEY = process.env.API_KEY || 'safe-api-key-for-tests';
 process.env.DASHBOARD_USERNAME = process.env.DASHBOARD_USERNAME || 'operator';
 process.env.DASHBOARD_PASSWORD = process.env.DASHBOARD_PASSWORD || 'safe-dashboard-password';
 process.env.JWT_SECRET = process.env.JWT_SECRET || 'safe-jwt-secret';
+// Services resolve their data files when they are loaded, so they all use this folder
+process.env.DATA_FOLDER = fs.mkdtempSync(path.join(os.tmpdir(), 'wa-gateway-data-'));
+test.after(() => fs.rmSync(process.env.DATA_FOLDER, { recursive: true, force: true }));
 
-const { isApiKeyMatch } = require('../dist/middlewares/auth.middleware');
-const { DASHBOARD_TOKEN_COOKIE, getCookieValue } = require('../dist/services/auth.service');
+const {
+  ApiKeyScopeError,
+  assertTargetScope,
+  isApiKeyMatch,
+  requireScope,
+} = require('../dist/middlewares/auth.middleware');
+const { createBodyParser } = require('../dist/middlewares/body-parser.middleware');
+const { idempotency } = require('../dist/middlewares/idempotency.middleware');
+const {
+  authService,
+  buildDashboardCookie,
+  DASHBOARD_TOKEN_COOKIE,
+  getCookieValue,
+} = require('../dist/services/auth.service');
+const { getDashboardToken } = require('../dist/middlewares/dashboard.auth');
+const { dashboardEventsService } = require('../dist/services/dashboard-events.service');
+const { dashboardUserService, hasDashboardRole } = require('../dist/services/dashboard-user.service');
+const { loginSessionService } = require('../dist/services/login-session.service');
+const { messageQueueService } = require('../dist/services/message-queue.service');
+const { matchOptOutKeyword } = require('../dist/services/suppression.service');
 const {
   getErrorMessage,
   isTransientWhatsAppInjectionError,
@@ -33,7 +146,7 @@ const {
 } = require('../dist/services/whatsapp-lifecycle.util');
 
 test('formatPhoneNumber normalizes Indonesian local numbers', () => {
-  assert.equal(formatPhoneNumber('0812-3456-7890'), '6281234567890');
+  assert.equal(formatPhoneNumber('0812-3456-7890'), '+6281234567890');
 });
 
 test('formatPhoneNumber rejects malformed numbers', () => {
@@ -43,6 +156,35 @@ test('formatPhoneNumber rejects malformed numbers', () => {
   );
 });
 
+test('formatPhoneNumber applies per-country rules and E.164 output', () => {
+  assert.equal(formatPhoneNumber('+65 9123 4567'), '+6591234567');
+  assert.equal(formatPhoneNumber('0065 9123 4567'), '+6591234567');
+  assert.equal(formatPhoneNumber('+62 0812-3456-7890'), '+6281234567890');
+  assert.equal(formatPhoneNumber('6281234567890'), '+6281234567890');
+  assert.equal(formatPhoneNumber('91234567', 'SG'), '+6591234567');
+  assert.equal(formatPhoneNumber('012-345 6789', '60'), '+60123456789');
+  assert.equal(formatPhoneNumber('(202) 555-0123', 'us'), '+12025550123');
+  assert.equal(formatPhoneNumber('6591234567'), '+626591234567');
+  assert.equal(formatPhoneNumber('6281234567890', 'SG'), '+6281234567890');
+  assert.equal(formatPhoneNumber('+49 30 1234567'), '+49301234567');
+
+  assert.throws(() => formatPhoneNumber('+65 9123 456'), /Invalid SG phone number .*expected 8 digits after \+65, got 7/);
+  assert.throws(() => formatPhoneNumber('0812-34'), /expected 8 to 12 digits after \+62, got 5/);
+  assert.throws(() => formatPhoneNumber('0812 3456 78x'), /unexpected character "x"/);
+  assert.throws(() => formatPhoneNumber('1234', 'SG'), /Numbers from other countries need a leading \+/);
+  assert.throws(() => formatPhoneNumber('91234567', 'XX'), /Unsupported country code: XX/);
+});
+
+test('validateSendRequest applies countryCode to national numbers', () => {
+  const request = validateSendRequest({ target: '9123 4567, +6281234567890', message: 'Hi', countryCode: '+65' });
+
+  assert.deepEqual(request.targets, ['+6591234567', '+6281234567890']);
+  assert.throws(
+    () => validateSendRequest({ target: '91234567', message: 'Hi', countryCode: 'Singapore' }),
+    /countryCode: Unsupported country code/
+  );
+});
+
 test('parseTargets rejects empty target lists', () => {
   assert.throws(
     () => parseTargets(' , '),
@@ -56,7 +198,7 @@ test('validateSendRequest returns normalized targets and message', () => {
     message: 'hello',
   });
 
-  assert.deepEqual(request.targets, ['6281234567890', '6281234567891']);
+  assert.deepEqual(request.targets, ['+6281234567890', '+6281234567891']);
   assert.equal(request.message, 'hello');
 });
 
@@ -299,6 +441,8 @@ test('isTransientWhatsAppInjectionError detects known Puppeteer injection failur
 test('getMessageResponseHttpStatus maps expected send failures', () => {
   assert.equal(getMessageResponseHttpStatus({ success: true, status: 'sent', message: 'ok' }), 200);
   assert.equal(getMessageResponseHttpStatus({ success: false, status: 'invalid_number', message: 'bad' }), 400);
+  assert.equal(getMessageResponseHttpStatus({ success: false, status: 'not_on_whatsapp', message: 'unknown' }), 404);
+  assert.equal(getMessageResponseHttpStatus({ success: false, status: 'suppressed', message: 'opted out' }), 403);
   assert.equal(getMessageResponseHttpStatus({ success: false, status: 'rate_limited', message: 'limit' }), 429);
   assert.equal(getMessageResponseHttpStatus({ success: false, status: 'disconnected', message: 'offline' }), 503);
   assert.equal(getMessageResponseHttpStatus({ success: false, status: 'error', message: 'failed' }), 500);
@@ -326,3 +470,1035 @@ test('getMessageResponsesHttpStatus maps aggregate send failures', () => {
     { success: false, status: 'rate_limited', message: 'limit' },
   ]), 207);
 });
+
+test('writeJsonFile persists documents that readJsonFile loads back', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wa-gateway-store-'));
+  const filePath = path.join(dir, 'nested', 'queue.json');
+
+  try {
+    assert.deepEqual(readJsonFile(filePath, { jobs: [] }), { jobs: [] });
+    writeJsonFile(filePath, { jobs: [{ id: 'job-1' }] });
+    assert.deepEqual(readJsonFile(filePath, { jobs: [] }), { jobs: [{ id: 'job-1' }] });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('readJsonFile refuses to silently drop corrupt state', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wa-gateway-store-'));
+  const filePath = path.join(dir, 'queue.json');
+  fs.writeFileSync(filePath, '{"jobs": [');
+
+  try {
+    assert.throws(() => readJsonFile(filePath, { jobs: [] }), DataStoreError);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('queued jobs are reloaded after a restart and stay with their API key', () => {
+  const job = messageQueueService.enqueue(
+    'default',
+    ['+6281234567890', '+6289876543210'],
+    { text: 'Hello' },
+    { apiKeyId: 'key-a', correlationId: 'restart-test' }
+  );
+
+  // A restart is a new service instance reading the same DATA_FOLDER
+  const modulePath = require.resolve('../dist/services/message-queue.service');
+  delete require.cache[modulePath];
+  const { messageQueueService: restarted } = require(modulePath);
+
+  assert.notEqual(restarted, messageQueueService);
+  const view = restarted.getJobView(job.id, 'key-a');
+  assert.equal(view.status, 'queued');
+  assert.equal(view.total, 2);
+  assert.equal(view.correlationId, 'restart-test');
+  assert.equal(restarted.getJobView(job.id, 'key-b'), null);
+  assert.equal(restarted.getJobView(job.id).id, job.id);
+});
+
+test('validateWebhookRequest defaults events and rejects unsafe input', () => {
+  const request = validateWebhookRequest({ url: 'https://crm.example.com/hooks' });
+  assert.equal(request.url, 'https://crm.example.com/hooks');
+  assert.deepEqual(request.events, ['message.ack', 'message.received', 'schedule.failed']);
+
+  for (const url of ['http://127.0.0.1:8080/hook', 'http://[::1]/hook', 'http://169.254.169.254/', 'http://localhost/hook']) {
+    assert.throws(() => validateWebhookRequest({ url }), /private or reserved/);
+  }
+  assert.equal(validateWebhookRequest({ url: 'http://10.0.0.5/hook' }, true).url, 'http://10.0.0.5/hook');
+
+  assert.throws(() => validateWebhookRequest({ url: 'ftp://crm.example.com' }), RequestValidationError);
+  assert.throws(() => validateWebhookRequest({ url: 'https://crm.example.com', events: ['unknown'] }), RequestValidationError);
+  assert.throws(() => validateWebhookRequest({ url: 'https://crm.example.com', secret: 'short' }), RequestValidationError);
+});
+
+test('signWebhookPayload produces a verifiable HMAC-SHA256 signature', () => {
+  const { createHmac } = require('node:crypto');
+  const body = JSON.stringify({ event: 'message.ack' });
+  const expected = createHmac('sha256', 'shared-secret-value').update(body).digest('hex');
+
+  assert.equal(signWebhookPayload(body, 'shared-secret-value'), `sha256=${expected}`);
+});
+
+test('getWebhookRetryDelay backs off exponentially up to the cap', () => {
+  assert.equal(getWebhookRetryDelay(1, 1000), 1000);
+  assert.equal(getWebhookRetryDelay(2, 1000), 2000);
+  assert.equal(getWebhookRetryDelay(4, 1000), 8000);
+  assert.equal(getWebhookRetryDelay(30, 1000, 60000), 60000);
+});
+
+test('readJsonLines skips a torn trailing line from an interrupted append', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wa-gateway-store-'));
+  const filePath = path.join(dir, 'inbox.jsonl');
+
+  try {
+    appendJsonLine(filePath, { id: 'a' });
+    appendJsonLine(filePath, { id: 'b' });
+    fs.appendFileSync(filePath, '{"id": "c"');
+    assert.deepEqual(readJsonLines(filePath), [{ id: 'a' }, { id: 'b' }]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('validateInboxQuery parses date filters and pagination', () => {
+  const query = validateInboxQuery({
+    since: '2025-01-01T00:00:00Z',
+    until: '2025-01-02T00:00:00Z',
+    limit: '20',
+  });
+
+  assert.equal(query.since.toISOString(), '2025-01-01T00:00:00.000Z');
+  assert.equal(query.limit, 20);
+  assert.equal(query.offset, 0);
+
+  assert.throws(() => validateInboxQuery({ since: 'yesterday' }), RequestValidationError);
+  assert.throws(() => validateInboxQuery({ limit: '1000' }), RequestValidationError);
+  assert.throws(
+    () => validateInboxQuery({ since: '2025-01-02T00:00:00Z', until: '2025-01-01T00:00:00Z' }),
+    RequestValidationError
+  );
+});
+
+test('validateHistoryQuery parses filters and rejects unknown status or full numbers', () => {
+  const query = validateHistoryQuery({
+    status: 'error',
+    target: '7890',
+    userId: 'billing',
+    since: '2025-01-01T00:00:00Z',
+    offset: '40',
+  });
+
+  assert.equal(query.status, 'error');
+  assert.equal(query.target, '7890');
+  assert.equal(query.userId, 'billing');
+  assert.equal(query.limit, 50);
+  assert.equal(query.offset, 40);
+
+  assert.throws(() => validateHistoryQuery({ status: 'delivered' }), RequestValidationError);
+  assert.throws(() => validateHistoryQuery({ target: '6281234567890' }), RequestValidationError);
+  assert.equal(validateHistoryExportFormat({}), 'csv');
+  assert.throws(() => validateHistoryExportFormat({ format: 'xml' }), RequestValidationError);
+});
+
+test('toCsv quotes special characters and neutralizes formulas', () => {
+  const csv = toCsv(
+    [
+      { target: '****7890', message: 'Hello, "world"', error: undefined },
+      { target: '****1234', message: '=HYPERLINK("x")', error: 'line\nbreak' },
+    ],
+    ['target', 'message', 'error']
+  );
+
+  assert.equal(
+    csv,
+    'target,message,error\r\n' +
+      '****7890,"Hello, ""world""",\r\n' +
+      '****1234,"\'=HYPERLINK(""x"")","line\nbreak"\r\n'
+  );
+});
+
+test('renderPrometheusText formats families, escapes labels and renders histograms', () => {
+  const histogram = new Histogram([1, 5]);
+  histogram.observe(0.5);
+  histogram.observe(3);
+  histogram.observe(10);
+
+  const text = renderPrometheusText([
+    {
+      name: 'wa_gateway_messages_total',
+      help: 'Send attempts',
+      type: 'counter',
+      samples: [{ labels: { session: 'a"b', status: 'sent' }, value: 2 }],
+    },
+    {
+      name: 'wa_gateway_send_duration_seconds',
+      help: 'Send duration',
+      type: 'histogram',
+      samples: histogram.toSamples({ session: 'default' }),
+    },
+  ]);
+
+  assert.equal(
+    text,
+    [
+      '# HELP wa_gateway_messages_total Send attempts',
+      '# TYPE wa_gateway_messages_total counter',
+      'wa_gateway_messages_total{session="a\\"b",status="sent"} 2',
+      '# HELP wa_gateway_send_duration_seconds Send duration',
+      '# TYPE wa_gateway_send_duration_seconds histogram',
+      'wa_gateway_send_duration_seconds_bucket{session="default",le="1"} 1',
+      'wa_gateway_send_duration_seconds_bucket{session="default",le="5"} 2',
+      'wa_gateway_send_duration_seconds_bucket{session="default",le="+Inf"} 3',
+      'wa_gateway_send_duration_seconds_sum{session="default"} 13.5',
+      'wa_gateway_send_duration_seconds_count{session="default"} 3',
+      '',
+    ].join('\n')
+  );
+});
+
+test('formatTarget keeps group ids and formats phone numbers', () => {
+  assert.equal(isGroupId('120363012345678901@g.us'), true);
+  assert.equal(isGroupId('6281234567890-1600000000@g.us'), true);
+  assert.equal(isGroupId('081234567890'), false);
+  assert.equal(formatTarget(' 120363012345678901@g.us '), '120363012345678901@g.us');
+  assert.equal(formatTarget('0812-3456-7890'), '+6281234567890');
+  assert.equal(toChatId('081234567890'), '6281234567890@c.us');
+  assert.equal(toChatId('120363012345678901@g.us'), '120363012345678901@g.us');
+  assert.deepEqual(parseTargets('081234567890, 120363012345678901@g.us'), [
+    '+6281234567890',
+    '120363012345678901@g.us',
+  ]);
+});
+
+test('maskTarget keeps only the last four digits', () => {
+  assert.equal(maskTarget('6281234567890'), '****7890');
+  assert.equal(maskTarget('120363012345678901@g.us'), 'group:****8901');
+  assert.equal(maskTarget('123'), '****');
+});
+
+test('validateGroupId appends the group suffix and rejects phone-style targets', () => {
+  assert.equal(validateGroupId('120363012345678901'), '120363012345678901@g.us');
+  assert.equal(validateGroupId('120363012345678901@g.us'), '120363012345678901@g.us');
+  assert.throws(() => validateGroupId('6281234567890@c.us'), RequestValidationError);
+  assert.throws(() => validateGroupId('abc'), RequestValidationError);
+});
+
+test('validateCreateGroupRequest normalizes and deduplicates participants', () => {
+  const request = validateCreateGroupRequest({
+    name: ' Project Alpha ',
+    participants: ['081234567890', '6281234567890', '089876543210'],
+  });
+
+  assert.equal(request.name, 'Project Alpha');
+  assert.deepEqual(request.participants, ['+6281234567890', '+6289876543210']);
+  assert.throws(() => validateCreateGroupRequest({ name: 'x', participants: [] }), RequestValidationError);
+  assert.throws(
+    () => validateGroupParticipantsRequest({ participants: ['120363012345678901@g.us'] }),
+    /participants\[0\]/
+  );
+});
+
+test('validateNumberCheckRequest accepts arrays and comma-separated numbers', () => {
+  assert.deepEqual(validateNumberCheckRequest({ numbers: '081234567890, 6281234567890,089876543210', session: 'sales' }), {
+    numbers: ['+6281234567890', '+6289876543210'],
+    session: 'sales',
+  });
+  assert.throws(() => validateNumberCheckRequest({}), /Missing required field: numbers/);
+  assert.throws(() => validateNumberCheckRequest({ numbers: Array(51).fill('081234567890') }), /must not exceed 50/);
+  assert.throws(() => validateNumberCheckRequest({ numbers: ['081234567890', 42] }), /numbers\[1\]/);
+});
+
+test('validatePairingRequest normalizes the phone number', () => {
+  assert.deepEqual(validatePairingRequest({ phoneNumber: '081234567890', session: 'sales' }), {
+    phoneNumber: '+6281234567890',
+    session: 'sales',
+  });
+  assert.deepEqual(validatePairingRequest({ phoneNumber: '0412 345 678', countryCode: 'au' }).phoneNumber, '+61412345678');
+  assert.throws(() => validatePairingRequest({}), /Missing required field: phoneNumber/);
+  assert.throws(() => validatePairingRequest({ phoneNumber: '12' }), /phoneNumber: /);
+});
+
+test('validateSendRequest accepts reply and mention options', () => {
+  const request = validateSendRequest({
+    target: '120363012345678901@g.us',
+    message: '@6281234567890 hello',
+    quotedMessageId: 'true_6281234567890@c.us_3EB0C0FFEE1234567890',
+    mentions: ['081234567890'],
+  });
+
+  assert.equal(request.quotedMessageId, 'true_6281234567890@c.us_3EB0C0FFEE1234567890');
+  assert.deepEqual(request.mentions, ['+6281234567890']);
+  assert.equal(validateSendRequest({ target: '081234567890', message: 'Hi' }).mentions, undefined);
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', message: 'Hi', quotedMessageId: 'bad id!' }),
+    /quotedMessageId must be a WhatsApp message id/
+  );
+  assert.throws(() => validateSendRequest({ target: '081234567890', message: 'Hi', mentions: [42] }), /mentions\[0\]/);
+});
+
+test('message action validators', () => {
+  assert.equal(validateMessageId(' 3EB0C0FFEE1234567890 '), '3EB0C0FFEE1234567890');
+  assert.deepEqual(validateReactionRequest({ emoji: '👍', session: 'sales' }), { emoji: '👍', session: 'sales' });
+  assert.deepEqual(validateReactionRequest({ emoji: '' }), { emoji: '', session: undefined });
+  assert.throws(() => validateReactionRequest({}), /Missing required field: emoji/);
+  assert.throws(() => validateEditMessageRequest({ message: '  ' }), /message must not be empty/);
+  assert.deepEqual(validateDeleteMessageQuery({}), { session: undefined, everyone: true });
+  assert.deepEqual(validateDeleteMessageQuery({ everyone: 'false', session: 'sales' }), { session: 'sales', everyone: false });
+  assert.throws(() => validateDeleteMessageQuery({ everyone: 'yes' }), /everyone must be true or false/);
+});
+
+test('validateSendRequest validates typed payloads', () => {
+  const location = validateSendRequest({
+    target: '081234567890',
+    type: 'location',
+    location: { latitude: -6.2, longitude: 106.8166, name: ' Store ' },
+  });
+  assert.deepEqual(location.rich, {
+    type: 'location',
+    latitude: -6.2,
+    longitude: 106.8166,
+    name: 'Store',
+    address: undefined,
+    url: undefined,
+  });
+  assert.equal(location.message, '');
+
+  const contact = validateSendRequest({
+    target: '081234567890',
+    type: 'contact',
+    contact: { name: 'Budi', phoneNumber: '081298765432' },
+  });
+  assert.equal(contact.rich.phoneNumber, '+6281298765432');
+
+  const poll = validateSendRequest({
+    target: '081234567890',
+    type: 'poll',
+    poll: { question: 'Confirm?', options: ['Yes', 'No'] },
+  });
+  assert.deepEqual(poll.rich, { type: 'poll', question: 'Confirm?', options: ['Yes', 'No'], allowMultipleAnswers: false });
+
+  assert.throws(() => validateSendRequest({ target: '081234567890', type: 'sticker' }), /type must be one of/);
+  assert.throws(() => validateSendRequest({ target: '081234567890', type: 'location', location: { latitude: 91, longitude: 0 } }), /location.latitude/);
+  assert.throws(() => validateSendRequest({ target: '081234567890', type: 'poll', poll: { question: 'Q', options: ['A', 'A'] } }), /duplicates/);
+  assert.throws(() => validateSendRequest({ target: '081234567890', type: 'poll', message: 'Hi', poll: {} }), /message is only supported for text/);
+  assert.throws(() => validateSendRequest({ target: '081234567890', type: 'contact' }), /Missing required field: contact/);
+  assert.equal(validateSendRequest({ target: '081234567890', message: 'https://example.com', linkPreview: false }).linkPreview, false);
+  assert.throws(() => validateSendRequest({ target: '081234567890', message: 'Hi', linkPreview: 'no' }), /linkPreview must be a boolean/);
+});
+
+test('buildVCard escapes values and links the WhatsApp number', () => {
+  assert.equal(
+    buildVCard({ name: 'Budi; Sales', phoneNumber: '+6281298765432', organization: 'Acme, Inc' }),
+    'BEGIN:VCARD\nVERSION:3.0\nFN:Budi\\; Sales\nORG:Acme\\, Inc\nTEL;type=CELL;type=VOICE;waid=6281298765432:+6281298765432\nEND:VCARD'
+  );
+});
+
+test('validateChatId accepts chat ids, group ids and phone numbers', () => {
+  assert.equal(validateChatId('6281234567890@c.us'), '6281234567890@c.us');
+  assert.equal(validateChatId('120363012345678901@g.us'), '120363012345678901@g.us');
+  assert.equal(validateChatId('6281234567890-1600000000'), '6281234567890-1600000000@g.us');
+  assert.equal(validateChatId('081234567890'), '6281234567890@c.us');
+  assert.throws(() => validateChatId('not a chat'), /id must be a phone number or WhatsApp chat id/);
+  assert.throws(() => validateChatId('120363012345678901@g.us', 'id', false), /WhatsApp contact id/);
+});
+
+test('chat and contact list queries', () => {
+  assert.deepEqual(validateChatListQuery({ session: 'sales', limit: '20' }), { session: 'sales', limit: 20, offset: 0 });
+  assert.deepEqual(validateChatMessagesQuery({ before: '3EB0C0FFEE1234567890' }), {
+    session: undefined,
+    limit: 50,
+    before: '3EB0C0FFEE1234567890',
+  });
+  assert.throws(() => validateChatMessagesQuery({ limit: '500' }), /limit must be an integer between 1 and 200/);
+  assert.equal(validateContactListQuery({ search: 'budi' }).search, 'budi');
+  assert.throws(() => validateContactListQuery({ search: 'x'.repeat(101) }), /search must not exceed 100/);
+});
+
+test('validateDashboardUserRequest checks username, password length and role', () => {
+  assert.deepEqual(
+    validateDashboardUserRequest({ username: 'support', password: 'long-enough-secret', role: 'operator' }),
+    { username: 'support', password: 'long-enough-secret', role: 'operator' }
+  );
+  assert.throws(
+    () => validateDashboardUserRequest({ username: 'support', password: 'short', role: 'viewer' }),
+    /at least 12 characters/
+  );
+  assert.throws(
+    () => validateDashboardUserRequest({ username: 'a b', password: 'long-enough-secret', role: 'viewer' }),
+    RequestValidationError
+  );
+  assert.throws(
+    () => validateDashboardUserRequest({ username: 'support', password: 'long-enough-secret', role: 'owner' }),
+    /role must be one of/
+  );
+});
+
+test('validateDashboardUserUpdate requires a role or disabled flag', () => {
+  assert.deepEqual(validateDashboardUserUpdate({ role: 'viewer' }), { role: 'viewer' });
+  assert.deepEqual(validateDashboardUserUpdate({ disabled: true }), { disabled: true });
+  assert.throws(() => validateDashboardUserUpdate({}), RequestValidationError);
+  assert.throws(() => validateDashboardUserUpdate({ disabled: 'yes' }), /disabled must be a boolean/);
+  assert.deepEqual(validatePasswordResetRequest({ password: 'another-long-secret' }), {
+    password: 'another-long-secret',
+  });
+  assert.throws(() => validatePasswordResetRequest({ password: 'short' }), RequestValidationError);
+});
+
+test('hasDashboardRole orders viewer below operator below admin', () => {
+  assert.equal(hasDashboardRole('admin', 'operator'), true);
+  assert.equal(hasDashboardRole('operator', 'operator'), true);
+  assert.equal(hasDashboardRole('operator', 'admin'), false);
+  assert.equal(hasDashboardRole('viewer', 'operator'), false);
+});
+
+test('generateTotp matches the RFC 6238 SHA-1 test vectors', () => {
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  assert.equal(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.equal(base32Decode(secret).toString(), '12345678901234567890');
+  assert.equal(generateTotp(secret, Math.floor(59 / 30)), '287082');
+  assert.equal(generateTotp(secret, Math.floor(1111111109 / 30)), '081804');
+});
+
+test('findTotpStep allows one step of clock drift', () => {
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+  const time = 1111111109 * 1000;
+  const step = Math.floor(1111111109 / 30);
+
+  assert.equal(findTotpStep(secret, generateTotp(secret, step), time), step);
+  assert.equal(findTotpStep(secret, generateTotp(secret, step - 1), time), step - 1);
+  assert.equal(findTotpStep(secret, generateTotp(secret, step + 2), time), null);
+  assert.equal(findTotpStep(secret, 'abcdef', time), null);
+});
+
+test('recovery codes are unique and hashed independent of case and dashes', () => {
+  const codes = generateRecoveryCodes();
+
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, 10);
+  assert.match(codes[0], /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  assert.equal(hashRecoveryCode(codes[0]), hashRecoveryCode(codes[0].replace('-', '').toUpperCase()));
+  assert.match(
+    buildOtpauthUri('WA Gateway', 'support', 'ABC'),
+    /^otpauth:\/\/totp\/WA%20Gateway%3Asupport\?secret=ABC&issuer=WA\+Gateway/
+  );
+});
+
+test('validateTwoFactorLoginRequest accepts TOTP and recovery codes', () => {
+  assert.deepEqual(validateTwoFactorCodeRequest({ code: ' 123 456 ' }), { code: '123456' });
+  assert.deepEqual(validateTwoFactorCodeRequest({ code: '3f9a1-c07be' }), { code: '3f9a1-c07be' });
+  assert.deepEqual(validateTwoFactorLoginRequest({ challengeToken: 'token', code: '123456' }), {
+    challengeToken: 'token',
+    code: '123456',
+  });
+  assert.throws(() => validateTwoFactorCodeRequest({ code: '12345' }), /6-digit code or a recovery code/);
+  assert.throws(() => validateTwoFactorLoginRequest({ code: '123456' }), /Missing required field: challengeToken/);
+});
+
+test('buildDashboardCookie writes an HttpOnly cookie that getDashboardToken reads back', () => {
+  const cookie = buildDashboardCookie('a.b+c', 1800);
+
+  assert.match(cookie, /^wa_dashboard_token=a\.b%2Bc; HttpOnly; SameSite=Strict; Path=\/; Max-Age=1800/);
+  assert.deepEqual(getDashboardToken({ headers: { cookie: cookie.split(';')[0] } }), {
+    token: 'a.b+c',
+    fromCookie: true,
+  });
+  assert.deepEqual(
+    getDashboardToken({ headers: { authorization: 'Bearer header-token', cookie: cookie.split(';')[0] } }),
+    { token: 'header-token', fromCookie: false }
+  );
+});
+
+test('verifyToken rejects revoked logins, rotated credentials and disabled users', () => {
+  const client = { ip: '203.0.113.10' };
+  const login = (username, password) => authService.login(username, password, client).token;
+  // Records the current JWT_SECRET and DASHBOARD_PASSWORD, as at startup
+  authService.revokeRotatedLogins();
+
+  const loggedOut = login('operator', 'safe-dashboard-password');
+  assert.equal(authService.verifyToken(loggedOut).valid, true);
+  authService.revokeToken(loggedOut, client);
+  assert.equal(authService.verifyToken(loggedOut).valid, false);
+
+  const beforeSecretChange = login('operator', 'safe-dashboard-password');
+  loginSessionService.revokeOnCredentialRotation('another-jwt-secret', 'operator', 'safe-dashboard-password', 12);
+  assert.equal(authService.verifyToken(beforeSecretChange).valid, false);
+
+  authService.revokeRotatedLogins();
+  const beforePasswordChange = login('operator', 'safe-dashboard-password');
+  loginSessionService.revokeOnCredentialRotation(
+    process.env.JWT_SECRET,
+    'operator',
+    'another-dashboard-password',
+    12
+  );
+  assert.equal(authService.verifyToken(beforePasswordChange).valid, false);
+
+  const user = dashboardUserService.createUser({ username: 'viewer-one', password: 'viewer-password-1', role: 'viewer' });
+  const viewerToken = login('viewer-one', 'viewer-password-1');
+  assert.equal(authService.verifyToken(viewerToken).payload.role, 'viewer');
+  dashboardUserService.updateUser(user.id, { disabled: true }, 'operator');
+  assert.equal(authService.verifyToken(viewerToken).valid, false);
+  assert.equal(authService.login('viewer-one', 'viewer-password-1', client).success, false);
+});
+
+test('revoking a login closes its event stream only', () => {
+  const EventEmitter = require('node:events');
+  const openStream = () => {
+    const res = new EventEmitter();
+    res.ended = false;
+    res.write = () => true;
+    res.end = () => {
+      res.ended = true;
+    };
+    return res;
+  };
+  const first = loginSessionService.create('operator', { ip: '203.0.113.11' }, new Date(Date.now() + 60000));
+  const second = loginSessionService.create('operator', { ip: '203.0.113.12' }, new Date(Date.now() + 60000));
+  const firstStream = openStream();
+  const secondStream = openStream();
+
+  try {
+    dashboardEventsService.subscribe(firstStream, 'default', { loginSessionId: first.id });
+    dashboardEventsService.subscribe(secondStream, 'default', { loginSessionId: second.id });
+
+    loginSessionService.revoke(first.id, 'operator');
+    assert.equal(firstStream.ended, true);
+    assert.equal(secondStream.ended, false);
+  } finally {
+    dashboardEventsService.stop();
+  }
+});
+
+test('canonicalJson sorts keys and skips undefined values', () => {
+  assert.equal(
+    canonicalJson({ b: 1, a: { d: [2, { f: true, e: null }], c: undefined } }),
+    '{"a":{"d":[2,{"e":null,"f":true}]},"b":1}'
+  );
+});
+
+test('verifyAuditChain detects edited and removed entries', () => {
+  const entries = [];
+  for (const action of ['auth.login', 'api_key.create', 'whatsapp.logout']) {
+    const previous = entries[entries.length - 1];
+    const content = {
+      seq: entries.length + 1,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      actor: 'admin',
+      actorType: 'dashboard',
+      action,
+      result: 'success',
+      prevHash: previous ? previous.hash : AUDIT_GENESIS_HASH,
+    };
+    entries.push({ ...content, hash: computeAuditHash(content) });
+  }
+
+  assert.deepEqual(verifyAuditChain(entries), { valid: true, entries: 3, headHash: entries[2].hash });
+  assert.deepEqual(verifyAuditChain([]), { valid: true, entries: 0, headHash: AUDIT_GENESIS_HASH });
+
+  const edited = entries.map((entry) => ({ ...entry }));
+  edited[1].actor = 'someone-else';
+  assert.equal(verifyAuditChain(edited).valid, false);
+  assert.equal(verifyAuditChain(edited).brokenAtSeq, 2);
+
+  assert.equal(verifyAuditChain([entries[0], entries[2]]).brokenAtSeq, 3);
+
+  // A rotated segment links to the last entry of the one before it
+  const head = { seq: entries[0].seq, hash: entries[0].hash };
+  assert.deepEqual(verifyAuditChain(entries.slice(1), head), { valid: true, entries: 2, headHash: entries[2].hash });
+  assert.equal(verifyAuditChain(entries.slice(1)).brokenAtSeq, 2);
+});
+
+test('AuditEventWindow records one event per key per window', () => {
+  const window = new AuditEventWindow(1000);
+
+  assert.equal(window.shouldRecord('203.0.113.7', 0), true);
+  assert.equal(window.shouldRecord('203.0.113.7', 500), false);
+  assert.equal(window.shouldRecord('198.51.100.2', 500), true);
+  assert.equal(window.shouldRecord('203.0.113.7', 1000), true);
+});
+
+test('validateAuditQuery reads filters and rejects an unknown result', () => {
+  assert.deepEqual(validateAuditQuery({ action: 'auth.', result: 'failure', limit: '10' }), {
+    action: 'auth.',
+    actor: undefined,
+    result: 'failure',
+    since: undefined,
+    until: undefined,
+    limit: 10,
+    offset: 0,
+  });
+  assert.throws(() => validateAuditQuery({ result: 'denied' }), RequestValidationError);
+  assert.throws(
+    () => validateAuditQuery({ since: '2026-02-01T00:00:00Z', until: '2026-01-01T00:00:00Z' }),
+    RequestValidationError
+  );
+});
+
+test('parseCsv handles quotes, embedded line breaks and blank lines', () => {
+  assert.deepEqual(parseCsv('number,reason\r\n"+6281234567890","said ""stop""\nby phone"\n\n6289876543210,\n'), [
+    ['number', 'reason'],
+    ['+6281234567890', 'said "stop"\nby phone'],
+    ['6289876543210', ''],
+  ]);
+});
+
+test('matchOptOutKeyword only matches a message that is the keyword', () => {
+  const keywords = ['STOP', 'BERHENTI'];
+
+  assert.equal(matchOptOutKeyword('stop', keywords), 'STOP');
+  assert.equal(matchOptOutKeyword('  Berhenti!! ', keywords), 'BERHENTI');
+  assert.equal(matchOptOutKeyword('please stop', keywords), undefined);
+  assert.equal(matchOptOutKeyword('', keywords), undefined);
+});
+
+test('validateSuppressionRequest normalizes and deduplicates numbers', () => {
+  assert.deepEqual(validateSuppressionRequest({ numbers: '081234567890, +6281234567890', reason: 'Asked by phone' }), {
+    numbers: ['+6281234567890'],
+    reason: 'Asked by phone',
+  });
+  assert.throws(() => validateSuppressionRequest({ numbers: [] }), RequestValidationError);
+});
+
+test('validateSuppressionImport skips a header and reports invalid rows', () => {
+  const result = validateSuppressionImport("phone,reason\n'+6281234567890,STOP reply\n12\n081234567890,duplicate\n", {});
+
+  assert.deepEqual(result.entries, [{ number: '+6281234567890', reason: 'STOP reply' }]);
+  assert.equal(result.invalid.length, 1);
+  assert.equal(result.invalid[0].row, 3);
+  assert.equal(result.invalid[0].value, '12');
+  assert.throws(() => validateSuppressionImport({ numbers: [] }, {}), RequestValidationError);
+});
+
+test('validateSendMediaRequest requires exactly one media source', () => {
+  const request = validateSendMediaRequest({
+    target: '081234567890',
+    url: 'https://files.example.com/invoice.pdf',
+    caption: 'Invoice',
+  });
+
+  assert.deepEqual(request.targets, ['+6281234567890']);
+  assert.equal(request.caption, 'Invoice');
+  assert.equal(request.media.url, 'https://files.example.com/invoice.pdf');
+
+  assert.throws(() => validateSendMediaRequest({ target: '081234567890' }), RequestValidationError);
+  assert.throws(
+    () => validateSendMediaRequest({ target: '081234567890', data: 'aGVsbG8=', url: 'https://files.example.com/a.pdf' }),
+    RequestValidationError
+  );
+});
+
+test('validateBroadcastRequest makes message optional when media is attached', () => {
+  const request = validateBroadcastRequest({
+    targets: ['081234567890'],
+    media: { data: 'aGVsbG8=', mimetype: 'image/png' },
+  });
+
+  assert.equal(request.message, '');
+  assert.equal(request.media.mimetype, 'image/png');
+  assert.throws(() => validateBroadcastRequest({ targets: ['081234567890'] }), RequestValidationError);
+});
+
+test('isMimeTypeAllowed supports exact entries and type wildcards', () => {
+  assert.equal(isMimeTypeAllowed('application/pdf', ['application/pdf']), true);
+  assert.equal(isMimeTypeAllowed('image/png; charset=binary', ['image/*']), true);
+  assert.equal(isMimeTypeAllowed('application/x-msdownload', ['image/*', 'application/pdf']), false);
+});
+
+test('decodeBase64Media accepts data URLs and rejects malformed base64', () => {
+  const decoded = decodeBase64Media('data:image/png;base64,aGVsbG8=');
+  assert.equal(decoded.mimetype, 'image/png');
+  assert.equal(decoded.buffer.toString(), 'hello');
+
+  assert.throws(() => decodeBase64Media('not base64!'), MediaValidationError);
+});
+
+test('resolveMediaAttachment enforces the MIME allow-list', async () => {
+  const attachment = await resolveMediaAttachment({ data: 'aGVsbG8=', mimetype: 'application/pdf', filename: '../invoice.pdf' });
+  assert.equal(attachment.size, 5);
+  assert.equal(attachment.filename, 'invoice.pdf');
+
+  await assert.rejects(
+    () => resolveMediaAttachment({ data: 'aGVsbG8=', mimetype: 'application/x-msdownload' }),
+    MediaValidationError
+  );
+});
+
+test('isPrivateAddress flags loopback, private, link-local and mapped addresses', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test('resolveMediaAttachment refuses media URLs on loopback and metadata addresses', async () => {
+  await assert.rejects(() => resolveMediaAttachment({ url: 'http://127.0.0.1:3001/api/status' }), MediaValidationError);
+  await assert.rejects(() => resolveMediaAttachment({ url: 'http://[::1]/file.pdf' }), MediaValidationError);
+  await assert.rejects(
+    () => resolveMediaAttachment({ url: 'http://169.254.169.254/latest/meta-data/' }),
+    MediaValidationError
+  );
+});
+
+test('fetchPublicUrl re-checks the address of every redirect', async () => {
+  const lookup = async (hostname) => (hostname === 'internal.example.com' ? ['10.0.0.5'] : ['93.184.216.34']);
+  const requested = [];
+  const fetchImpl = async (url) => {
+    requested.push(url);
+    return url.startsWith('https://media.example.com/')
+      ? new Response(null, { status: 302, headers: { location: 'http://internal.example.com/secret' } })
+      : new Response('ok');
+  };
+
+  await assert.rejects(() => fetchPublicUrl('https://media.example.com/a.png', {}, lookup, fetchImpl), UnsafeUrlError);
+  assert.deepEqual(requested, ['https://media.example.com/a.png']);
+
+  const response = await fetchPublicUrl('https://cdn.example.com/a.png', {}, lookup, fetchImpl);
+  assert.equal(await response.text(), 'ok');
+});
+
+test('createBodyParser keeps form-encoded broadcasts working', async () => {
+  const express = require('express');
+  const app = express();
+  app.use(createBodyParser(['/api/broadcast']));
+  app.post('/api/broadcast', (req, res) => res.json({ body: req.body }));
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${server.address().port}/api/broadcast`;
+
+  try {
+    const form = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'targets=6281234567890,6289876543210&message=Hello',
+    });
+    const formBody = (await form.json()).body;
+    assert.deepEqual(formBody, { targets: '6281234567890,6289876543210', message: 'Hello' });
+    assert.deepEqual(validateBroadcastRequest(formBody).targets, ['+6281234567890', '+6289876543210']);
+
+    // JSON is left to the route's larger parser
+    const json = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ targets: '6281234567890', message: 'Hello' }),
+    });
+    assert.deepEqual((await json.json()).body, {});
+  } finally {
+    server.close();
+  }
+});
+
+test('validateSessionId accepts LocalAuth-safe ids only', () => {
+  assert.equal(validateSessionId(' sales_01 '), 'sales_01');
+  assert.throws(() => validateSessionId('../etc'), RequestValidationError);
+  assert.throws(() => validateSessionId('-leading'), RequestValidationError);
+  assert.throws(() => validateSessionId('a'.repeat(33)), RequestValidationError);
+  assert.throws(() => validateSessionId(42), RequestValidationError);
+});
+
+test('validateSendRequest passes through an optional session', () => {
+  assert.equal(validateSendRequest({ target: '081234567890', message: 'hi', session: 'otp' }).session, 'otp');
+  assert.equal(validateSendRequest({ target: '081234567890', message: 'hi' }).session, undefined);
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', message: 'hi', session: 'bad id' }),
+    RequestValidationError
+  );
+});
+
+test('validateCreateSessionRequest validates id and label', () => {
+  assert.deepEqual(validateCreateSessionRequest({ id: 'support', label: 'Support' }), { id: 'support', label: 'Support' });
+  assert.throws(() => validateCreateSessionRequest({ label: 'Support' }), RequestValidationError);
+});
+
+test('template helpers extract, detect missing and render placeholders', () => {
+  const body = 'Hi {{name}}, order {{ orderId }} for {{name}}';
+
+  assert.deepEqual(extractTemplateVariables(body), ['name', 'orderId']);
+  assert.deepEqual(findMissingTemplateVariables(body, { name: 'Budi' }), ['orderId']);
+  assert.equal(renderTemplate(body, { name: 'Budi', orderId: 'A-1' }), 'Hi Budi, order A-1 for Budi');
+  assert.equal(renderTemplate('{{unknown}} stays', {}), '{{unknown}} stays');
+});
+
+test('validateSendRequest renders a stored template and rejects missing variables', () => {
+  const lookup = (reference) => (reference === 'welcome' ? 'Hello {{name}}' : undefined);
+
+  assert.equal(
+    validateSendRequest({ target: '081234567890', template: 'welcome', variables: { name: 'Budi' } }, lookup).message,
+    'Hello Budi'
+  );
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', template: 'welcome' }, lookup),
+    /missing template variable\(s\): name/
+  );
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', template: 'other' }, lookup),
+    /Template not found: other/
+  );
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', template: 'welcome', message: 'hi' }, lookup),
+    RequestValidationError
+  );
+});
+
+test('validateBroadcastRequest personalises messages per target', () => {
+  const result = validateBroadcastRequest({
+    message: 'Hi {{name}} from {{store}}',
+    variables: { store: 'Maju' },
+    targets: [
+      { target: '081234567890', variables: { name: 'Budi' } },
+      { target: '089876543210', variables: { name: 'Sari', store: 'Jaya' } },
+    ],
+  });
+
+  assert.deepEqual(result.targets, ['+6281234567890', '+6289876543210']);
+  assert.deepEqual(result.messages, ['Hi Budi from Maju', 'Hi Sari from Jaya']);
+  assert.throws(
+    () => validateBroadcastRequest({
+      message: 'Hi {{name}}',
+      targets: [{ target: '081234567890', variables: { name: 'Budi' } }, '089876543210'],
+    }),
+    /targets\[1\] is missing template variable\(s\): name/
+  );
+  assert.equal(validateBroadcastRequest({ message: 'Hi {{name}}', targets: ['081234567890'] }).messages, undefined);
+});
+
+test('validateTemplateRequest validates name and body', () => {
+  assert.deepEqual(validateTemplateRequest({ name: 'welcome', body: 'Hi {{name}}' }), { name: 'welcome', body: 'Hi {{name}}' });
+  assert.deepEqual(validateTemplateRequest({ body: 'Hey' }, true), { name: undefined, body: 'Hey' });
+  assert.throws(() => validateTemplateRequest({ name: 'bad name', body: 'x' }), RequestValidationError);
+  assert.throws(() => validateTemplateRequest({}, true), RequestValidationError);
+});
+
+test('getNextCronRun evaluates cron expressions in the given timezone', () => {
+  const after = new Date('2026-01-05T00:30:00Z'); // Monday 07:30 in Jakarta
+
+  assert.equal(getNextCronRun('0 9 * * 1-5', 'Asia/Jakarta', after).toISOString(), '2026-01-05T02:00:00.000Z');
+  assert.equal(getNextCronRun('0 9 * * 1-5', 'UTC', after).toISOString(), '2026-01-05T09:00:00.000Z');
+  assert.throws(() => getNextCronRun('0 0 9 * * *', 'UTC', after), ScheduleValidationError);
+  assert.throws(() => getNextCronRun('61 * * * *', 'UTC', after), ScheduleValidationError);
+  assert.throws(() => getNextCronRun('0 9 * * *', 'Mars/Base', after), ScheduleValidationError);
+});
+
+test('validateSendRequest reads sendAt and cron schedules', () => {
+  const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+  const once = validateSendRequest({ target: '081234567890', message: 'hi', sendAt: future });
+  assert.equal(once.schedule.type, 'once');
+  assert.equal(once.schedule.sendAt.toISOString(), future);
+
+  const recurring = validateSendRequest({ target: '081234567890', message: 'hi', cron: '*/15 * * * *', timezone: 'UTC' });
+  assert.equal(recurring.schedule.type, 'recurring');
+  assert.equal(recurring.schedule.nextRunAt.getUTCMinutes() % 15, 0);
+
+  assert.equal(validateSendRequest({ target: '081234567890', message: 'hi' }).schedule, undefined);
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', message: 'hi', sendAt: '2020-01-01T00:00:00Z' }),
+    /sendAt must be in the future/
+  );
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', message: 'hi', sendAt: future, cron: '* * * * *' }),
+    RequestValidationError
+  );
+  assert.throws(
+    () => validateSendRequest({ target: '081234567890', message: 'hi', timezone: 'UTC' }),
+    /timezone requires cron/
+  );
+  assert.throws(
+    () => validateBroadcastRequest({ targets: ['081234567890'], message: 'hi', cron: 'not a cron' }),
+    RequestValidationError
+  );
+});
+
+test('getRequestFingerprint ignores key order but not content', () => {
+  const a = getRequestFingerprint('post', '/api/send', { target: '0812', message: 'hi', variables: { a: 1, b: 2 } });
+  const b = getRequestFingerprint('POST', '/api/send', { variables: { b: 2, a: 1 }, message: 'hi', target: '0812' });
+
+  assert.equal(a, b);
+  assert.notEqual(a, getRequestFingerprint('POST', '/api/send', { target: '0812', message: 'hello' }));
+  assert.notEqual(a, getRequestFingerprint('POST', '/api/broadcast', { target: '0812', message: 'hi', variables: { a: 1, b: 2 } }));
+});
+
+test('idempotency replays the first response and refuses a reused key with another body', () => {
+  const send = (apiKeyId, body, handle) => {
+    const req = { method: 'POST', baseUrl: '/api', path: '/send', body };
+    const res = {
+      locals: { idempotencyKey: 'order-1001', apiKeyId },
+      statusCode: 200,
+      headers: {},
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      setHeader(name, value) {
+        this.headers[name] = value;
+      },
+      json(responseBody) {
+        this.body = responseBody;
+        return this;
+      },
+    };
+    let handled = false;
+
+    idempotency(req, res, () => {
+      handled = true;
+      handle?.(res);
+    });
+    return { res, handled };
+  };
+  const body = { target: '081234567890', message: 'Order shipped' };
+  const queue = (res) => res.status(202).json({ success: true, status: 'queued', id: 'job-1' });
+
+  const first = send('key-a', body, queue);
+  assert.equal(first.handled, true);
+
+  const retry = send('key-a', { message: 'Order shipped', target: '081234567890' });
+  assert.equal(retry.handled, false);
+  assert.equal(retry.res.statusCode, 202);
+  assert.deepEqual(retry.res.body, { success: true, status: 'queued', id: 'job-1' });
+  assert.equal(retry.res.headers['Idempotent-Replayed'], 'true');
+
+  const conflict = send('key-a', { ...body, message: 'Order cancelled' });
+  assert.equal(conflict.handled, false);
+  assert.equal(conflict.res.statusCode, 409);
+
+  // Keys are per API key, so another key may use the same value
+  assert.equal(send('key-b', body, queue).handled, true);
+});
+
+test('validateIdempotencyKey accepts visible ASCII keys only', () => {
+  assert.equal(validateIdempotencyKey('order-1001:retry'), 'order-1001:retry');
+  assert.throws(() => validateIdempotencyKey(''), RequestValidationError);
+  assert.throws(() => validateIdempotencyKey('has space'), RequestValidationError);
+  assert.throws(() => validateIdempotencyKey('x'.repeat(256)), RequestValidationError);
+});
+
+test('validateApiKeyRequest validates scopes, limits and expiry', () => {
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+  const created = validateApiKeyRequest({
+    label: 'billing',
+    scopes: ['send', 'status', 'send'],
+    rateLimitPerMinute: 60,
+    expiresAt,
+  });
+
+  assert.equal(created.label, 'billing');
+  assert.deepEqual(created.scopes, ['send', 'status']);
+  assert.equal(created.rateLimitPerMinute, 60);
+  assert.equal(created.dailyQuota, undefined);
+  assert.equal(created.expiresAt.toISOString(), expiresAt);
+
+  assert.throws(() => validateApiKeyRequest({ label: 'x', scopes: [] }), RequestValidationError);
+  assert.throws(() => validateApiKeyRequest({ label: 'x', scopes: ['delete'] }), /scopes\[0\] must be one of/);
+  assert.throws(() => validateApiKeyRequest({ label: 'x', scopes: ['send'], dailyQuota: 0 }), RequestValidationError);
+  assert.throws(
+    () => validateApiKeyRequest({ label: 'x', scopes: ['send'], expiresAt: '2020-01-01T00:00:00Z' }),
+    /expiresAt must be in the future/
+  );
+
+  assert.deepEqual(validateApiKeyRequest({ dailyQuota: null }, true).dailyQuota, null);
+  assert.throws(() => validateApiKeyRequest({}, true), RequestValidationError);
+});
+
+test('requireScope rejects keys without the scope', () => {
+  const run = (scopes) => {
+    let statusCode = 200;
+    let nextCalled = false;
+    const res = {
+      locals: { apiKey: { id: 'k1', label: 'test', scopes } },
+      status(code) {
+        statusCode = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    };
+
+    requireScope('broadcast')({}, res, () => {
+      nextCalled = true;
+    });
+    return { statusCode, nextCalled };
+  };
+
+  assert.deepEqual(run(['send', 'broadcast']), { statusCode: 200, nextCalled: true });
+  assert.deepEqual(run(['send']), { statusCode: 403, nextCalled: false });
+});
+
+test('multi-target sends need the broadcast scope', () => {
+  const resFor = (scopes) => ({ locals: { apiKey: { id: 'k1', label: 'test', scopes } } });
+  const { targets } = validateSendRequest({ target: '6281234567890,6289876543210', message: 'Hi' });
+
+  assert.equal(targets.length, 2);
+  assert.throws(() => assertTargetScope(resFor(['send']), targets), ApiKeyScopeError);
+  assert.doesNotThrow(() => assertTargetScope(resFor(['send']), targets.slice(0, 1)));
+  assert.doesNotThrow(() => assertTargetScope(resFor(['send', 'broadcast']), targets));
+});
+
+test('throttle rules enforce limits, quiet hours and warm-up', () => {
+  const policy = {
+    dailyLimit: 100,
+    hourlyLimit: 2,
+    recipientDailyLimit: 1,
+    warmupDays: 4,
+    warmupStartLimit: 20,
+    quietHours: parseQuietHours('22:00-07:00'),
+    timezone: 'UTC',
+    delayJitterMs: 0,
+    errorWindow: 10,
+    errorRateThreshold: 0.5,
+    slowdownFactor: 3,
+  };
+  const now = new Date('2026-03-10T12:00:00Z');
+  const state = { day: '', dailyCount: 0, hourlySends: [], recipients: {}, recentFailures: [] };
+  const check = (at = now, recipientKey = 'a') =>
+    evaluateThrottleRules(DEFAULT_THROTTLE_RULES, { policy, state, recipientKey, now: at });
+
+  rollThrottleState(state, policy, now);
+  assert.equal(state.day, '2026-03-10');
+  assert.equal(check(), null);
+
+  const quiet = check(new Date('2026-03-10T23:30:00Z'));
+  assert.equal(quiet.rule, 'quiet_hours');
+  assert.equal(new Date(quiet.retryAt).toISOString(), '2026-03-11T07:00:00.000Z');
+
+  state.recipients.a = 1;
+  assert.deepEqual(check(), { rule: 'recipient_limit', reason: 'Daily limit per recipient reached (1).' });
+
+  state.hourlySends = [now.getTime() - 30 * 60000, now.getTime() - 10 * 60000];
+  assert.equal(check(now, 'b').rule, 'hourly_limit');
+  assert.equal(check(now, 'b').retryAt, now.getTime() + 30 * 60000);
+
+  state.linkedAt = '2026-03-08T12:00:00Z';
+  state.dailyCount = 60;
+  assert.equal(getEffectiveDailyLimit(policy, state, now), 60);
+  assert.match(check(now, 'b').reason, /Daily message limit reached \(60, warming up/);
+  assert.equal(new Date(check(now, 'b').retryAt).toISOString(), '2026-03-11T00:00:00.000Z');
+
+  rollThrottleState(state, policy, new Date('2026-03-11T00:00:00Z'));
+  assert.equal(state.dailyCount, 0);
+  assert.deepEqual(state.recipients, {});
+  assert.deepEqual(state.hourlySends, []);
+});
+
+test('getThrottledDelay adds jitter and slows down on a high error rate', () => {
+  const policy = { delayJitterMs: 1000, errorRateThreshold: 0.5, slowdownFactor: 3 };
+  const state = { recentFailures: [false, false, true, false] };
+
+  assert.equal(getThrottledDelay(policy, state, 1000, () => 0.5), 1500);
+  state.recentFailures.push(true, true);
+  assert.equal(getThrottledDelay(policy, state, 1000, () => 0.5), 4500);
+  assert.throws(() => parseQuietHours('22:00'), /HH:MM-HH:MM/);
+  assert.throws(() => parseQuietHours('25:00-07:00'), /24-hour/);
+});
+
+test('formatServerSentEvent writes one event with JSON data', () => {
+  assert.equal(
+    formatServerSentEvent('state', { state: 'CONNECTED', note: 'a\nb' }, 7),
+    'id: 7\nevent: state\ndata: {"state":"CONNECTED","note":"a\\nb"}\n\n'
+  );
+  assert.equal(formatServerSentEvent('log', { id: 'x' }), 'event: log\ndata: {"id":"x"}\n\n');
+});